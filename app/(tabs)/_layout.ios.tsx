@@ -8,6 +8,18 @@ export default function TabLayout() {
         <Icon sf="house.fill" />
         <Label>Home</Label>
       </NativeTabs.Trigger>
+      <NativeTabs.Trigger key="history" name="history">
+        <Icon sf="clock.fill" />
+        <Label>History</Label>
+      </NativeTabs.Trigger>
+      <NativeTabs.Trigger key="wardrobe" name="wardrobe">
+        <Icon sf="tshirt.fill" />
+        <Label>Wardrobe</Label>
+      </NativeTabs.Trigger>
+      <NativeTabs.Trigger key="planner" name="planner">
+        <Icon sf="calendar" />
+        <Label>Planner</Label>
+      </NativeTabs.Trigger>
       <NativeTabs.Trigger key="profile" name="profile">
         <Icon sf="person.fill" />
         <Label>Profile</Label>
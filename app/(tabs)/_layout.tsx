@@ -11,6 +11,24 @@ export default function TabLayout() {
       icon: 'home',
       label: 'Home',
     },
+    {
+      name: 'history',
+      route: '/(tabs)/history',
+      icon: 'history',
+      label: 'History',
+    },
+    {
+      name: 'wardrobe',
+      route: '/(tabs)/wardrobe',
+      icon: 'checkroom',
+      label: 'Wardrobe',
+    },
+    {
+      name: 'planner',
+      route: '/(tabs)/planner',
+      icon: 'calendar-today',
+      label: 'Planner',
+    },
     {
       name: 'profile',
       route: '/(tabs)/profile',
@@ -29,6 +47,9 @@ export default function TabLayout() {
         }}
       >
         <Stack.Screen key="home" name="(home)" />
+        <Stack.Screen key="history" name="history" />
+        <Stack.Screen key="wardrobe" name="wardrobe" />
+        <Stack.Screen key="planner" name="planner" />
         <Stack.Screen key="profile" name="profile" />
       </Stack>
       <FloatingTabBar tabs={tabs} />
@@ -0,0 +1,262 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  Image,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  Platform,
+} from 'react-native';
+import { router, useLocalSearchParams } from 'expo-router';
+import { IconSymbol } from '@/components/IconSymbol';
+import { AddToWardrobe } from '@/components/AddToWardrobe';
+import { AnalysisResultCard } from '@/components/AnalysisResultCard';
+import { GarmentOverlay } from '@/components/GarmentOverlay';
+import { RegenerateSuggestion } from '@/components/RegenerateSuggestion';
+import { colors } from '@/styles/commonStyles';
+import {
+  AnalysisResult,
+  deleteAnalysis,
+  favoriteSuggestionImage,
+  fetchAnalysis,
+  regenerateSuggestion,
+} from '@/utils/analyses';
+import { addGarmentsToWardrobe } from '@/utils/wardrobe';
+
+export default function AnalysisDetailScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const [analysis, setAnalysis] = useState<AnalysisResult | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [deleting, setDeleting] = useState(false);
+
+  useEffect(() => {
+    if (!id) return;
+
+    console.log('[History] Loading analysis:', id);
+    setLoading(true);
+    fetchAnalysis(id)
+      .then(setAnalysis)
+      .catch((error) => {
+        console.error('[History] Error loading analysis:', error);
+        Alert.alert('Error', 'Could not load this analysis.');
+      })
+      .finally(() => setLoading(false));
+  }, [id]);
+
+  const reanalyze = () => {
+    if (!analysis?.originalImageUrl) return;
+    router.push({ pathname: '/camera', params: { imageUri: analysis.originalImageUrl } });
+  };
+
+  const favoriteSuggestion = async (index: number | null) => {
+    if (!analysis) return;
+    try {
+      setAnalysis(await favoriteSuggestionImage(analysis.id, index));
+    } catch (error) {
+      console.error('[History] Error saving favourite suggestion:', error);
+      Alert.alert('Error', 'Could not save your favourite. Please try again.');
+    }
+  };
+
+  const regenerate = async (instruction: string) => {
+    if (!analysis) return;
+    try {
+      setAnalysis(await regenerateSuggestion(analysis.id, instruction || undefined));
+    } catch (error) {
+      console.error('[History] Error regenerating suggestion:', error);
+      Alert.alert('Error', 'Could not generate another suggestion. Please try again.');
+    }
+  };
+
+  const addToWardrobe = async (indexes: number[]) => {
+    if (!analysis) return 0;
+    try {
+      const items = await addGarmentsToWardrobe(analysis.id, indexes);
+      return items.length;
+    } catch (error) {
+      console.error('[History] Error adding garments to the wardrobe:', error);
+      Alert.alert('Error', 'Could not add these garments to your wardrobe. Please try again.');
+      throw error;
+    }
+  };
+
+  const confirmDelete = () => {
+    Alert.alert('Delete Analysis', 'This removes the analysis and its images. Continue?', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          if (!analysis) return;
+          setDeleting(true);
+          try {
+            await deleteAnalysis(analysis.id);
+            router.back();
+          } catch (error) {
+            console.error('[History] Error deleting analysis:', error);
+            Alert.alert('Error', 'Could not delete this analysis. Please try again.');
+            setDeleting(false);
+          }
+        },
+      },
+    ]);
+  };
+
+  if (loading) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <ActivityIndicator size="large" color={colors.primary} />
+      </View>
+    );
+  }
+
+  if (!analysis) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <Text style={styles.emptyText}>Analysis not found.</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+      >
+        <Text style={styles.dateText}>{new Date(analysis.createdAt).toLocaleString()}</Text>
+
+        {analysis.originalImageUrl ? (
+          <View style={styles.originalImageContainer}>
+            <Text style={styles.sectionTitle}>📸 Your Photo</Text>
+            <View>
+              <Image source={{ uri: analysis.originalImageUrl }} style={styles.originalImage} />
+              {analysis.garments.length > 0 && <GarmentOverlay garments={analysis.garments} />}
+            </View>
+          </View>
+        ) : null}
+
+        <AnalysisResultCard result={analysis} onFavoriteSuggestion={favoriteSuggestion} />
+        <RegenerateSuggestion onRegenerate={regenerate} />
+        {analysis.garments.length > 0 && (
+          <AddToWardrobe
+            key={analysis.id}
+            garments={analysis.garments}
+            onAdd={addToWardrobe}
+            onOpenWardrobe={() => router.push('/(tabs)/wardrobe')}
+          />
+        )}
+
+        <View style={styles.buttonContainer}>
+          {analysis.originalImageUrl ? (
+            <TouchableOpacity
+              style={[styles.actionButton, styles.reanalyzeButton]}
+              onPress={reanalyze}
+              disabled={deleting}
+            >
+              <IconSymbol
+                ios_icon_name="arrow.clockwise"
+                android_material_icon_name="refresh"
+                size={24}
+                color="#fff"
+              />
+              <Text style={styles.buttonText}>Re-analyze</Text>
+            </TouchableOpacity>
+          ) : null}
+
+          <TouchableOpacity
+            style={[styles.actionButton, styles.deleteButton, deleting && styles.buttonDisabled]}
+            onPress={confirmDelete}
+            disabled={deleting}
+          >
+            {deleting ? (
+              <ActivityIndicator color="#fff" size="small" />
+            ) : (
+              <IconSymbol
+                ios_icon_name="trash.fill"
+                android_material_icon_name="delete"
+                size={24}
+                color="#fff"
+              />
+            )}
+            <Text style={styles.buttonText}>Delete</Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scrollContent: {
+    paddingHorizontal: 20,
+    paddingTop: Platform.OS === 'android' ? 20 : 10,
+    paddingBottom: 120, // Extra padding for floating tab bar
+  },
+  dateText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: colors.textSecondary,
+  },
+  originalImageContainer: {
+    width: '100%',
+    marginBottom: 20,
+    borderRadius: 20,
+    overflow: 'hidden',
+    backgroundColor: colors.backgroundAlt,
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: colors.text,
+    textAlign: 'center',
+    paddingVertical: 16,
+  },
+  originalImage: {
+    width: '100%',
+    aspectRatio: 3 / 4,
+  },
+  buttonContainer: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  actionButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 16,
+    borderRadius: 12,
+    gap: 8,
+  },
+  reanalyzeButton: {
+    backgroundColor: colors.primary,
+  },
+  deleteButton: {
+    backgroundColor: colors.highlight,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,254 @@
+import React, { useCallback, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  Image,
+  TouchableOpacity,
+  ActivityIndicator,
+  RefreshControl,
+  Platform,
+} from 'react-native';
+import { router, useFocusEffect } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { LinearGradient } from 'expo-linear-gradient';
+import { IconSymbol } from '@/components/IconSymbol';
+import { useCategories } from '@/contexts/CategoriesContext';
+import { colors } from '@/styles/commonStyles';
+import { AnalysisResult, fetchAnalyses } from '@/utils/analyses';
+
+const PAGE_SIZE = 20;
+
+export default function HistoryScreen() {
+  const { getCategory } = useCategories();
+  const [items, setItems] = useState<AnalysisResult[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // onEndReached can fire several times in a row; only one page request at a time
+  const pageRequestInFlight = useRef(false);
+
+  const loadFirstPage = useCallback(async () => {
+    console.log('[History] Loading first page...');
+    try {
+      const page = await fetchAnalyses(null, PAGE_SIZE);
+      setItems(page.items);
+      setNextCursor(page.nextCursor);
+      setError(null);
+    } catch (err) {
+      console.error('[History] Error loading analyses:', err);
+      setError('Could not load your history. Pull to retry.');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, []);
+
+  // Reload whenever the tab gains focus so new and deleted analyses show up
+  useFocusEffect(
+    useCallback(() => {
+      loadFirstPage();
+    }, [loadFirstPage])
+  );
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    loadFirstPage();
+  };
+
+  const loadMore = async () => {
+    if (!nextCursor || pageRequestInFlight.current) return;
+
+    console.log('[History] Loading more, cursor:', nextCursor);
+    pageRequestInFlight.current = true;
+    setLoadingMore(true);
+    try {
+      const page = await fetchAnalyses(nextCursor, PAGE_SIZE);
+      setItems((current) => [...current, ...page.items]);
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      console.error('[History] Error loading more analyses:', err);
+    } finally {
+      pageRequestInFlight.current = false;
+      setLoadingMore(false);
+    }
+  };
+
+  const renderItem = ({ item }: { item: AnalysisResult }) => {
+    const thumbnailUrl = item.originalImageUrl || item.suggestionImageUrl;
+    const category = getCategory(item.category);
+
+    return (
+      <TouchableOpacity
+        style={styles.row}
+        onPress={() => router.push({ pathname: '/(tabs)/history/[id]', params: { id: item.id } })}
+        activeOpacity={0.7}
+      >
+        {thumbnailUrl ? (
+          <Image source={{ uri: thumbnailUrl }} style={styles.thumbnail} />
+        ) : (
+          <View style={[styles.thumbnail, styles.thumbnailPlaceholder]}>
+            <IconSymbol
+              ios_icon_name="photo"
+              android_material_icon_name="image"
+              size={28}
+              color={colors.grey}
+            />
+          </View>
+        )}
+
+        <View style={styles.rowContent}>
+          <LinearGradient
+            colors={category.colors}
+            style={styles.categoryBadge}
+            start={{ x: 0, y: 0 }}
+            end={{ x: 1, y: 1 }}
+          >
+            <IconSymbol
+              ios_icon_name="sparkles"
+              android_material_icon_name={category.icon}
+              size={14}
+              color="#fff"
+            />
+            <Text style={styles.categoryText}>{category.label}</Text>
+          </LinearGradient>
+          <Text style={styles.dateText}>{new Date(item.createdAt).toLocaleString()}</Text>
+        </View>
+
+        <IconSymbol
+          ios_icon_name="chevron.right"
+          android_material_icon_name="chevron-right"
+          size={20}
+          color={colors.grey}
+        />
+      </TouchableOpacity>
+    );
+  };
+
+  if (loading) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <ActivityIndicator size="large" color={colors.primary} />
+      </View>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={Platform.OS === 'ios' ? [] : ['top']}>
+      <FlatList
+        data={items}
+        renderItem={renderItem}
+        keyExtractor={(item) => item.id}
+        contentContainerStyle={[
+          styles.listContent,
+          Platform.OS !== 'ios' && styles.listContentWithTabBar,
+        ]}
+        contentInsetAdjustmentBehavior="automatic"
+        onEndReached={loadMore}
+        onEndReachedThreshold={0.5}
+        refreshControl={
+          <RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={colors.text} />
+        }
+        ListHeaderComponent={
+          Platform.OS !== 'ios' ? <Text style={styles.title}>History</Text> : null
+        }
+        ListEmptyComponent={
+          <View style={styles.emptyContainer}>
+            <IconSymbol
+              ios_icon_name="clock"
+              android_material_icon_name="history"
+              size={64}
+              color={colors.grey}
+            />
+            <Text style={styles.emptyText}>
+              {error ?? 'No analyses yet. Analyze an outfit to see it here.'}
+            </Text>
+          </View>
+        }
+        ListFooterComponent={
+          loadingMore ? <ActivityIndicator style={styles.footer} color={colors.primary} /> : null
+        }
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  listContent: {
+    padding: 16,
+    gap: 12,
+  },
+  listContentWithTabBar: {
+    paddingBottom: 100, // Extra padding for floating tab bar
+  },
+  title: {
+    fontSize: 32,
+    fontWeight: 'bold',
+    color: colors.text,
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.card,
+    borderRadius: 16,
+    padding: 12,
+    gap: 12,
+  },
+  thumbnail: {
+    width: 64,
+    height: 84,
+    borderRadius: 10,
+  },
+  thumbnailPlaceholder: {
+    backgroundColor: colors.background,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  rowContent: {
+    flex: 1,
+    gap: 8,
+  },
+  categoryBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    gap: 6,
+  },
+  categoryText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+  dateText: {
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingTop: 80,
+    gap: 16,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: colors.textSecondary,
+    textAlign: 'center',
+  },
+  footer: {
+    paddingVertical: 16,
+  },
+});
@@ -0,0 +1,26 @@
+import { Platform } from 'react-native';
+import { Stack } from 'expo-router';
+
+export default function PlannerLayout() {
+  return (
+    <Stack
+      screenOptions={{
+        headerStyle: {
+          backgroundColor: '#1a1a2e',
+        },
+        headerTintColor: '#fff',
+        headerTitleStyle: {
+          fontWeight: 'bold',
+        },
+      }}
+    >
+      <Stack.Screen
+        name="index"
+        options={{
+          headerShown: Platform.OS === 'ios', // Show header on iOS with NativeTabs, hide on Android/Web
+          title: 'Planner'
+        }}
+      />
+    </Stack>
+  );
+}
@@ -0,0 +1,687 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  Image,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  Platform,
+} from 'react-native';
+import { router, useFocusEffect } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import DateTimePicker, { DateTimePickerEvent } from '@react-native-community/datetimepicker';
+import { IconSymbol } from '@/components/IconSymbol';
+import { WardrobeThumbnail } from '@/components/DraggableWardrobeItem';
+import { PlanTargetPicker } from '@/components/PlanTargetPicker';
+import { useCategories } from '@/contexts/CategoriesContext';
+import { colors } from '@/styles/commonStyles';
+import {
+  MAX_REPEAT_DAYS,
+  PlanTarget,
+  PlannerEntry,
+  fetchPlan,
+  fromDateKey,
+  getRepeatDays,
+  planDay,
+  setRepeatDays,
+  toDateKey,
+} from '@/utils/planner';
+
+type ViewMode = 'month' | 'week';
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+const addDays = (date: Date, days: number) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+// Weeks start on Monday
+const startOfWeek = (date: Date) => addDays(date, -((date.getDay() + 6) % 7));
+
+// Whole weeks covering the month, so the grid has no gaps
+function visibleDays(anchor: Date, mode: ViewMode): Date[] {
+  if (mode === 'week') {
+    const start = startOfWeek(anchor);
+    return Array.from({ length: 7 }, (_, index) => addDays(start, index));
+  }
+  const first = new Date(anchor.getFullYear(), anchor.getMonth(), 1);
+  const last = new Date(anchor.getFullYear(), anchor.getMonth() + 1, 0);
+  const start = startOfWeek(first);
+  const end = addDays(startOfWeek(last), 6);
+  const days: Date[] = [];
+  for (let day = start; day <= end; day = addDays(day, 1)) {
+    days.push(day);
+  }
+  return days;
+}
+
+const formatDay = (key: string) =>
+  fromDateKey(key).toLocaleDateString(undefined, { weekday: 'short', day: 'numeric', month: 'short' });
+
+// First picture of what is planned, for calendar cells
+function EntryThumbnail({ entry, size }: { entry: PlannerEntry; size: number }) {
+  const firstItem = entry.outfit?.items[0];
+  if (firstItem) return <WardrobeThumbnail item={firstItem} size={size} />;
+  if (entry.analysis?.originalImageUrl) {
+    return (
+      <Image
+        source={{ uri: entry.analysis.originalImageUrl }}
+        style={{ width: size, height: size, borderRadius: 8 }}
+      />
+    );
+  }
+  return (
+    <View style={[styles.thumbnailPlaceholder, { width: size, height: size }]}>
+      <IconSymbol
+        ios_icon_name="tshirt"
+        android_material_icon_name="checkroom"
+        size={size / 2}
+        color={colors.grey}
+      />
+    </View>
+  );
+}
+
+export default function PlannerScreen() {
+  const { getCategory } = useCategories();
+  const [mode, setMode] = useState<ViewMode>('month');
+  const [anchor, setAnchor] = useState(() => new Date());
+  const [selected, setSelected] = useState(() => toDateKey(new Date()));
+  const [entries, setEntries] = useState<Record<string, PlannerEntry>>({});
+  const [repeatDays, setRepeatDaysState] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [showDatePicker, setShowDatePicker] = useState(false);
+  const [showTargetPicker, setShowTargetPicker] = useState(false);
+
+  const days = visibleDays(anchor, mode);
+  const from = toDateKey(days[0]);
+  const to = toDateKey(days[days.length - 1]);
+  const today = toDateKey(new Date());
+
+  useEffect(() => {
+    getRepeatDays().then(setRepeatDaysState);
+  }, []);
+
+  const load = useCallback(async () => {
+    if (repeatDays === null) return;
+
+    console.log('[Planner] Loading', from, 'to', to);
+    try {
+      const plan = await fetchPlan(from, to, repeatDays);
+      setEntries(Object.fromEntries(plan.entries.map((entry) => [entry.date, entry])));
+    } catch (error) {
+      console.error('[Planner] Error loading plan:', error);
+      Alert.alert('Error', 'Could not load your planner.');
+    } finally {
+      setLoading(false);
+    }
+  }, [from, to, repeatDays]);
+
+  // Reload on focus too, so outfits saved or deleted elsewhere show up
+  useFocusEffect(
+    useCallback(() => {
+      load();
+    }, [load])
+  );
+
+  const move = (direction: 1 | -1) => {
+    setAnchor((current) =>
+      mode === 'week'
+        ? addDays(current, 7 * direction)
+        : new Date(current.getFullYear(), current.getMonth() + direction, 1)
+    );
+  };
+
+  const goTo = (date: Date) => {
+    setAnchor(date);
+    setSelected(toDateKey(date));
+  };
+
+  const onPickDate = (event: DateTimePickerEvent, date?: Date) => {
+    // Android shows a dialog that closes itself; iOS shows the picker inline
+    setShowDatePicker(false);
+    if (event.type === 'set' && date) goTo(date);
+  };
+
+  const changeRepeatDays = (delta: number) => {
+    if (repeatDays === null) return;
+    const next = Math.min(MAX_REPEAT_DAYS, Math.max(0, repeatDays + delta));
+    setRepeatDaysState(next);
+    setRepeatDays(next);
+  };
+
+  // Plans the selected day, or clears it with a null target
+  const saveDay = async (target: PlanTarget | null, worn = false) => {
+    setSaving(true);
+    try {
+      await planDay(selected, target, worn, repeatDays ?? undefined);
+      // Other days' repeat warnings can change too
+      await load();
+    } catch (error) {
+      console.error('[Planner] Error saving day:', error);
+      Alert.alert('Error', 'Could not update this day. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const selectedEntry = entries[selected];
+  const selectedTarget: PlanTarget | null = selectedEntry?.outfit
+    ? { outfitId: selectedEntry.outfit.id }
+    : selectedEntry?.analysis
+      ? { analysisId: selectedEntry.analysis.id }
+      : null;
+
+  const periodLabel =
+    mode === 'month'
+      ? anchor.toLocaleDateString(undefined, { month: 'long', year: 'numeric' })
+      : `${formatDay(from)} – ${formatDay(to)}`;
+
+  const entryTitle = (entry: PlannerEntry) =>
+    entry.outfit
+      ? (entry.outfit.name ?? 'Untitled look')
+      : entry.analysis
+        ? `${getCategory(entry.analysis.category).label} analysis`
+        : '';
+
+  return (
+    <SafeAreaView style={styles.container} edges={Platform.OS === 'ios' ? [] : ['top']}>
+      <ScrollView
+        contentContainerStyle={[styles.scrollContent, Platform.OS !== 'ios' && styles.withTabBar]}
+        contentInsetAdjustmentBehavior="automatic"
+      >
+        {Platform.OS !== 'ios' ? <Text style={styles.title}>Planner</Text> : null}
+
+        <View style={styles.toolbar}>
+          <View style={styles.modes}>
+            {(['month', 'week'] as const).map((option) => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.chip, mode === option && styles.chipSelected]}
+                onPress={() => setMode(option)}
+              >
+                <Text style={styles.chipText}>{option === 'month' ? 'Month' : 'Week'}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <View style={styles.modes}>
+            <TouchableOpacity style={styles.chip} onPress={() => goTo(new Date())}>
+              <Text style={styles.chipText}>Today</Text>
+            </TouchableOpacity>
+            {Platform.OS !== 'web' ? (
+              <TouchableOpacity
+                style={styles.chip}
+                onPress={() => setShowDatePicker((shown) => !shown)}
+                accessibilityLabel="Go to date"
+              >
+                <IconSymbol
+                  ios_icon_name="calendar"
+                  android_material_icon_name="calendar-today"
+                  size={16}
+                  color="#fff"
+                />
+              </TouchableOpacity>
+            ) : null}
+          </View>
+        </View>
+
+        {showDatePicker ? (
+          <DateTimePicker
+            value={fromDateKey(selected)}
+            mode="date"
+            display={Platform.OS === 'ios' ? 'inline' : 'default'}
+            onChange={onPickDate}
+            themeVariant="dark"
+          />
+        ) : null}
+
+        <View style={styles.periodRow}>
+          <TouchableOpacity onPress={() => move(-1)} accessibilityLabel="Previous">
+            <IconSymbol
+              ios_icon_name="chevron.left"
+              android_material_icon_name="chevron-left"
+              size={28}
+              color={colors.text}
+            />
+          </TouchableOpacity>
+          <Text style={styles.periodLabel}>{periodLabel}</Text>
+          <TouchableOpacity onPress={() => move(1)} accessibilityLabel="Next">
+            <IconSymbol
+              ios_icon_name="chevron.right"
+              android_material_icon_name="chevron-right"
+              size={28}
+              color={colors.text}
+            />
+          </TouchableOpacity>
+        </View>
+
+        {loading ? (
+          <ActivityIndicator style={styles.loading} size="large" color={colors.primary} />
+        ) : mode === 'month' ? (
+          <View>
+            <View style={styles.weekRow}>
+              {WEEKDAYS.map((weekday) => (
+                <Text key={weekday} style={styles.weekday}>
+                  {weekday}
+                </Text>
+              ))}
+            </View>
+            <View style={styles.grid}>
+              {days.map((day) => {
+                const key = toDateKey(day);
+                const entry = entries[key];
+                return (
+                  <TouchableOpacity
+                    key={key}
+                    style={[
+                      styles.cell,
+                      day.getMonth() !== anchor.getMonth() && styles.cellOutside,
+                      key === selected && styles.cellSelected,
+                    ]}
+                    onPress={() => setSelected(key)}
+                  >
+                    <Text style={[styles.cellDay, key === today && styles.today]}>{day.getDate()}</Text>
+                    {entry ? <EntryThumbnail entry={entry} size={28} /> : null}
+                    {entry?.worn || entry?.repeatOf ? (
+                      <View style={[styles.badge, entry.repeatOf ? styles.badgeRepeat : styles.badgeWorn]} />
+                    ) : null}
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+        ) : (
+          <View style={styles.weekList}>
+            {days.map((day) => {
+              const key = toDateKey(day);
+              const entry = entries[key];
+              return (
+                <TouchableOpacity
+                  key={key}
+                  style={[styles.weekDay, key === selected && styles.cellSelected]}
+                  onPress={() => setSelected(key)}
+                >
+                  <Text style={[styles.weekDayLabel, key === today && styles.today]}>{formatDay(key)}</Text>
+                  {entry ? (
+                    <View style={styles.weekDayPlan}>
+                      <EntryThumbnail entry={entry} size={40} />
+                      <View style={styles.weekDayText}>
+                        <Text style={styles.entryTitle} numberOfLines={1}>
+                          {entryTitle(entry)}
+                        </Text>
+                        {entry.repeatOf ? (
+                          <Text style={styles.warning}>Repeats {formatDay(entry.repeatOf)}</Text>
+                        ) : entry.worn ? (
+                          <Text style={styles.worn}>Worn</Text>
+                        ) : null}
+                      </View>
+                    </View>
+                  ) : (
+                    <Text style={styles.emptyDay}>Nothing planned</Text>
+                  )}
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        )}
+
+        <View style={styles.dayCard}>
+          <Text style={styles.dayTitle}>{formatDay(selected)}</Text>
+          {selectedEntry ? (
+            <>
+              <TouchableOpacity
+                style={styles.dayPlan}
+                onPress={() =>
+                  selectedEntry.outfit
+                    ? router.push({
+                        pathname: '/(tabs)/wardrobe/builder',
+                        params: { outfitId: selectedEntry.outfit.id },
+                      })
+                    : router.push({
+                        pathname: '/(tabs)/history/[id]',
+                        params: { id: selectedEntry.analysis!.id },
+                      })
+                }
+              >
+                <EntryThumbnail entry={selectedEntry} size={56} />
+                <Text style={styles.entryTitle}>{entryTitle(selectedEntry)}</Text>
+              </TouchableOpacity>
+              {selectedEntry.repeatOf ? (
+                <View style={styles.warningBox}>
+                  <IconSymbol
+                    ios_icon_name="exclamationmark.triangle.fill"
+                    android_material_icon_name="warning"
+                    size={18}
+                    color={colors.highlight}
+                  />
+                  <Text style={styles.warning}>
+                    Also planned for {formatDay(selectedEntry.repeatOf)}, within {repeatDays} days.
+                  </Text>
+                </View>
+              ) : null}
+              <View style={styles.dayActions}>
+                <TouchableOpacity
+                  style={[styles.actionButton, selectedEntry.worn ? styles.wornButton : styles.primaryButton]}
+                  onPress={() => saveDay(selectedTarget, !selectedEntry.worn)}
+                  disabled={saving}
+                >
+                  <IconSymbol
+                    ios_icon_name={selectedEntry.worn ? 'checkmark.circle.fill' : 'checkmark.circle'}
+                    android_material_icon_name={selectedEntry.worn ? 'check-circle' : 'radio-button-unchecked'}
+                    size={18}
+                    color="#fff"
+                  />
+                  <Text style={styles.actionText}>{selectedEntry.worn ? 'Worn' : 'Mark as Worn'}</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.actionButton, styles.secondaryButton]}
+                  onPress={() => setShowTargetPicker(true)}
+                  disabled={saving}
+                >
+                  <Text style={styles.actionText}>Change</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.actionButton, styles.clearButton]}
+                  onPress={() => saveDay(null)}
+                  disabled={saving}
+                  accessibilityLabel="Clear day"
+                >
+                  <IconSymbol
+                    ios_icon_name="trash.fill"
+                    android_material_icon_name="delete"
+                    size={18}
+                    color="#fff"
+                  />
+                </TouchableOpacity>
+              </View>
+            </>
+          ) : (
+            <TouchableOpacity
+              style={[styles.actionButton, styles.primaryButton]}
+              onPress={() => setShowTargetPicker(true)}
+              disabled={saving}
+            >
+              <IconSymbol ios_icon_name="plus" android_material_icon_name="add" size={18} color="#fff" />
+              <Text style={styles.actionText}>Plan an Outfit</Text>
+            </TouchableOpacity>
+          )}
+          {saving ? <ActivityIndicator color={colors.primary} /> : null}
+        </View>
+
+        {repeatDays !== null ? (
+          <View style={styles.setting}>
+            <Text style={styles.settingLabel}>
+              {repeatDays === 0 ? 'Repeat warnings off' : `Warn about repeats within ${repeatDays} days`}
+            </Text>
+            <View style={styles.stepper}>
+              <TouchableOpacity
+                style={styles.stepperButton}
+                onPress={() => changeRepeatDays(-1)}
+                accessibilityLabel="Fewer days"
+              >
+                <IconSymbol ios_icon_name="minus" android_material_icon_name="remove" size={18} color="#fff" />
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.stepperButton}
+                onPress={() => changeRepeatDays(1)}
+                accessibilityLabel="More days"
+              >
+                <IconSymbol ios_icon_name="plus" android_material_icon_name="add" size={18} color="#fff" />
+              </TouchableOpacity>
+            </View>
+          </View>
+        ) : null}
+      </ScrollView>
+
+      <PlanTargetPicker
+        visible={showTargetPicker}
+        dateLabel={formatDay(selected)}
+        onClose={() => setShowTargetPicker(false)}
+        onSelect={(target) => {
+          setShowTargetPicker(false);
+          saveDay(target);
+        }}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  scrollContent: {
+    padding: 16,
+    gap: 12,
+  },
+  withTabBar: {
+    paddingBottom: 100, // Extra padding for floating tab bar
+  },
+  title: {
+    fontSize: 32,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  toolbar: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  modes: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: colors.card,
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  chipSelected: {
+    borderColor: colors.accent,
+  },
+  chipText: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  periodRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  periodLabel: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  loading: {
+    paddingVertical: 40,
+  },
+  weekRow: {
+    flexDirection: 'row',
+  },
+  weekday: {
+    width: `${100 / 7}%`,
+    textAlign: 'center',
+    fontSize: 12,
+    fontWeight: '600',
+    color: colors.textSecondary,
+    marginBottom: 4,
+  },
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  cell: {
+    width: `${100 / 7}%`,
+    aspectRatio: 0.7,
+    alignItems: 'center',
+    paddingTop: 4,
+    gap: 2,
+    borderRadius: 8,
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  cellOutside: {
+    opacity: 0.4,
+  },
+  cellSelected: {
+    borderColor: colors.accent,
+  },
+  cellDay: {
+    fontSize: 13,
+    color: colors.text,
+  },
+  today: {
+    color: colors.accent,
+    fontWeight: 'bold',
+  },
+  badge: {
+    position: 'absolute',
+    top: 4,
+    right: 4,
+    width: 7,
+    height: 7,
+    borderRadius: 4,
+  },
+  badgeRepeat: {
+    backgroundColor: colors.highlight,
+  },
+  badgeWorn: {
+    backgroundColor: colors.accent,
+  },
+  thumbnailPlaceholder: {
+    borderRadius: 8,
+    backgroundColor: colors.card,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  weekList: {
+    gap: 8,
+  },
+  weekDay: {
+    backgroundColor: colors.card,
+    borderRadius: 12,
+    padding: 10,
+    gap: 6,
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  weekDayLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  weekDayPlan: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  weekDayText: {
+    flex: 1,
+    gap: 2,
+  },
+  emptyDay: {
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+  entryTitle: {
+    flexShrink: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  warning: {
+    flexShrink: 1,
+    fontSize: 13,
+    color: colors.highlight,
+  },
+  worn: {
+    fontSize: 13,
+    color: colors.accent,
+  },
+  dayCard: {
+    backgroundColor: colors.card,
+    borderRadius: 16,
+    padding: 14,
+    gap: 10,
+  },
+  dayTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  dayPlan: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  warningBox: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  dayActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    paddingHorizontal: 14,
+    borderRadius: 12,
+    gap: 6,
+  },
+  primaryButton: {
+    flexGrow: 1,
+    backgroundColor: colors.primary,
+  },
+  wornButton: {
+    flexGrow: 1,
+    backgroundColor: colors.accent,
+  },
+  secondaryButton: {
+    backgroundColor: colors.secondary,
+  },
+  clearButton: {
+    backgroundColor: colors.highlight,
+  },
+  actionText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  setting: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  settingLabel: {
+    flex: 1,
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  stepper: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  stepperButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: colors.card,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+});
@@ -0,0 +1,299 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  Image,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  Platform,
+} from 'react-native';
+import { router, useLocalSearchParams } from 'expo-router';
+import { IconSymbol } from '@/components/IconSymbol';
+import { WardrobeItemForm } from '@/components/WardrobeItemForm';
+import { colors } from '@/styles/commonStyles';
+import {
+  WardrobeItem,
+  WardrobeItemInput,
+  deleteWardrobeItem,
+  fetchWardrobeItem,
+  updateWardrobeItem,
+} from '@/utils/wardrobe';
+
+function DetailRow({ label, value }: { label: string; value: string | null }) {
+  if (!value) return null;
+  return (
+    <View style={styles.detailRow}>
+      <Text style={styles.detailLabel}>{label}</Text>
+      <Text style={styles.detailValue}>{value}</Text>
+    </View>
+  );
+}
+
+export default function WardrobeItemScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const [item, setItem] = useState<WardrobeItem | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState(false);
+  const [deleting, setDeleting] = useState(false);
+
+  useEffect(() => {
+    if (!id) return;
+
+    console.log('[Wardrobe] Loading item:', id);
+    setLoading(true);
+    fetchWardrobeItem(id)
+      .then(setItem)
+      .catch((error) => {
+        console.error('[Wardrobe] Error loading item:', error);
+        Alert.alert('Error', 'Could not load this item.');
+      })
+      .finally(() => setLoading(false));
+  }, [id]);
+
+  const save = async (changes: WardrobeItemInput) => {
+    if (!item) return;
+    try {
+      setItem(await updateWardrobeItem(item.id, changes));
+      setEditing(false);
+    } catch (error) {
+      console.error('[Wardrobe] Error updating item:', error);
+      Alert.alert('Error', 'Could not save your changes. Please try again.');
+      throw error;
+    }
+  };
+
+  const confirmDelete = () => {
+    Alert.alert('Delete Item', 'This removes the item and its photo from your wardrobe. Continue?', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          if (!item) return;
+          setDeleting(true);
+          try {
+            await deleteWardrobeItem(item.id);
+            router.back();
+          } catch (error) {
+            console.error('[Wardrobe] Error deleting item:', error);
+            Alert.alert('Error', 'Could not delete this item. Please try again.');
+            setDeleting(false);
+          }
+        },
+      },
+    ]);
+  };
+
+  if (loading) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <ActivityIndicator size="large" color={colors.primary} />
+      </View>
+    );
+  }
+
+  if (!item) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <Text style={styles.emptyText}>Item not found.</Text>
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.scrollContent}
+      keyboardShouldPersistTaps="handled"
+    >
+      {item.imageUrl ? (
+        <Image source={{ uri: item.imageUrl }} style={styles.photo} />
+      ) : (
+        <View style={[styles.photo, styles.photoPlaceholder]}>
+          <IconSymbol
+            ios_icon_name="tshirt"
+            android_material_icon_name="checkroom"
+            size={64}
+            color={colors.grey}
+          />
+        </View>
+      )}
+
+      {editing ? (
+        <WardrobeItemForm initial={item} submitLabel="Save Changes" onSubmit={save} />
+      ) : (
+        <View style={styles.card}>
+          <Text style={styles.title}>{item.type}</Text>
+          <DetailRow label="Colours" value={item.colors.join(', ')} />
+          <DetailRow label="Pattern" value={item.pattern} />
+          <DetailRow label="Material" value={item.material} />
+          <DetailRow
+            label="Seasons"
+            value={item.seasons.length > 0 ? item.seasons.join(', ') : 'All year'}
+          />
+          <DetailRow label="Brand" value={item.brand} />
+          <DetailRow label="Tags" value={item.tags.join(', ')} />
+          <DetailRow label="Bought on" value={item.purchaseDate} />
+          <DetailRow
+            label="Price"
+            value={item.purchasePrice !== null ? item.purchasePrice.toFixed(2) : null}
+          />
+        </View>
+      )}
+
+      {item.sourceAnalysisId ? (
+        <TouchableOpacity
+          style={styles.linkRow}
+          onPress={() =>
+            router.push({
+              pathname: '/(tabs)/history/[id]',
+              params: { id: item.sourceAnalysisId! },
+            })
+          }
+        >
+          <IconSymbol
+            ios_icon_name="sparkles"
+            android_material_icon_name="auto-awesome"
+            size={18}
+            color={colors.accent}
+          />
+          <Text style={styles.linkText}>Detected in an analysis</Text>
+        </TouchableOpacity>
+      ) : null}
+
+      <View style={styles.buttonContainer}>
+        <TouchableOpacity
+          style={[styles.actionButton, styles.editButton]}
+          onPress={() => setEditing(!editing)}
+          disabled={deleting}
+        >
+          <IconSymbol
+            ios_icon_name={editing ? 'xmark' : 'pencil'}
+            android_material_icon_name={editing ? 'close' : 'edit'}
+            size={24}
+            color="#fff"
+          />
+          <Text style={styles.buttonText}>{editing ? 'Cancel' : 'Edit'}</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={[styles.actionButton, styles.deleteButton, deleting && styles.buttonDisabled]}
+          onPress={confirmDelete}
+          disabled={deleting}
+        >
+          {deleting ? (
+            <ActivityIndicator color="#fff" size="small" />
+          ) : (
+            <IconSymbol
+              ios_icon_name="trash.fill"
+              android_material_icon_name="delete"
+              size={24}
+              color="#fff"
+            />
+          )}
+          <Text style={styles.buttonText}>Delete</Text>
+        </TouchableOpacity>
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scrollContent: {
+    paddingHorizontal: 20,
+    paddingTop: Platform.OS === 'android' ? 20 : 10,
+    paddingBottom: 120, // Extra padding for floating tab bar
+    gap: 16,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: colors.textSecondary,
+  },
+  photo: {
+    width: '70%',
+    aspectRatio: 3 / 4,
+    alignSelf: 'center',
+    borderRadius: 16,
+  },
+  photoPlaceholder: {
+    backgroundColor: colors.backgroundAlt,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  card: {
+    backgroundColor: '#2a2438',
+    borderRadius: 16,
+    padding: 16,
+    gap: 10,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: colors.text,
+    textTransform: 'capitalize',
+  },
+  detailRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  detailLabel: {
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  detailValue: {
+    flex: 1,
+    fontSize: 14,
+    color: colors.text,
+    textAlign: 'right',
+    textTransform: 'capitalize',
+  },
+  linkRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  linkText: {
+    color: colors.accent,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  buttonContainer: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  actionButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 16,
+    borderRadius: 12,
+    gap: 8,
+  },
+  editButton: {
+    backgroundColor: colors.primary,
+  },
+  deleteButton: {
+    backgroundColor: colors.highlight,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,50 @@
+import { Platform } from 'react-native';
+import { Stack } from 'expo-router';
+
+export default function WardrobeLayout() {
+  return (
+    <Stack
+      screenOptions={{
+        headerStyle: {
+          backgroundColor: '#1a1a2e',
+        },
+        headerTintColor: '#fff',
+        headerTitleStyle: {
+          fontWeight: 'bold',
+        },
+      }}
+    >
+      <Stack.Screen
+        name="index"
+        options={{
+          headerShown: Platform.OS === 'ios', // Show header on iOS with NativeTabs, hide on Android/Web
+          title: 'Wardrobe'
+        }}
+      />
+      <Stack.Screen
+        name="new"
+        options={{
+          title: 'Add Item'
+        }}
+      />
+      <Stack.Screen
+        name="outfits"
+        options={{
+          title: 'Outfits'
+        }}
+      />
+      <Stack.Screen
+        name="builder"
+        options={{
+          title: 'Outfit Builder'
+        }}
+      />
+      <Stack.Screen
+        name="[id]"
+        options={{
+          title: 'Item'
+        }}
+      />
+    </Stack>
+  );
+}
@@ -0,0 +1,530 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  Platform,
+} from 'react-native';
+import { router, useLocalSearchParams } from 'expo-router';
+import Animated, { useAnimatedStyle, useSharedValue } from 'react-native-reanimated';
+import { IconSymbol } from '@/components/IconSymbol';
+import { DraggableWardrobeItem, WardrobeThumbnail } from '@/components/DraggableWardrobeItem';
+import { useCategories } from '@/contexts/CategoriesContext';
+import { colors } from '@/styles/commonStyles';
+import { fetchOccasions, OccasionInfo } from '@/utils/occasions';
+import {
+  GarmentSlot,
+  MAX_OUTFIT_ITEMS,
+  OutfitProposals,
+  createOutfit,
+  fetchOutfit,
+  proposeOutfits,
+  updateOutfit,
+} from '@/utils/outfits';
+import { WardrobeItem, fetchWardrobe } from '@/utils/wardrobe';
+
+// The strip shows the most recent items; the backend caps a page at 100
+const STRIP_SIZE = 100;
+const PREVIEW_SIZE = 72;
+
+type Target = { kind: 'category' | 'occasion'; id: string };
+
+const slotLabels: Record<GarmentSlot, string> = {
+  onePiece: 'a dress or jumpsuit',
+  top: 'tops',
+  bottom: 'bottoms',
+  outerwear: 'outerwear',
+  shoes: 'shoes',
+  accessory: 'accessories',
+};
+
+export default function OutfitBuilderScreen() {
+  const { outfitId } = useLocalSearchParams<{ outfitId?: string }>();
+  const { categories } = useCategories();
+  const [occasions, setOccasions] = useState<OccasionInfo[]>([]);
+  const [wardrobe, setWardrobe] = useState<WardrobeItem[]>([]);
+  const [look, setLook] = useState<WardrobeItem[]>([]);
+  const [name, setName] = useState('');
+  const [target, setTarget] = useState<Target | null>(null);
+  const [suggestions, setSuggestions] = useState<OutfitProposals | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [suggesting, setSuggesting] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [dragged, setDragged] = useState<WardrobeItem | null>(null);
+
+  const rootRef = useRef<View>(null);
+  const lookRef = useRef<View>(null);
+  const dragX = useSharedValue(0);
+  const dragY = useSharedValue(0);
+  // Window position of the screen, to place the drag preview
+  const originX = useSharedValue(0);
+  const originY = useSharedValue(0);
+
+  useEffect(() => {
+    console.log('[OutfitBuilder] Loading wardrobe', outfitId ? `for outfit ${outfitId}` : '');
+    Promise.all([
+      fetchWardrobe({}, null, STRIP_SIZE),
+      outfitId ? fetchOutfit(outfitId) : Promise.resolve(null),
+      fetchOccasions().catch((error) => {
+        console.error('[OutfitBuilder] Error loading occasions:', error);
+        return [];
+      }),
+    ])
+      .then(([page, outfit, occasionList]) => {
+        setWardrobe(page.items);
+        setOccasions(occasionList);
+        if (outfit) {
+          setLook(outfit.items);
+          setName(outfit.name ?? '');
+          setTarget(
+            outfit.occasion
+              ? { kind: 'occasion', id: outfit.occasion }
+              : outfit.category
+                ? { kind: 'category', id: outfit.category }
+                : null
+          );
+        }
+      })
+      .catch((error) => {
+        console.error('[OutfitBuilder] Error loading:', error);
+        Alert.alert('Error', 'Could not load your wardrobe.');
+      })
+      .finally(() => setLoading(false));
+  }, [outfitId]);
+
+  const previewStyle = useAnimatedStyle(() => ({
+    transform: [
+      { translateX: dragX.value - originX.value - PREVIEW_SIZE / 2 },
+      { translateY: dragY.value - originY.value - PREVIEW_SIZE / 2 },
+    ],
+  }));
+
+  const measureRoot = () => {
+    rootRef.current?.measureInWindow((x, y) => {
+      originX.value = x;
+      originY.value = y;
+    });
+  };
+
+  const addToLook = (item: WardrobeItem) => {
+    setLook((current) => {
+      if (current.some((entry) => entry.id === item.id)) return current;
+      if (current.length >= MAX_OUTFIT_ITEMS) {
+        Alert.alert('Look is full', `A look can hold up to ${MAX_OUTFIT_ITEMS} items.`);
+        return current;
+      }
+      return [...current, item];
+    });
+  };
+
+  const removeFromLook = (item: WardrobeItem) => {
+    setLook((current) => current.filter((entry) => entry.id !== item.id));
+  };
+
+  const onDragStart = (item: WardrobeItem) => {
+    measureRoot();
+    setDragged(item);
+  };
+
+  // Add the item when it is let go over the look
+  const onDrop = (item: WardrobeItem, x: number, y: number) => {
+    lookRef.current?.measureInWindow((left, top, width, height) => {
+      if (x >= left && x <= left + width && y >= top && y <= top + height) {
+        addToLook(item);
+      }
+    });
+  };
+
+  const onDragEnd = () => {
+    setDragged(null);
+  };
+
+  const toggleInLook = (item: WardrobeItem) => {
+    if (look.some((entry) => entry.id === item.id)) {
+      removeFromLook(item);
+    } else {
+      addToLook(item);
+    }
+  };
+
+  const suggest = async () => {
+    if (!target) return;
+
+    console.log('[OutfitBuilder] Requesting proposals for', target);
+    setSuggesting(true);
+    try {
+      setSuggestions(await proposeOutfits({ [target.kind]: target.id, count: 5, rerank: true }));
+    } catch (error) {
+      console.error('[OutfitBuilder] Error proposing outfits:', error);
+      Alert.alert('Error', 'Could not suggest outfits. Please try again.');
+    } finally {
+      setSuggesting(false);
+    }
+  };
+
+  const save = async () => {
+    if (look.length === 0) return;
+
+    const input = {
+      name: name.trim() || null,
+      category: target?.kind === 'category' ? target.id : null,
+      occasion: target?.kind === 'occasion' ? target.id : null,
+      itemIds: look.map((item) => item.id),
+    };
+    setSaving(true);
+    try {
+      if (outfitId) {
+        await updateOutfit(outfitId, input);
+      } else {
+        await createOutfit(input);
+      }
+      router.back();
+    } catch (error) {
+      console.error('[OutfitBuilder] Error saving outfit:', error);
+      Alert.alert('Error', 'Could not save this look. Please try again.');
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <ActivityIndicator size="large" color={colors.primary} />
+      </View>
+    );
+  }
+
+  const lookIds = new Set(look.map((item) => item.id));
+
+  return (
+    <View ref={rootRef} style={styles.container} onLayout={measureRoot}>
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+        scrollEnabled={!dragged}
+      >
+        <Text style={styles.sectionTitle}>Your Look</Text>
+        <View ref={lookRef} style={[styles.look, dragged && styles.lookDropTarget]}>
+          {look.length === 0 ? (
+            <Text style={styles.hint}>Hold an item below and drag it here, or tap it.</Text>
+          ) : (
+            look.map((item) => (
+              <TouchableOpacity
+                key={item.id}
+                style={styles.lookItem}
+                onPress={() => removeFromLook(item)}
+                accessibilityLabel={`Remove ${item.type}`}
+              >
+                <WardrobeThumbnail item={item} size={64} />
+                <View style={styles.removeBadge}>
+                  <IconSymbol
+                    ios_icon_name="xmark"
+                    android_material_icon_name="close"
+                    size={12}
+                    color="#fff"
+                  />
+                </View>
+              </TouchableOpacity>
+            ))
+          )}
+        </View>
+
+        <Text style={styles.sectionTitle}>Wardrobe</Text>
+        {wardrobe.length === 0 ? (
+          <Text style={styles.hint}>Add items to your wardrobe to build looks from them.</Text>
+        ) : (
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            contentContainerStyle={styles.strip}
+            scrollEnabled={!dragged}
+          >
+            {wardrobe.map((item) => (
+              <DraggableWardrobeItem
+                key={item.id}
+                item={item}
+                dragX={dragX}
+                dragY={dragY}
+                onDragStart={onDragStart}
+                onDrop={onDrop}
+                onDragEnd={onDragEnd}
+                onPress={toggleInLook}
+                selected={lookIds.has(item.id)}
+              />
+            ))}
+          </ScrollView>
+        )}
+
+        <Text style={styles.sectionTitle}>What is it for?</Text>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chips}>
+          {occasions.map((occasion) => (
+            <TouchableOpacity
+              key={occasion.id}
+              style={[styles.chip, target?.id === occasion.id && styles.chipSelected]}
+              onPress={() =>
+                setTarget(target?.id === occasion.id ? null : { kind: 'occasion', id: occasion.id })
+              }
+            >
+              <IconSymbol
+                ios_icon_name="calendar"
+                android_material_icon_name={occasion.icon}
+                size={14}
+                color="#fff"
+              />
+              <Text style={styles.chipText}>{occasion.label}</Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chips}>
+          {categories.map((category) => (
+            <TouchableOpacity
+              key={category.id}
+              style={[styles.chip, target?.id === category.id && styles.chipSelected]}
+              onPress={() =>
+                setTarget(target?.id === category.id ? null : { kind: 'category', id: category.id })
+              }
+            >
+              <IconSymbol
+                ios_icon_name="tag"
+                android_material_icon_name={category.icon}
+                size={14}
+                color="#fff"
+              />
+              <Text style={styles.chipText}>{category.label}</Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+
+        <TouchableOpacity
+          style={[styles.button, styles.suggestButton, (!target || suggesting) && styles.buttonDisabled]}
+          onPress={suggest}
+          disabled={!target || suggesting}
+        >
+          {suggesting ? (
+            <ActivityIndicator color="#fff" size="small" />
+          ) : (
+            <IconSymbol
+              ios_icon_name="sparkles"
+              android_material_icon_name="auto-awesome"
+              size={20}
+              color="#fff"
+            />
+          )}
+          <Text style={styles.buttonText}>Suggest Looks</Text>
+        </TouchableOpacity>
+
+        {suggestions ? (
+          <View style={styles.suggestions}>
+            {suggestions.missing.length > 0 ? (
+              <Text style={styles.hint}>
+                Add {suggestions.missing.map((slot) => slotLabels[slot]).join(' and ')} to your
+                wardrobe for complete looks.
+              </Text>
+            ) : null}
+            {suggestions.proposals.length === 0 ? (
+              <Text style={styles.hint}>No looks could be put together from your wardrobe.</Text>
+            ) : (
+              suggestions.proposals.map((proposal, index) => (
+                <TouchableOpacity
+                  key={index}
+                  style={styles.proposal}
+                  onPress={() => setLook(proposal.items)}
+                  activeOpacity={0.7}
+                >
+                  <View style={styles.proposalItems}>
+                    {proposal.items.map((item) => (
+                      <WardrobeThumbnail key={item.id} item={item} size={48} />
+                    ))}
+                  </View>
+                  <Text style={styles.proposalScore}>{Math.round(proposal.score * 100)}% match</Text>
+                  <Text style={styles.proposalReason}>
+                    {proposal.rankingReason ?? proposal.reasons.join(' · ')}
+                  </Text>
+                </TouchableOpacity>
+              ))
+            )}
+          </View>
+        ) : null}
+
+        <TextInput
+          style={styles.input}
+          value={name}
+          onChangeText={setName}
+          placeholder="Name this look (optional)"
+          placeholderTextColor={colors.grey}
+          maxLength={100}
+        />
+        <TouchableOpacity
+          style={[styles.button, styles.saveButton, (look.length === 0 || saving) && styles.buttonDisabled]}
+          onPress={save}
+          disabled={look.length === 0 || saving}
+        >
+          {saving ? (
+            <ActivityIndicator color="#fff" size="small" />
+          ) : (
+            <IconSymbol
+              ios_icon_name="checkmark"
+              android_material_icon_name="check"
+              size={20}
+              color="#fff"
+            />
+          )}
+          <Text style={styles.buttonText}>{outfitId ? 'Save Changes' : 'Save Look'}</Text>
+        </TouchableOpacity>
+      </ScrollView>
+
+      {dragged ? (
+        <Animated.View pointerEvents="none" style={[styles.preview, previewStyle]}>
+          <WardrobeThumbnail item={dragged} size={PREVIEW_SIZE} />
+        </Animated.View>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scrollContent: {
+    paddingHorizontal: 20,
+    paddingTop: Platform.OS === 'android' ? 20 : 10,
+    paddingBottom: 120, // Extra padding for floating tab bar
+    gap: 12,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  look: {
+    minHeight: 120,
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 10,
+    padding: 12,
+    borderRadius: 16,
+    borderWidth: 2,
+    borderStyle: 'dashed',
+    borderColor: colors.grey,
+    backgroundColor: colors.card,
+  },
+  lookDropTarget: {
+    borderColor: colors.accent,
+  },
+  lookItem: {
+    position: 'relative',
+  },
+  removeBadge: {
+    position: 'absolute',
+    top: -6,
+    right: -6,
+    width: 20,
+    height: 20,
+    borderRadius: 10,
+    backgroundColor: colors.highlight,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  hint: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    textAlign: 'center',
+  },
+  strip: {
+    gap: 8,
+  },
+  chips: {
+    gap: 8,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: colors.card,
+    borderWidth: 2,
+    borderColor: 'transparent',
+    gap: 6,
+  },
+  chipSelected: {
+    borderColor: colors.accent,
+  },
+  chipText: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  button: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 14,
+    borderRadius: 12,
+    gap: 8,
+  },
+  suggestButton: {
+    backgroundColor: colors.secondary,
+  },
+  saveButton: {
+    backgroundColor: colors.primary,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  suggestions: {
+    gap: 10,
+  },
+  proposal: {
+    backgroundColor: colors.card,
+    borderRadius: 12,
+    padding: 10,
+    gap: 6,
+  },
+  proposalItems: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  proposalScore: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.accent,
+  },
+  proposalReason: {
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+  input: {
+    backgroundColor: colors.card,
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: colors.text,
+  },
+  preview: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    opacity: 0.9,
+  },
+});
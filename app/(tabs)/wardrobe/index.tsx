@@ -0,0 +1,371 @@
+import React, { useCallback, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  Image,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  RefreshControl,
+  Platform,
+} from 'react-native';
+import { router, useFocusEffect } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { IconSymbol } from '@/components/IconSymbol';
+import { colors } from '@/styles/commonStyles';
+import {
+  WARDROBE_SEASONS,
+  WardrobeFacets,
+  WardrobeFilters,
+  WardrobeItem,
+  fetchWardrobe,
+  fetchWardrobeFacets,
+} from '@/utils/wardrobe';
+
+const PAGE_SIZE = 30;
+const COLUMNS = 3;
+
+interface FilterRowProps {
+  label: string;
+  options: string[];
+  selected: string | undefined;
+  onSelect: (value: string | undefined) => void;
+}
+
+// One horizontal row of chips; tapping the selected chip clears the filter
+function FilterRow({ label, options, selected, onSelect }: FilterRowProps) {
+  if (options.length === 0) return null;
+
+  return (
+    <View style={styles.filterRow}>
+      <Text style={styles.filterLabel}>{label}</Text>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chips}>
+        {options.map((option) => (
+          <TouchableOpacity
+            key={option}
+            style={[styles.chip, selected === option && styles.chipSelected]}
+            onPress={() => onSelect(selected === option ? undefined : option)}
+          >
+            <Text style={styles.chipText}>{option}</Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+    </View>
+  );
+}
+
+export default function WardrobeScreen() {
+  const [items, setItems] = useState<WardrobeItem[]>([]);
+  const [facets, setFacets] = useState<WardrobeFacets>({ types: [], colors: [], tags: [] });
+  const [filters, setFilters] = useState<WardrobeFilters>({});
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // onEndReached can fire several times in a row; only one page request at a time
+  const pageRequestInFlight = useRef(false);
+
+  const loadFirstPage = useCallback(async () => {
+    console.log('[Wardrobe] Loading first page...', filters);
+    try {
+      const [page, nextFacets] = await Promise.all([
+        fetchWardrobe(filters, null, PAGE_SIZE),
+        fetchWardrobeFacets(),
+      ]);
+      setItems(page.items);
+      setNextCursor(page.nextCursor);
+      setFacets(nextFacets);
+      setError(null);
+    } catch (err) {
+      console.error('[Wardrobe] Error loading items:', err);
+      setError('Could not load your wardrobe. Pull to retry.');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [filters]);
+
+  // Reload whenever the tab gains focus so added, edited and deleted items show up
+  useFocusEffect(
+    useCallback(() => {
+      loadFirstPage();
+    }, [loadFirstPage])
+  );
+
+  const setFilter = (key: keyof WardrobeFilters) => (value: string | undefined) =>
+    setFilters((current) => ({ ...current, [key]: value }));
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    loadFirstPage();
+  };
+
+  const loadMore = async () => {
+    if (!nextCursor || pageRequestInFlight.current) return;
+
+    console.log('[Wardrobe] Loading more, cursor:', nextCursor);
+    pageRequestInFlight.current = true;
+    setLoadingMore(true);
+    try {
+      const page = await fetchWardrobe(filters, nextCursor, PAGE_SIZE);
+      setItems((current) => [...current, ...page.items]);
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      console.error('[Wardrobe] Error loading more items:', err);
+    } finally {
+      pageRequestInFlight.current = false;
+      setLoadingMore(false);
+    }
+  };
+
+  const renderItem = ({ item }: { item: WardrobeItem }) => (
+    <TouchableOpacity
+      style={styles.cell}
+      onPress={() => router.push({ pathname: '/(tabs)/wardrobe/[id]', params: { id: item.id } })}
+      activeOpacity={0.7}
+    >
+      {item.imageUrl ? (
+        <Image source={{ uri: item.imageUrl }} style={styles.thumbnail} />
+      ) : (
+        <View style={[styles.thumbnail, styles.thumbnailPlaceholder]}>
+          <IconSymbol
+            ios_icon_name="tshirt"
+            android_material_icon_name="checkroom"
+            size={28}
+            color={colors.grey}
+          />
+        </View>
+      )}
+      <Text style={styles.cellTitle} numberOfLines={1}>
+        {item.type}
+      </Text>
+      {item.colors.length > 0 ? (
+        <Text style={styles.cellSubtitle} numberOfLines={1}>
+          {item.colors.join(', ')}
+        </Text>
+      ) : null}
+    </TouchableOpacity>
+  );
+
+  const filtered = Object.values(filters).some(Boolean);
+
+  return (
+    <SafeAreaView style={styles.container} edges={Platform.OS === 'ios' ? [] : ['top']}>
+      <FlatList
+        data={items}
+        renderItem={renderItem}
+        keyExtractor={(item) => item.id}
+        numColumns={COLUMNS}
+        columnWrapperStyle={styles.gridRow}
+        contentContainerStyle={[
+          styles.listContent,
+          Platform.OS !== 'ios' && styles.listContentWithTabBar,
+        ]}
+        contentInsetAdjustmentBehavior="automatic"
+        onEndReached={loadMore}
+        onEndReachedThreshold={0.5}
+        refreshControl={
+          <RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={colors.text} />
+        }
+        ListHeaderComponent={
+          <View style={styles.header}>
+            <View style={styles.titleRow}>
+              {Platform.OS !== 'ios' ? <Text style={styles.title}>Wardrobe</Text> : <View />}
+              <View style={styles.headerButtons}>
+                <TouchableOpacity
+                  style={[styles.addButton, styles.outfitsButton]}
+                  onPress={() => router.push('/(tabs)/wardrobe/outfits')}
+                >
+                  <IconSymbol
+                    ios_icon_name="rectangle.stack"
+                    android_material_icon_name="style"
+                    size={20}
+                    color="#fff"
+                  />
+                  <Text style={styles.addButtonText}>Outfits</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.addButton}
+                  onPress={() => router.push('/(tabs)/wardrobe/new')}
+                >
+                  <IconSymbol
+                    ios_icon_name="plus"
+                    android_material_icon_name="add"
+                    size={20}
+                    color="#fff"
+                  />
+                  <Text style={styles.addButtonText}>Add Item</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+            <FilterRow
+              label="Type"
+              options={facets.types}
+              selected={filters.type}
+              onSelect={setFilter('type')}
+            />
+            <FilterRow
+              label="Colour"
+              options={facets.colors}
+              selected={filters.color}
+              onSelect={setFilter('color')}
+            />
+            <FilterRow
+              label="Season"
+              options={WARDROBE_SEASONS}
+              selected={filters.season}
+              onSelect={setFilter('season')}
+            />
+          </View>
+        }
+        ListEmptyComponent={
+          loading ? (
+            <ActivityIndicator style={styles.footer} size="large" color={colors.primary} />
+          ) : (
+            <View style={styles.emptyContainer}>
+              <IconSymbol
+                ios_icon_name="tshirt"
+                android_material_icon_name="checkroom"
+                size={64}
+                color={colors.grey}
+              />
+              <Text style={styles.emptyText}>
+                {error ??
+                  (filtered
+                    ? 'Nothing matches these filters.'
+                    : 'Your wardrobe is empty. Add an item, or add the garments from an analysis.')}
+              </Text>
+            </View>
+          )
+        }
+        ListFooterComponent={
+          loadingMore ? <ActivityIndicator style={styles.footer} color={colors.primary} /> : null
+        }
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  listContent: {
+    padding: 16,
+    gap: 12,
+  },
+  listContentWithTabBar: {
+    paddingBottom: 100, // Extra padding for floating tab bar
+  },
+  header: {
+    gap: 10,
+    marginBottom: 4,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  title: {
+    fontSize: 32,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  headerButtons: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.primary,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    gap: 6,
+  },
+  outfitsButton: {
+    backgroundColor: colors.secondary,
+  },
+  addButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  filterRow: {
+    gap: 6,
+  },
+  filterLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.textSecondary,
+  },
+  chips: {
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: colors.card,
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  chipSelected: {
+    borderColor: colors.accent,
+  },
+  chipText: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: '600',
+    textTransform: 'capitalize',
+  },
+  gridRow: {
+    gap: 12,
+  },
+  cell: {
+    flex: 1 / COLUMNS,
+    backgroundColor: colors.card,
+    borderRadius: 12,
+    padding: 6,
+    gap: 2,
+  },
+  thumbnail: {
+    width: '100%',
+    aspectRatio: 3 / 4,
+    borderRadius: 8,
+  },
+  thumbnailPlaceholder: {
+    backgroundColor: colors.background,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  cellTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.text,
+    textTransform: 'capitalize',
+    marginTop: 4,
+  },
+  cellSubtitle: {
+    fontSize: 12,
+    color: colors.textSecondary,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingTop: 80,
+    gap: 16,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: colors.textSecondary,
+    textAlign: 'center',
+  },
+  footer: {
+    paddingVertical: 16,
+  },
+});
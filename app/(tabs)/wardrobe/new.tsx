@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  Image,
+  TouchableOpacity,
+  Alert,
+  Platform,
+} from 'react-native';
+import { router } from 'expo-router';
+import * as ImagePicker from 'expo-image-picker';
+import { IconSymbol } from '@/components/IconSymbol';
+import { WardrobeItemForm } from '@/components/WardrobeItemForm';
+import { colors } from '@/styles/commonStyles';
+import { WardrobeItemInput, addWardrobeItem } from '@/utils/wardrobe';
+
+const pickerOptions: ImagePicker.ImagePickerOptions = {
+  mediaTypes: ['images'],
+  allowsEditing: true,
+  aspect: [3, 4],
+  quality: 0.8,
+};
+
+export default function NewWardrobeItemScreen() {
+  const [imageUri, setImageUri] = useState<string | null>(null);
+
+  const takePhoto = async () => {
+    const { status } = await ImagePicker.requestCameraPermissionsAsync();
+    if (status !== 'granted') {
+      Alert.alert('Permission Required', 'Camera permission is needed to photograph your items.');
+      return;
+    }
+    try {
+      const result = await ImagePicker.launchCameraAsync(pickerOptions);
+      if (!result.canceled && result.assets[0]) {
+        setImageUri(result.assets[0].uri);
+      }
+    } catch (error) {
+      console.error('[Wardrobe] Error taking photo:', error);
+      Alert.alert('Error', 'Failed to take photo. Please try again.');
+    }
+  };
+
+  const pickImage = async () => {
+    try {
+      const result = await ImagePicker.launchImageLibraryAsync(pickerOptions);
+      if (!result.canceled && result.assets[0]) {
+        setImageUri(result.assets[0].uri);
+      }
+    } catch (error) {
+      console.error('[Wardrobe] Error picking image:', error);
+      Alert.alert('Error', 'Failed to pick image. Please try again.');
+    }
+  };
+
+  const save = async (input: WardrobeItemInput & { type: string }) => {
+    if (!imageUri) {
+      Alert.alert('No Photo', 'Please take or select a photo of the item first.');
+      return;
+    }
+    try {
+      const item = await addWardrobeItem(imageUri, input);
+      console.log('[Wardrobe] Added item:', item.id);
+      router.back();
+    } catch (error) {
+      console.error('[Wardrobe] Error adding item:', error);
+      Alert.alert('Error', 'Could not add this item. Please try again.');
+      throw error;
+    }
+  };
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.scrollContent}
+      keyboardShouldPersistTaps="handled"
+    >
+      {imageUri ? (
+        <Image source={{ uri: imageUri }} style={styles.photo} />
+      ) : (
+        <View style={[styles.photo, styles.photoPlaceholder]}>
+          <IconSymbol
+            ios_icon_name="tshirt"
+            android_material_icon_name="checkroom"
+            size={64}
+            color={colors.grey}
+          />
+          <Text style={styles.placeholderText}>Photograph the item on its own</Text>
+        </View>
+      )}
+
+      <View style={styles.buttonRow}>
+        <TouchableOpacity style={styles.photoButton} onPress={takePhoto}>
+          <IconSymbol
+            ios_icon_name="camera.fill"
+            android_material_icon_name="photo-camera"
+            size={20}
+            color="#fff"
+          />
+          <Text style={styles.photoButtonText}>Camera</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.photoButton} onPress={pickImage}>
+          <IconSymbol
+            ios_icon_name="photo.fill"
+            android_material_icon_name="photo-library"
+            size={20}
+            color="#fff"
+          />
+          <Text style={styles.photoButtonText}>Library</Text>
+        </TouchableOpacity>
+      </View>
+
+      <WardrobeItemForm submitLabel="Add to Wardrobe" onSubmit={save} />
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  scrollContent: {
+    paddingHorizontal: 20,
+    paddingTop: Platform.OS === 'android' ? 20 : 10,
+    paddingBottom: 120, // Extra padding for floating tab bar
+    gap: 16,
+  },
+  photo: {
+    width: '60%',
+    aspectRatio: 3 / 4,
+    alignSelf: 'center',
+    borderRadius: 16,
+  },
+  photoPlaceholder: {
+    backgroundColor: colors.backgroundAlt,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 16,
+    gap: 12,
+  },
+  placeholderText: {
+    color: colors.textSecondary,
+    fontSize: 14,
+    textAlign: 'center',
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  photoButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    borderRadius: 12,
+    backgroundColor: colors.primary,
+    gap: 8,
+  },
+  photoButtonText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
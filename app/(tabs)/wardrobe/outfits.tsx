@@ -0,0 +1,250 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator,
+  RefreshControl,
+  Alert,
+} from 'react-native';
+import { router, useFocusEffect } from 'expo-router';
+import { IconSymbol } from '@/components/IconSymbol';
+import { WardrobeThumbnail } from '@/components/DraggableWardrobeItem';
+import { useCategories } from '@/contexts/CategoriesContext';
+import { colors } from '@/styles/commonStyles';
+import { fetchOccasions } from '@/utils/occasions';
+import { Outfit, deleteOutfit, fetchOutfits } from '@/utils/outfits';
+
+const PAGE_SIZE = 20;
+
+export default function OutfitsScreen() {
+  const { getCategory } = useCategories();
+  const [outfits, setOutfits] = useState<Outfit[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Occasion labels by id; ids show until they load
+  const [occasionLabels, setOccasionLabels] = useState<Record<string, string>>({});
+  // onEndReached can fire several times in a row; only one page request at a time
+  const pageRequestInFlight = useRef(false);
+
+  const loadFirstPage = useCallback(async () => {
+    console.log('[Outfits] Loading first page...');
+    try {
+      const page = await fetchOutfits(null, PAGE_SIZE);
+      setOutfits(page.items);
+      setNextCursor(page.nextCursor);
+      setError(null);
+    } catch (err) {
+      console.error('[Outfits] Error loading outfits:', err);
+      setError('Could not load your looks. Pull to retry.');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchOccasions()
+      .then((items) => setOccasionLabels(Object.fromEntries(items.map((item) => [item.id, item.label]))))
+      .catch((err) => {
+        console.error('[Outfits] Error loading occasions:', err);
+      });
+  }, []);
+
+  // Reload on focus so looks saved in the builder show up
+  useFocusEffect(
+    useCallback(() => {
+      loadFirstPage();
+    }, [loadFirstPage])
+  );
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    loadFirstPage();
+  };
+
+  const loadMore = async () => {
+    if (!nextCursor || pageRequestInFlight.current) return;
+
+    console.log('[Outfits] Loading more, cursor:', nextCursor);
+    pageRequestInFlight.current = true;
+    setLoadingMore(true);
+    try {
+      const page = await fetchOutfits(nextCursor, PAGE_SIZE);
+      setOutfits((current) => [...current, ...page.items]);
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      console.error('[Outfits] Error loading more outfits:', err);
+    } finally {
+      pageRequestInFlight.current = false;
+      setLoadingMore(false);
+    }
+  };
+
+  const confirmDelete = (outfit: Outfit) => {
+    Alert.alert('Delete Look', 'The items stay in your wardrobe. Continue?', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await deleteOutfit(outfit.id);
+            setOutfits((current) => current.filter((entry) => entry.id !== outfit.id));
+          } catch (err) {
+            console.error('[Outfits] Error deleting outfit:', err);
+            Alert.alert('Error', 'Could not delete this look. Please try again.');
+          }
+        },
+      },
+    ]);
+  };
+
+  const renderOutfit = ({ item: outfit }: { item: Outfit }) => (
+    <TouchableOpacity
+      style={styles.card}
+      onPress={() =>
+        router.push({ pathname: '/(tabs)/wardrobe/builder', params: { outfitId: outfit.id } })
+      }
+      onLongPress={() => confirmDelete(outfit)}
+      activeOpacity={0.7}
+    >
+      <View style={styles.cardHeader}>
+        <Text style={styles.cardTitle} numberOfLines={1}>
+          {outfit.name ?? 'Untitled look'}
+        </Text>
+        {outfit.category ? (
+          <Text style={styles.cardSubtitle}>{getCategory(outfit.category).label}</Text>
+        ) : outfit.occasion ? (
+          <Text style={styles.cardSubtitle}>
+            {occasionLabels[outfit.occasion] ?? outfit.occasion}
+          </Text>
+        ) : null}
+      </View>
+      <View style={styles.items}>
+        {outfit.items.length === 0 ? (
+          <Text style={styles.cardSubtitle}>Its items were removed from your wardrobe.</Text>
+        ) : (
+          outfit.items.map((item) => <WardrobeThumbnail key={item.id} item={item} size={56} />)
+        )}
+      </View>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={styles.container}>
+      <FlatList
+        data={outfits}
+        renderItem={renderOutfit}
+        keyExtractor={(outfit) => outfit.id}
+        contentContainerStyle={styles.listContent}
+        contentInsetAdjustmentBehavior="automatic"
+        onEndReached={loadMore}
+        onEndReachedThreshold={0.5}
+        refreshControl={
+          <RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={colors.text} />
+        }
+        ListHeaderComponent={
+          <TouchableOpacity
+            style={styles.newButton}
+            onPress={() => router.push('/(tabs)/wardrobe/builder')}
+          >
+            <IconSymbol ios_icon_name="plus" android_material_icon_name="add" size={20} color="#fff" />
+            <Text style={styles.newButtonText}>New Look</Text>
+          </TouchableOpacity>
+        }
+        ListEmptyComponent={
+          loading ? (
+            <ActivityIndicator style={styles.footer} size="large" color={colors.primary} />
+          ) : (
+            <View style={styles.emptyContainer}>
+              <IconSymbol
+                ios_icon_name="rectangle.stack"
+                android_material_icon_name="style"
+                size={64}
+                color={colors.grey}
+              />
+              <Text style={styles.emptyText}>
+                {error ?? 'No saved looks yet. Put one together from your wardrobe.'}
+              </Text>
+            </View>
+          )
+        }
+        ListFooterComponent={
+          loadingMore ? <ActivityIndicator style={styles.footer} color={colors.primary} /> : null
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  listContent: {
+    padding: 16,
+    paddingBottom: 100, // Extra padding for floating tab bar
+    gap: 12,
+  },
+  newButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: colors.primary,
+    borderRadius: 12,
+    paddingVertical: 12,
+    gap: 6,
+  },
+  newButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  card: {
+    backgroundColor: colors.card,
+    borderRadius: 12,
+    padding: 12,
+    gap: 10,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 8,
+  },
+  cardTitle: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  cardSubtitle: {
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+  items: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingTop: 80,
+    gap: 16,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: colors.textSecondary,
+    textAlign: 'center',
+  },
+  footer: {
+    paddingVertical: 16,
+  },
+});
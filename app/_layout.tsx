@@ -15,6 +15,7 @@ import {
 } from "@react-navigation/native";
 import { StatusBar } from "expo-status-bar";
 import { WidgetProvider } from "@/contexts/WidgetContext";
+import { CategoriesProvider } from "@/contexts/CategoriesContext";
 import { BACKEND_URL } from "@/utils/api";
 
 // Prevent the splash screen from auto-hiding before asset loading is complete.
@@ -87,6 +88,7 @@ export default function RootLayout() {
           value={colorScheme === "dark" ? CustomDarkTheme : CustomDefaultTheme}
         >
           <WidgetProvider>
+            <CategoriesProvider>
             <GestureHandlerRootView>
             <Stack>
               {/* Main app with tabs */}
@@ -120,6 +122,7 @@ export default function RootLayout() {
             </Stack>
             <SystemBars style={"auto"} />
             </GestureHandlerRootView>
+            </CategoriesProvider>
           </WidgetProvider>
         </ThemeProvider>
     </>
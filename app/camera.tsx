@@ -1,5 +1,5 @@
 
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import {
   View,
   Text,
@@ -11,39 +11,87 @@ import {
   Alert,
   Platform,
 } from 'react-native';
-import { Stack } from 'expo-router';
+import { Stack, router, useLocalSearchParams } from 'expo-router';
 import * as ImagePicker from 'expo-image-picker';
 import { IconSymbol } from '@/components/IconSymbol';
 import { LinearGradient } from 'expo-linear-gradient';
+import { AnalysisResultCard, AnalysisCardResult } from '@/components/AnalysisResultCard';
+import { LowConfidencePrompt } from '@/components/LowConfidencePrompt';
+import { GarmentOverlay } from '@/components/GarmentOverlay';
+import { StylingTipsChecklist } from '@/components/StylingTipsChecklist';
+import { OccasionPicker } from '@/components/OccasionPicker';
+import { WeatherPicker } from '@/components/WeatherPicker';
+import { RegenerateSuggestion } from '@/components/RegenerateSuggestion';
+import { FeedbackControl } from '@/components/FeedbackControl';
+import { useCategories } from '@/contexts/CategoriesContext';
 import { BACKEND_URL } from '@/utils/api';
-
-type OutfitCategory = 'Sport' | 'Casual' | 'Professional' | 'Chill';
-
-interface AnalysisResult {
-  category: OutfitCategory;
-  explanation: string;
-  confidence: string;
-  suggestionImageUrl: string;
-}
-
-const categoryColors: Record<OutfitCategory, string[]> = {
-  Sport: ['#FF6B6B', '#FF8E53'],
-  Casual: ['#4ECDC4', '#44A08D'],
-  Professional: ['#667EEA', '#764BA2'],
-  Chill: ['#F093FB', '#F5576C'],
-};
-
-const categoryIcons: Record<OutfitCategory, string> = {
-  Sport: 'fitness-center',
-  Casual: 'weekend',
-  Professional: 'work',
-  Chill: 'self-improvement',
+import { appendWeatherFields, emptyWeatherInput, WeatherInput } from '@/utils/weather';
+import {
+  AnalysisJobStatus,
+  AnalysisResult,
+  analyzeOutfitPhoto,
+  confirmAnalysisCategory,
+  favoriteSuggestionImage,
+  fetchAnalysis,
+  FeedbackRating,
+  regenerateSuggestion,
+  submitAnalysisFeedback,
+} from '@/utils/analyses';
+import { OutfitCategory } from '@/constants/OutfitCategories';
+
+type AnalysisStage = 'classifying' | 'generating';
+
+type CameraResult = AnalysisCardResult & Pick<
+  AnalysisResult,
+  'id' | 'lowConfidence' | 'garments' | 'tips'
+>;
+
+// How many suggestion images the user can ask for, one per styling direction
+const variantOptions = [1, 2, 3, 4];
+
+// Steps shown while the analysis streams in, in pipeline order
+const analysisSteps: { stage: AnalysisStage; label: string }[] = [
+  { stage: 'classifying', label: 'Detecting outfit style' },
+  { stage: 'generating', label: 'Generating suggestion image' },
+];
+
+// Step a fallback analysis job is on; done and failed end the wait instead
+const jobStages: Partial<Record<AnalysisJobStatus, AnalysisStage>> = {
+  queued: 'classifying',
+  classifying: 'classifying',
+  generating: 'generating',
 };
 
 export default function CameraScreen() {
+  // Set when re-analyzing a photo from the history screen
+  const { imageUri } = useLocalSearchParams<{ imageUri?: string }>();
+  const { categories } = useCategories();
   const [selectedImage, setSelectedImage] = useState<string | null>(null);
   const [analyzing, setAnalyzing] = useState(false);
-  const [result, setResult] = useState<AnalysisResult | null>(null);
+  // Occasion id to rate the outfit against, null for a plain analysis
+  const [targetOccasion, setTargetOccasion] = useState<string | null>(null);
+  const [weather, setWeather] = useState<WeatherInput>(emptyWeatherInput);
+  // Number of suggestion images, one per styling direction
+  const [variants, setVariants] = useState(1);
+  // Filled in progressively: the category first, the suggestion image later
+  const [result, setResult] = useState<CameraResult | null>(null);
+  const [stage, setStage] = useState<AnalysisStage>('classifying');
+  // Aborted on reset/unmount to stop listening to an in-flight stream
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    return () => {
+      abortRef.current?.abort();
+    };
+  }, []);
+
+  useEffect(() => {
+    if (imageUri) {
+      console.log('[Camera] Re-analyzing image from history:', imageUri);
+      setSelectedImage(imageUri);
+      setResult(null);
+    }
+  }, [imageUri]);
 
   const requestPermissions = async () => {
     const { status } = await ImagePicker.requestCameraPermissionsAsync();
@@ -118,9 +166,16 @@ export default function CameraScreen() {
     setResult(null);
 
     try {
-      // Backend Integration: POST /api/analyze-outfit
-      // Accepts multipart form data with 'image' field
-      // Returns: { category: string, explanation: string, confidence: string }
+      // Backend Integration: POST /api/analyze-outfit/stream
+      // Accepts multipart form data with 'image' field, optionally preceded by
+      // 'targetOccasion' and the weather fields (location, temperature, wind, precipitation)
+      // Streams Server-Sent Events:
+      //   accepted         { analysisId } once the photo is stored
+      //   classification   { id, category, scores, explanation, confidence, lowConfidence, ... }
+      //   suggestion_image { suggestionImageUrl, direction } once per variant
+      //   done             full stored analysis (also listed under GET /api/analyses)
+      // If the connection drops, falls back to polling: GET /api/analyses/:id once
+      // accepted, otherwise POST /api/analysis-jobs and GET /api/analysis-jobs/:id
       
       const formData = new FormData();
       
@@ -130,58 +185,143 @@ export default function CameraScreen() {
       const type = match ? `image/${match[1]}` : 'image/jpeg';
       
       console.log('[Camera] Image details:', { filename, type, uri: selectedImage });
-      
+
+      // The backend only reads fields sent before the file
+      if (targetOccasion) {
+        formData.append('targetOccasion', targetOccasion);
+      }
+      appendWeatherFields(formData, weather);
+      if (variants > 1) {
+        formData.append('variants', String(variants));
+      }
       formData.append('image', {
         uri: selectedImage,
         name: filename,
         type: type,
       } as any);
 
-      console.log('[Camera] Sending request to:', `${BACKEND_URL}/api/analyze-outfit`);
-      const response = await fetch(`${BACKEND_URL}/api/analyze-outfit`, {
-        method: 'POST',
-        body: formData,
-        headers: {
-          'Accept': 'application/json',
+      const controller = new AbortController();
+      abortRef.current = controller;
+      setStage('classifying');
+
+      console.log('[Camera] Streaming analysis from:', `${BACKEND_URL}/api/analyze-outfit/stream`);
+      const analysis = await analyzeOutfitPhoto(
+        formData,
+        {
+          onClassification: (classification) => {
+            console.log('[Camera] Classification:', classification.category);
+            setResult({ ...classification, suggestionImages: [] });
+            setStage('generating');
+          },
+          onSuggestionImage: (image) => {
+            console.log('[Camera] Suggestion image URL:', image.url);
+            setResult((current) =>
+              current
+                ? {
+                    ...current,
+                    suggestionImages: [
+                      ...current.suggestionImages,
+                      { ...image, instruction: null, favorite: false },
+                    ],
+                  }
+                : current
+            );
+          },
+          onJobProgress: (job) => {
+            console.log('[Camera] Analysis job status:', job.status);
+            const jobStage = jobStages[job.status];
+            if (jobStage) setStage(jobStage);
+          },
         },
-      });
+        controller.signal
+      );
 
-      console.log('[Camera] Response status:', response.status);
-      
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('[Camera] Backend error:', errorText);
-        throw new Error(`Analysis failed: ${response.status}`);
-      }
+      // Cancelled by a reset
+      if (controller.signal.aborted) return;
 
-      const data = await response.json();
-      console.log('[Camera] Analysis result:', data);
-      
-      // Validate response structure according to API spec
-      if (!data.category || !data.explanation || !data.confidence || !data.suggestionImageUrl) {
-        console.error('[Camera] Invalid response structure:', data);
-        throw new Error('Invalid response from server');
-      }
-      
-      console.log('[Camera] Suggestion image URL:', data.suggestionImageUrl);
-      setResult(data);
+      console.log('[Camera] Analysis result:', analysis);
+      setResult(analysis);
     } catch (error) {
+      if (abortRef.current?.signal.aborted) return;
       console.error('[Camera] Error analyzing outfit:', error);
       Alert.alert(
         'Analysis Failed',
         error instanceof Error ? error.message : 'Could not analyze the outfit. Please try again.'
       );
+      setResult(null);
     } finally {
+      abortRef.current = null;
       setAnalyzing(false);
     }
   };
 
   const reset = () => {
     console.log('Resetting...');
+    abortRef.current?.abort();
     setSelectedImage(null);
     setResult(null);
   };
 
+  const retakePhoto = () => {
+    reset();
+    takePhoto();
+  };
+
+  const confirmCategory = async (category: OutfitCategory) => {
+    if (!result) return;
+    try {
+      const updated = await confirmAnalysisCategory(result.id, category);
+      console.log('[Camera] Category confirmed:', updated.category);
+      setResult(updated);
+    } catch (error) {
+      console.error('[Camera] Error confirming category:', error);
+      Alert.alert('Error', 'Could not save the category. Please try again.');
+    }
+  };
+
+  const favoriteSuggestion = async (index: number | null) => {
+    if (!result) return;
+    try {
+      const updated = await favoriteSuggestionImage(result.id, index);
+      setResult(updated);
+    } catch (error) {
+      console.error('[Camera] Error saving favourite suggestion:', error);
+      Alert.alert('Error', 'Could not save your favourite. Please try again.');
+    }
+  };
+
+  const regenerate = async (instruction: string) => {
+    if (!result) return;
+    try {
+      const updated = await regenerateSuggestion(result.id, instruction || undefined);
+      setResult(updated);
+    } catch (error) {
+      console.error('[Camera] Error regenerating suggestion:', error);
+      Alert.alert('Error', 'Could not generate another suggestion. Please try again.');
+    }
+  };
+
+  const sendFeedback = async (feedback: {
+    rating: FeedbackRating;
+    correctedCategory?: OutfitCategory;
+    comment?: string;
+  }) => {
+    if (!result) return;
+    try {
+      await submitAnalysisFeedback(result.id, feedback);
+      // A correction also changes the stored category, so show the updated analysis
+      if (feedback.correctedCategory) {
+        setResult(await fetchAnalysis(result.id));
+      }
+    } catch (error) {
+      console.error('[Camera] Error sending feedback:', error);
+      Alert.alert('Error', 'Could not send your feedback. Please try again.');
+      throw error;
+    }
+  };
+
+  const currentStepIndex = analysisSteps.findIndex((step) => step.stage === stage);
+
   return (
     <View style={styles.container}>
       <Stack.Screen
@@ -195,6 +335,19 @@ export default function CameraScreen() {
           headerTitleStyle: {
             fontWeight: 'bold',
           },
+          headerRight: () => (
+            <TouchableOpacity
+              onPress={() => router.push('/(tabs)/history')}
+              style={styles.headerButton}
+            >
+              <IconSymbol
+                ios_icon_name="clock.fill"
+                android_material_icon_name="history"
+                size={24}
+                color="#fff"
+              />
+            </TouchableOpacity>
+          ),
         }}
       />
 
@@ -215,6 +368,7 @@ export default function CameraScreen() {
         {selectedImage ? (
           <View style={styles.imageContainer}>
             <Image source={{ uri: selectedImage }} style={styles.image} />
+            {result && result.garments.length > 0 && <GarmentOverlay garments={result.garments} />}
             <TouchableOpacity style={styles.resetButton} onPress={reset}>
               <IconSymbol
                 ios_icon_name="xmark.circle.fill"
@@ -265,6 +419,27 @@ export default function CameraScreen() {
           </TouchableOpacity>
         </View>
 
+        {/* Occasion and Weather Pickers */}
+        {selectedImage && !result && (
+          <>
+            <OccasionPicker value={targetOccasion} onChange={setTargetOccasion} disabled={analyzing} />
+            <WeatherPicker value={weather} onChange={setWeather} disabled={analyzing} />
+            <View style={styles.variantsContainer}>
+              <Text style={styles.variantsLabel}>Suggestions</Text>
+              {variantOptions.map((count) => (
+                <TouchableOpacity
+                  key={count}
+                  style={[styles.variantChip, variants === count && styles.variantChipSelected]}
+                  onPress={() => setVariants(count)}
+                  disabled={analyzing}
+                >
+                  <Text style={styles.variantChipText}>{count}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </>
+        )}
+
         {/* Analyze Button */}
         {selectedImage && !result && (
           <TouchableOpacity
@@ -291,84 +466,85 @@ export default function CameraScreen() {
           </TouchableOpacity>
         )}
 
-        {/* Result Display */}
-        {result && (
-          <View style={styles.resultContainer}>
-            {/* Generated Outfit Image */}
-            {result.suggestionImageUrl && (
-              <View style={styles.generatedImageContainer}>
-                <Text style={styles.generatedImageTitle}>✨ Suggested Outfit</Text>
-                <Image 
-                  source={{ uri: result.suggestionImageUrl }} 
-                  style={styles.generatedImage}
-                  resizeMode="cover"
-                />
-                <View style={styles.generatedImageBadge}>
-                  <LinearGradient
-                    colors={categoryColors[result.category]}
-                    style={styles.badgeGradient}
-                    start={{ x: 0, y: 0 }}
-                    end={{ x: 1, y: 1 }}
-                  >
+        {/* Analysis Progress */}
+        {analyzing && (
+          <View style={styles.progressContainer}>
+            {analysisSteps.map((step, index) => {
+              const isDone = index < currentStepIndex;
+              const isActive = index === currentStepIndex;
+
+              return (
+                <View key={step.stage} style={styles.progressStep}>
+                  {isActive ? (
+                    <ActivityIndicator color="#fff" size="small" />
+                  ) : (
                     <IconSymbol
-                      ios_icon_name="sparkles"
-                      android_material_icon_name={categoryIcons[result.category]}
+                      ios_icon_name={isDone ? 'checkmark.circle.fill' : 'circle'}
+                      android_material_icon_name={isDone ? 'check-circle' : 'radio-button-unchecked'}
                       size={20}
-                      color="#fff"
+                      color={isDone ? '#4ECDC4' : '#666'}
                     />
-                    <Text style={styles.badgeText}>{result.category}</Text>
-                  </LinearGradient>
+                  )}
+                  <Text style={[styles.progressText, (isDone || isActive) && styles.progressTextActive]}>
+                    {step.label}
+                  </Text>
                 </View>
-              </View>
+              );
+            })}
+          </View>
+        )}
+
+        {/* Result Display */}
+        {result && (
+          <View style={styles.resultContainer}>
+            <AnalysisResultCard
+              result={result}
+              generatingImage={analyzing && stage === 'generating'}
+              // Favourites are saved on the stored analysis, which exists once streaming is done
+              onFavoriteSuggestion={analyzing ? undefined : favoriteSuggestion}
+            />
+
+            {!analyzing && (
+              <FeedbackControl
+                key={result.id}
+                category={result.category}
+                onSubmit={sendFeedback}
+              />
             )}
 
-            <LinearGradient
-              colors={categoryColors[result.category]}
-              style={styles.resultGradient}
-              start={{ x: 0, y: 0 }}
-              end={{ x: 1, y: 1 }}
-            >
-              <View style={styles.resultHeader}>
-                <IconSymbol
-                  ios_icon_name="checkmark.circle.fill"
-                  android_material_icon_name={categoryIcons[result.category]}
-                  size={48}
-                  color="#fff"
-                />
-                <Text style={styles.resultCategory}>{result.category}</Text>
-              </View>
+            {!analyzing && <RegenerateSuggestion onRegenerate={regenerate} />}
 
-              <View style={styles.resultBody}>
-                <Text style={styles.resultLabel}>Analysis:</Text>
-                <Text style={styles.resultExplanation}>{result.explanation}</Text>
-                
-                <View style={styles.confidenceContainer}>
-                  <Text style={styles.confidenceLabel}>Confidence:</Text>
-                  <Text style={styles.confidenceValue}>{result.confidence}</Text>
-                </View>
-              </View>
-            </LinearGradient>
+            {/* The analysis is only stored once streaming finishes, so confirm after that */}
+            {result.lowConfidence && !analyzing && (
+              <LowConfidencePrompt
+                category={result.category}
+                onRetake={retakePhoto}
+                onConfirm={confirmCategory}
+              />
+            )}
+
+            {result.tips.length > 0 && <StylingTipsChecklist tips={result.tips} />}
 
             {/* Category Legend */}
             <View style={styles.legendContainer}>
               <Text style={styles.legendTitle}>Style Categories:</Text>
               <View style={styles.legendGrid}>
-                {(['Sport', 'Casual', 'Professional', 'Chill'] as OutfitCategory[]).map((cat) => (
-                  <View key={cat} style={styles.legendItem}>
+                {categories.map((cat) => (
+                  <View key={cat.id} style={styles.legendItem}>
                     <LinearGradient
-                      colors={categoryColors[cat]}
+                      colors={cat.colors}
                       style={styles.legendBadge}
                       start={{ x: 0, y: 0 }}
                       end={{ x: 1, y: 1 }}
                     >
                       <IconSymbol
                         ios_icon_name="checkmark"
-                        android_material_icon_name={categoryIcons[cat]}
+                        android_material_icon_name={cat.icon}
                         size={16}
                         color="#fff"
                       />
                     </LinearGradient>
-                    <Text style={styles.legendText}>{cat}</Text>
+                    <Text style={styles.legendText}>{cat.label}</Text>
                   </View>
                 ))}
               </View>
@@ -402,6 +578,9 @@ const styles = StyleSheet.create({
     flex: 1,
     backgroundColor: '#0f0f1e',
   },
+  headerButton: {
+    padding: 6,
+  },
   scrollView: {
     flex: 1,
   },
@@ -488,6 +667,36 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  variantsContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 16,
+  },
+  variantsLabel: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  variantChip: {
+    width: 40,
+    height: 36,
+    borderRadius: 12,
+    backgroundColor: '#2a2438',
+    borderWidth: 2,
+    borderColor: 'transparent',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  variantChipSelected: {
+    borderColor: '#4ECDC4',
+  },
+  variantChipText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
   analyzeButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -506,60 +715,27 @@ const styles = StyleSheet.create({
     fontSize: 18,
     fontWeight: 'bold',
   },
-  resultContainer: {
-    marginBottom: 24,
-  },
-  resultGradient: {
-    borderRadius: 20,
-    padding: 24,
-    marginBottom: 16,
-  },
-  resultHeader: {
-    alignItems: 'center',
-    marginBottom: 20,
-  },
-  resultCategory: {
-    fontSize: 32,
-    fontWeight: 'bold',
-    color: '#fff',
-    marginTop: 12,
-  },
-  resultBody: {
-    backgroundColor: 'rgba(255, 255, 255, 0.15)',
-    borderRadius: 12,
+  progressContainer: {
+    backgroundColor: '#1a1a2e',
+    borderRadius: 16,
     padding: 16,
+    marginBottom: 24,
+    gap: 12,
   },
-  resultLabel: {
-    fontSize: 14,
-    fontWeight: '600',
-    color: '#fff',
-    opacity: 0.8,
-    marginBottom: 8,
-  },
-  resultExplanation: {
-    fontSize: 16,
-    color: '#fff',
-    lineHeight: 24,
-  },
-  confidenceContainer: {
+  progressStep: {
     flexDirection: 'row',
     alignItems: 'center',
-    marginTop: 12,
-    paddingTop: 12,
-    borderTopWidth: 1,
-    borderTopColor: 'rgba(255, 255, 255, 0.2)',
+    gap: 12,
   },
-  confidenceLabel: {
-    fontSize: 14,
-    fontWeight: '600',
-    color: '#fff',
-    opacity: 0.8,
-    marginRight: 8,
+  progressText: {
+    fontSize: 15,
+    color: '#666',
   },
-  confidenceValue: {
-    fontSize: 14,
+  progressTextActive: {
     color: '#fff',
-    fontWeight: 'bold',
+  },
+  resultContainer: {
+    marginBottom: 24,
   },
   legendContainer: {
     backgroundColor: '#1a1a2e',
@@ -627,48 +803,4 @@ const styles = StyleSheet.create({
     color: '#999',
     lineHeight: 20,
   },
-  generatedImageContainer: {
-    width: '100%',
-    marginBottom: 20,
-    borderRadius: 20,
-    overflow: 'hidden',
-    backgroundColor: '#1a1a2e',
-    position: 'relative',
-  },
-  generatedImageTitle: {
-    fontSize: 20,
-    fontWeight: 'bold',
-    color: '#fff',
-    textAlign: 'center',
-    paddingVertical: 16,
-    backgroundColor: '#1a1a2e',
-  },
-  generatedImage: {
-    width: '100%',
-    aspectRatio: 3 / 4,
-  },
-  generatedImageBadge: {
-    position: 'absolute',
-    top: 60,
-    right: 16,
-    borderRadius: 20,
-    overflow: 'hidden',
-    shadowColor: '#000',
-    shadowOffset: { width: 0, height: 4 },
-    shadowOpacity: 0.3,
-    shadowRadius: 8,
-    elevation: 8,
-  },
-  badgeGradient: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    paddingHorizontal: 16,
-    paddingVertical: 10,
-    gap: 8,
-  },
-  badgeText: {
-    color: '#fff',
-    fontSize: 16,
-    fontWeight: 'bold',
-  },
 });
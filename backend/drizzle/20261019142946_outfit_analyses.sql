@@ -0,0 +1,15 @@
+CREATE TABLE "outfit_analyses" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"owner_id" text NOT NULL,
+	"image_key" text,
+	"category" text NOT NULL,
+	"explanation" text NOT NULL,
+	"confidence" text NOT NULL,
+	"suggestion_image_key" text,
+	"classification_model" text NOT NULL,
+	"generation_model" text NOT NULL,
+	"created_at" timestamp (3) DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "outfit_analyses_owner_created_idx" ON "outfit_analyses" USING btree ("owner_id","created_at","id");
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE "analysis_jobs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"owner_id" text NOT NULL,
+	"status" text DEFAULT 'queued' NOT NULL,
+	"image_key" text NOT NULL,
+	"analysis_id" uuid NOT NULL,
+	"category" text,
+	"explanation" text,
+	"confidence" text,
+	"error" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
@@ -0,0 +1 @@
+ALTER TABLE "outfit_analyses" ADD COLUMN "scores" jsonb;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "outfit_analyses" ADD COLUMN "confidence_score" real;--> statement-breakpoint
+ALTER TABLE "outfit_analyses" ADD COLUMN "category_confirmed_at" timestamp;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "outfit_analyses" ADD COLUMN "garments" jsonb;
\ No newline at end of file
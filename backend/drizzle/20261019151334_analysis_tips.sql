@@ -0,0 +1 @@
+ALTER TABLE "outfit_analyses" ADD COLUMN "tips" jsonb;
\ No newline at end of file
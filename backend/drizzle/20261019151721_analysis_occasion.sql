@@ -0,0 +1,2 @@
+ALTER TABLE "outfit_analyses" ADD COLUMN "target_occasion" text;--> statement-breakpoint
+ALTER TABLE "outfit_analyses" ADD COLUMN "occasion_match" jsonb;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "outfit_analyses" ADD COLUMN "suggestion_images" jsonb;--> statement-breakpoint
+ALTER TABLE "outfit_analyses" ADD COLUMN "favorite_suggestion" integer;
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TABLE "analysis_feedback" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"analysis_id" uuid NOT NULL,
+	"owner_id" text NOT NULL,
+	"rating" text NOT NULL,
+	"predicted_category" text NOT NULL,
+	"corrected_category" text,
+	"comment" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "analysis_feedback" ADD CONSTRAINT "analysis_feedback_analysis_id_outfit_analyses_id_fk" FOREIGN KEY ("analysis_id") REFERENCES "public"."outfit_analyses"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "analysis_feedback_analysis_idx" ON "analysis_feedback" USING btree ("analysis_id");--> statement-breakpoint
+CREATE INDEX "analysis_feedback_created_idx" ON "analysis_feedback" USING btree ("created_at");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "outfit_analyses" ADD COLUMN "prompt_version" text;
\ No newline at end of file
@@ -0,0 +1,20 @@
+CREATE TABLE "wardrobe_items" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"owner_id" text NOT NULL,
+	"image_key" text,
+	"type" text NOT NULL,
+	"colors" text[] DEFAULT '{}' NOT NULL,
+	"pattern" text,
+	"material" text,
+	"seasons" text[] DEFAULT '{}' NOT NULL,
+	"brand" text,
+	"tags" text[] DEFAULT '{}' NOT NULL,
+	"purchase_date" date,
+	"purchase_price" numeric(10, 2),
+	"source_analysis_id" uuid,
+	"created_at" timestamp (3) DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "wardrobe_items" ADD CONSTRAINT "wardrobe_items_source_analysis_id_outfit_analyses_id_fk" FOREIGN KEY ("source_analysis_id") REFERENCES "public"."outfit_analyses"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "wardrobe_items_owner_created_idx" ON "wardrobe_items" USING btree ("owner_id","created_at","id");
\ No newline at end of file
@@ -0,0 +1,21 @@
+CREATE TABLE "outfit_items" (
+	"outfit_id" uuid NOT NULL,
+	"item_id" uuid NOT NULL,
+	"position" integer NOT NULL,
+	CONSTRAINT "outfit_items_outfit_id_item_id_pk" PRIMARY KEY("outfit_id","item_id")
+);
+--> statement-breakpoint
+CREATE TABLE "outfits" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"owner_id" text NOT NULL,
+	"name" text,
+	"category" text,
+	"occasion" text,
+	"created_at" timestamp (3) DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "outfit_items" ADD CONSTRAINT "outfit_items_outfit_id_outfits_id_fk" FOREIGN KEY ("outfit_id") REFERENCES "public"."outfits"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "outfit_items" ADD CONSTRAINT "outfit_items_item_id_wardrobe_items_id_fk" FOREIGN KEY ("item_id") REFERENCES "public"."wardrobe_items"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "outfit_items_item_idx" ON "outfit_items" USING btree ("item_id");--> statement-breakpoint
+CREATE INDEX "outfits_owner_created_idx" ON "outfits" USING btree ("owner_id","created_at","id");
\ No newline at end of file
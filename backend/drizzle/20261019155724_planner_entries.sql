@@ -0,0 +1,14 @@
+CREATE TABLE "planner_entries" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"owner_id" text NOT NULL,
+	"date" date NOT NULL,
+	"outfit_id" uuid,
+	"analysis_id" uuid,
+	"worn_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "planner_entries" ADD CONSTRAINT "planner_entries_outfit_id_outfits_id_fk" FOREIGN KEY ("outfit_id") REFERENCES "public"."outfits"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "planner_entries" ADD CONSTRAINT "planner_entries_analysis_id_outfit_analyses_id_fk" FOREIGN KEY ("analysis_id") REFERENCES "public"."outfit_analyses"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "planner_entries_owner_date_idx" ON "planner_entries" USING btree ("owner_id","date");
\ No newline at end of file
@@ -0,0 +1,7 @@
+ALTER TABLE "outfit_analyses" ADD COLUMN "predicted_category" text;--> statement-breakpoint
+-- Feedback captured the prediction for rated analyses; the rest have only their current category
+UPDATE "outfit_analyses" SET "predicted_category" = coalesce(
+	(SELECT "predicted_category" FROM "analysis_feedback" WHERE "analysis_feedback"."analysis_id" = "outfit_analyses"."id"),
+	"category"
+);--> statement-breakpoint
+ALTER TABLE "outfit_analyses" ALTER COLUMN "predicted_category" SET NOT NULL;
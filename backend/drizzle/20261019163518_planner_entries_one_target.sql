@@ -0,0 +1 @@
+ALTER TABLE "planner_entries" ADD CONSTRAINT "planner_entries_one_target_check" CHECK (("planner_entries"."outfit_id" is null) <> ("planner_entries"."analysis_id" is null));
\ No newline at end of file
@@ -0,0 +1,216 @@
+import { mkdir, readdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { Command } from 'commander';
+import { outfitCategoryIds } from '../services/categories.js';
+import { classifyOutfit, type OutfitAnalysis } from '../services/outfit-analysis.js';
+import {
+  evaluatePredictions,
+  renderMarkdownReport,
+  type EvaluationSample,
+} from '../services/evaluation.js';
+import { registerProvider, type ModelProvider } from '../providers/registry.js';
+import { DEFAULT_PROMPT_VERSION, getPromptTemplate, listPromptTemplates } from '../prompts/registry.js';
+import type { App } from '../index.js';
+
+const imageExtensions = new Set(['.jpg', '.jpeg', '.png', '.webp']);
+
+// Recorded model responses, so a run can be scored again without calling the models
+interface ResponseFixture {
+  recordedAt: string;
+  promptVersion: string;
+  samples: {
+    file: string;
+    label: string;
+    model: string | null;
+    response: OutfitAnalysis | null;
+    error?: string;
+  }[];
+}
+
+interface EvaluateOptions {
+  prompt: string;
+  model?: string;
+  record?: string;
+  replay?: string;
+  out?: string;
+  json?: boolean;
+}
+
+// classifyOutfit only needs a logger; keep model fallbacks visible on stderr
+const cliApp = {
+  logger: {
+    info: () => {},
+    warn: (details: { err?: unknown; model?: string }, message: string) =>
+      console.error(`${message} (${details.model ?? 'unknown model'}): ${String(details.err)}`),
+    error: (error: unknown, message: string) => console.error(message, error),
+  },
+} as unknown as App;
+
+/**
+ * List the photos of a dataset laid out as `<dataset>/<category id>/<photo>`
+ */
+async function loadDataset(dataset: string): Promise<{ file: string; label: string }[]> {
+  const entries = await readdir(dataset, { withFileTypes: true });
+  const samples: { file: string; label: string }[] = [];
+
+  for (const entry of entries.filter((item) => item.isDirectory())) {
+    if (!outfitCategoryIds.includes(entry.name)) {
+      throw new Error(
+        `Folder "${entry.name}" is not a category id (expected one of ${outfitCategoryIds.join(', ')})`
+      );
+    }
+    const files = await readdir(path.join(dataset, entry.name));
+    for (const file of files.sort()) {
+      if (imageExtensions.has(path.extname(file).toLowerCase())) {
+        samples.push({ file: path.join(entry.name, file), label: entry.name });
+      }
+    }
+  }
+
+  if (samples.length === 0) {
+    throw new Error(`No labeled photos found in ${dataset}`);
+  }
+  return samples;
+}
+
+/**
+ * Provider answering from a fixture. Replays never read the photos: the
+ * sample's path stands in for the image bytes so the response can be
+ * found, and the answer still goes through classifyOutfit's normalisation.
+ */
+function replayProvider(fixture: ResponseFixture): ModelProvider {
+  const responses = new Map(fixture.samples.map((sample) => [sample.file, sample.response]));
+  return {
+    async classifyImage({ image, schema }) {
+      const response = responses.get(image.toString('utf8'));
+      if (!response) {
+        throw new Error('No recorded response');
+      }
+      return schema.parse(response);
+    },
+    async completeText() {
+      throw new Error('Replays only cover classification');
+    },
+    async generateImage() {
+      return null;
+    },
+  };
+}
+
+async function classifySamples(
+  samples: { file: string; label: string }[],
+  readImage: (file: string) => Promise<Buffer>,
+  promptVersion: string
+): Promise<{ results: EvaluationSample[]; fixture: ResponseFixture }> {
+  const results: EvaluationSample[] = [];
+  const fixture: ResponseFixture = { recordedAt: new Date().toISOString(), promptVersion, samples: [] };
+
+  for (const [i, sample] of samples.entries()) {
+    console.error(`[${i + 1}/${samples.length}] ${sample.file}`);
+    try {
+      const { analysis, model } = await classifyOutfit(
+        cliApp,
+        await readImage(sample.file),
+        { targetOccasion: null, weather: null, variants: 1 },
+        promptVersion
+      );
+      results.push({
+        ...sample,
+        predicted: analysis.category,
+        confidence: analysis.confidence,
+        model,
+      });
+      fixture.samples.push({ ...sample, model, response: analysis });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      results.push({ ...sample, predicted: null, confidence: null, model: null, error: message });
+      fixture.samples.push({ ...sample, model: null, response: null, error: message });
+    }
+  }
+
+  return { results, fixture };
+}
+
+async function evaluate(dataset: string | undefined, options: EvaluateOptions) {
+  if (!dataset && !options.replay) {
+    throw new Error('Pass a dataset folder or --replay <fixture>');
+  }
+
+  let samples: { file: string; label: string }[];
+  let readImage: (file: string) => Promise<Buffer>;
+  let source: string;
+  let promptVersion = options.prompt;
+  // Replays report the models that answered when the fixture was recorded
+  let recordedModels = new Map<string, string | null>();
+
+  if (options.replay) {
+    const fixture = JSON.parse(await readFile(options.replay, 'utf8')) as ResponseFixture;
+    registerProvider('replay', replayProvider(fixture));
+    process.env.CLASSIFICATION_MODELS = 'replay:fixture';
+    samples = fixture.samples.map(({ file, label }) => ({ file, label }));
+    recordedModels = new Map(fixture.samples.map((sample) => [sample.file, sample.model]));
+    promptVersion = fixture.promptVersion ?? DEFAULT_PROMPT_VERSION;
+    readImage = async (file) => Buffer.from(file, 'utf8');
+    source = options.replay;
+  } else {
+    if (!getPromptTemplate(promptVersion)) {
+      throw new Error(
+        `Unknown prompt version "${promptVersion}" (expected one of ${listPromptTemplates()
+          .map((template) => template.version)
+          .join(', ')})`
+      );
+    }
+    if (options.model) {
+      process.env.CLASSIFICATION_MODELS = options.model;
+    }
+    samples = await loadDataset(dataset!);
+    readImage = (file) => readFile(path.join(dataset!, file));
+    source = dataset!;
+  }
+
+  const { results, fixture } = await classifySamples(samples, readImage, promptVersion);
+
+  if (options.record && !options.replay) {
+    await writeFile(options.record, `${JSON.stringify(fixture, null, 2)}\n`);
+    console.error(`Recorded responses to ${options.record}`);
+  }
+
+  const report = evaluatePredictions(
+    results.map((result) =>
+      recordedModels.has(result.file) && result.model
+        ? { ...result, model: recordedModels.get(result.file) ?? null }
+        : result
+    ),
+    { dataset: source, promptVersion }
+  );
+  const markdown = renderMarkdownReport(report);
+
+  if (options.out) {
+    await mkdir(options.out, { recursive: true });
+    await writeFile(path.join(options.out, 'report.json'), `${JSON.stringify(report, null, 2)}\n`);
+    await writeFile(path.join(options.out, 'report.md'), markdown);
+    console.error(`Wrote report.json and report.md to ${options.out}`);
+  }
+
+  process.stdout.write(options.json ? `${JSON.stringify(report, null, 2)}\n` : markdown);
+}
+
+const program = new Command()
+  .name('evaluate-classifier')
+  .description(
+    'Run the outfit classification prompt over labeled photos and report accuracy, ' +
+      'per-category precision/recall and a confusion matrix'
+  )
+  .argument('[dataset]', 'folder of photos in <category id>/ subfolders')
+  .option('--prompt <version>', 'classification prompt version from src/prompts/', DEFAULT_PROMPT_VERSION)
+  .option('--model <spec>', 'classification model(s), comma separated provider:modelId specs')
+  .option('--record <file>', 'save the model responses to a fixture for offline replays')
+  .option('--replay <file>', 'score a recorded fixture instead of calling the models')
+  .option('--out <dir>', 'also write report.json and report.md to this folder')
+  .option('--json', 'print the JSON report instead of Markdown')
+  .action(evaluate);
+
+program.parseAsync().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
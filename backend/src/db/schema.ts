@@ -1,12 +1,228 @@
-/**
- * Define your database schema here using Drizzle ORM
- *
- * Example:
- * import { pgTable, text, timestamp, uuid } from 'drizzle-orm/pg-core';
- *
- * export const users = pgTable('users', {
- *   id: uuid('id').primaryKey().defaultRandom(),
- *   name: text('name').notNull(),
- *   createdAt: timestamp('created_at').notNull().defaultNow(),
- * });
- */
+import {
+  pgTable,
+  text,
+  timestamp,
+  uuid,
+  index,
+  uniqueIndex,
+  integer,
+  jsonb,
+  real,
+  date,
+  numeric,
+  primaryKey,
+  check,
+} from 'drizzle-orm/pg-core';
+import { sql } from 'drizzle-orm';
+import type { DetectedGarment, GarmentPattern } from '../services/garments.js';
+import type { ColorPalette } from '../services/palette.js';
+import type { StylingTip } from '../services/tips.js';
+import type { OccasionMatch } from '../services/occasions.js';
+import type { WeatherAssessment } from '../services/weather.js';
+import type { SuggestionImage } from '../services/style-directions.js';
+
+// One row per completed outfit analysis, scoped to the device that requested it
+export const outfitAnalyses = pgTable(
+  'outfit_analyses',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    ownerId: text('owner_id').notNull(),
+    imageKey: text('image_key'),
+    category: text('category').notNull(),
+    // The category the model returned; unlike category, never changed by user confirmation
+    predictedCategory: text('predicted_category').notNull(),
+    // Category id -> 0..1 fit score; null for analyses stored before scoring existed
+    scores: jsonb('scores').$type<Record<string, number>>(),
+    // Clothing items found in the photo; null for analyses stored before detection existed
+    garments: jsonb('garments').$type<DetectedGarment[]>(),
+    // Dominant colours and their harmony; null for older analyses or undecodable photos
+    palette: jsonb('palette').$type<ColorPalette>(),
+    // What to change to better fit the category; null for analyses stored before tips existed
+    tips: jsonb('tips').$type<StylingTip[]>(),
+    // Occasion id the user dressed for, and how well the outfit fits it
+    targetOccasion: text('target_occasion'),
+    occasionMatch: jsonb('occasion_match').$type<OccasionMatch>(),
+    // Conditions the outfit was checked against, with any warnings
+    weather: jsonb('weather').$type<WeatherAssessment>(),
+    explanation: text('explanation').notNull(),
+    // Label derived from confidence_score; free text for analyses stored before scores existed
+    confidence: text('confidence').notNull(),
+    confidenceScore: real('confidence_score'),
+    // Set when the user confirmed or corrected the category by hand
+    categoryConfirmedAt: timestamp('category_confirmed_at'),
+    suggestionImageKey: text('suggestion_image_key'),
+    // Every generated variant, in styling-direction order; null for older analyses
+    suggestionImages: jsonb('suggestion_images').$type<SuggestionImage[]>(),
+    // Index into suggestionImages the user marked as their favourite
+    favoriteSuggestion: integer('favorite_suggestion'),
+    // Base classification prompt version (src/prompts/), null for analyses before versioning
+    promptVersion: text('prompt_version'),
+    classificationModel: text('classification_model').notNull(),
+    generationModel: text('generation_model').notNull(),
+    // Millisecond precision keeps (created_at, id) cursors round-trippable through JS Dates
+    createdAt: timestamp('created_at', { precision: 3 }).notNull().defaultNow(),
+    updatedAt: timestamp('updated_at')
+      .notNull()
+      .defaultNow()
+      .$onUpdate(() => new Date()),
+  },
+  (table) => [
+    index('outfit_analyses_owner_created_idx').on(
+      table.ownerId,
+      table.createdAt,
+      table.id
+    ),
+  ]
+);
+
+export const analysisJobStatuses = ['queued', 'classifying', 'generating', 'done', 'failed'] as const;
+
+// Background analysis jobs; partial results are filled in as each step finishes
+export const analysisJobs = pgTable('analysis_jobs', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  ownerId: text('owner_id').notNull(),
+  status: text('status', { enum: analysisJobStatuses }).notNull().default('queued'),
+  imageKey: text('image_key').notNull(),
+  // Id the finished analysis is stored under in outfit_analyses
+  analysisId: uuid('analysis_id').notNull(),
+  category: text('category'),
+  explanation: text('explanation'),
+  confidence: text('confidence'),
+  error: text('error'),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at')
+    .notNull()
+    .defaultNow()
+    .$onUpdate(() => new Date()),
+});
+
+export const feedbackRatings = ['up', 'down'] as const;
+
+// What the user thought of an analysis; one row per analysis, replaced on resubmit
+export const analysisFeedback = pgTable(
+  'analysis_feedback',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    analysisId: uuid('analysis_id')
+      .notNull()
+      .references(() => outfitAnalyses.id, { onDelete: 'cascade' }),
+    ownerId: text('owner_id').notNull(),
+    rating: text('rating', { enum: feedbackRatings }).notNull(),
+    // Category the analysis had when the feedback was given, before any correction
+    predictedCategory: text('predicted_category').notNull(),
+    correctedCategory: text('corrected_category'),
+    comment: text('comment'),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+    updatedAt: timestamp('updated_at')
+      .notNull()
+      .defaultNow()
+      .$onUpdate(() => new Date()),
+  },
+  (table) => [
+    uniqueIndex('analysis_feedback_analysis_idx').on(table.analysisId),
+    index('analysis_feedback_created_idx').on(table.createdAt),
+  ]
+);
+
+export const wardrobeSeasons = ['spring', 'summer', 'autumn', 'winter'] as const;
+
+// Garments in a device's digital closet, added from a photo of the item or from an analysis
+export const wardrobeItems = pgTable(
+  'wardrobe_items',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    ownerId: text('owner_id').notNull(),
+    // The item's own photo, or a crop of the analysis photo it was detected in
+    imageKey: text('image_key'),
+    // Lowercase garment type, e.g. "blazer", as detected garments use
+    type: text('type').notNull(),
+    colors: text('colors').array().notNull().default([]),
+    pattern: text('pattern').$type<GarmentPattern>(),
+    material: text('material'),
+    // Empty means all year round
+    seasons: text('seasons', { enum: wardrobeSeasons }).array().notNull().default([]),
+    brand: text('brand'),
+    tags: text('tags').array().notNull().default([]),
+    purchaseDate: date('purchase_date'),
+    purchasePrice: numeric('purchase_price', { precision: 10, scale: 2, mode: 'number' }),
+    // Analysis the item was detected in, when it was added from one
+    sourceAnalysisId: uuid('source_analysis_id').references(() => outfitAnalyses.id, {
+      onDelete: 'set null',
+    }),
+    // Millisecond precision keeps (created_at, id) cursors round-trippable through JS Dates
+    createdAt: timestamp('created_at', { precision: 3 }).notNull().defaultNow(),
+    updatedAt: timestamp('updated_at')
+      .notNull()
+      .defaultNow()
+      .$onUpdate(() => new Date()),
+  },
+  (table) => [index('wardrobe_items_owner_created_idx').on(table.ownerId, table.createdAt, table.id)]
+);
+
+// Looks a device saved from its wardrobe, hand-picked or from a proposal
+export const outfits = pgTable(
+  'outfits',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    ownerId: text('owner_id').notNull(),
+    name: text('name'),
+    // Category or occasion id the look was put together for, if any
+    category: text('category'),
+    occasion: text('occasion'),
+    // Millisecond precision keeps (created_at, id) cursors round-trippable through JS Dates
+    createdAt: timestamp('created_at', { precision: 3 }).notNull().defaultNow(),
+    updatedAt: timestamp('updated_at')
+      .notNull()
+      .defaultNow()
+      .$onUpdate(() => new Date()),
+  },
+  (table) => [index('outfits_owner_created_idx').on(table.ownerId, table.createdAt, table.id)]
+);
+
+// Wardrobe items in an outfit; deleting an item takes it out of every outfit
+export const outfitItems = pgTable(
+  'outfit_items',
+  {
+    outfitId: uuid('outfit_id')
+      .notNull()
+      .references(() => outfits.id, { onDelete: 'cascade' }),
+    itemId: uuid('item_id')
+      .notNull()
+      .references(() => wardrobeItems.id, { onDelete: 'cascade' }),
+    // Order the items were arranged in, from 0
+    position: integer('position').notNull(),
+  },
+  (table) => [
+    primaryKey({ columns: [table.outfitId, table.itemId] }),
+    index('outfit_items_item_idx').on(table.itemId),
+  ]
+);
+
+// What a device plans to wear on a date: a saved outfit or a past analysis, one per day
+export const plannerEntries = pgTable(
+  'planner_entries',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    ownerId: text('owner_id').notNull(),
+    // YYYY-MM-DD in the user's own calendar
+    date: date('date').notNull(),
+    // Exactly one of outfitId and analysisId is set (see the check below);
+    // the entry goes when its target is deleted
+    outfitId: uuid('outfit_id').references(() => outfits.id, { onDelete: 'cascade' }),
+    analysisId: uuid('analysis_id').references(() => outfitAnalyses.id, { onDelete: 'cascade' }),
+    // Set when the user marked the planned outfit as actually worn
+    wornAt: timestamp('worn_at'),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+    updatedAt: timestamp('updated_at')
+      .notNull()
+      .defaultNow()
+      .$onUpdate(() => new Date()),
+  },
+  (table) => [
+    uniqueIndex('planner_entries_owner_date_idx').on(table.ownerId, table.date),
+    check(
+      'planner_entries_one_target_check',
+      sql`(${table.outfitId} is null) <> (${table.analysisId} is null)`
+    ),
+  ]
+);
@@ -1,18 +1,31 @@
+import { pathToFileURL } from 'node:url';
 import { createApplication } from "@specific-dev/framework";
 import * as schema from './db/schema.js';
-import * as outfitAnalysisRoutes from './routes/outfit-analysis.js';
+import { registerRoutes } from './routes/index.js';
 
 // Create application with schema for full database type support
-export const app = await createApplication(schema);
-
-// Enable storage for file uploads
-app.withStorage();
+const createApp = () => createApplication(schema);
 
 // Export App type for use in route files
-export type App = typeof app;
+export type App = Awaited<ReturnType<typeof createApp>>;
+
+/**
+ * Wire storage and routes into an application. The test harness builds
+ * its PGlite-backed app through this too.
+ */
+export function buildApp(app: App): App {
+  // Enable storage for file uploads
+  app.withStorage();
+
+  // Register routes
+  registerRoutes(app);
 
-// Register routes
-outfitAnalysisRoutes.register(app, app.fastify);
+  return app;
+}
 
-await app.run();
-app.logger.info('Application running');
+// Only serve when run as the entry point, not when imported by tests
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const app = buildApp(await createApp());
+  await app.run();
+  app.logger.info('Application running');
+}
@@ -0,0 +1,31 @@
+import type { ClassificationPromptTemplate } from './registry.js';
+
+/**
+ * The original prompt: field list first, category descriptions last
+ */
+export const classificationPromptV1: ClassificationPromptTemplate = {
+  version: 'v1',
+  description: 'Field list first, category descriptions at the end',
+  render: ({ categoryList, categoryDescriptions, garmentPatterns, tipActions }) =>
+    `Analyze this outfit photo and categorize it into one of these categories: ${categoryList}.
+
+Provide:
+1. category: One of ${categoryList}
+2. explanation: A 2-3 sentence explanation focusing on style, formality, and use case
+3. confidence: A number from 0 to 1 for how likely the chosen category is correct. Use values below 0.5 when the photo is blurry or dark, the outfit is only partly visible, or it fits several categories equally well
+4. scores: For every category, how strongly the outfit fits it from 0 (not at all) to 1 (perfectly). Mixed looks such as athleisure should score high in several categories; the chosen category must have the highest score
+5. garments: Every clearly visible clothing item, shoe and accessory, each with:
+   - type: lowercase garment name (e.g. "blazer", "jeans", "sneakers", "watch")
+   - color: dominant colour name
+   - pattern: one of ${garmentPatterns}
+   - material: best guess (e.g. "denim", "wool", "leather")
+   - boundingBox: rough box around the item as fractions of the photo size (x, y of the top-left corner, width, height, all 0 to 1)
+6. tips: 2-4 concrete changes that would make the outfit a better example of the chosen category, each with:
+   - action: one of ${tipActions}
+   - garment: the garment it applies to (for "add", the item to add)
+   - suggestion: one short imperative sentence, e.g. "Swap the sneakers for brown leather loafers"
+   - priority: "high", "medium" or "low" by how much it would improve the look
+
+Consider the following:
+${categoryDescriptions}`,
+};
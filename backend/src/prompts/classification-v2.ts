@@ -0,0 +1,32 @@
+import type { ClassificationPromptTemplate } from './registry.js';
+
+/**
+ * Categories up front, and the model is walked through the garments
+ * before it picks one, with a stricter confidence scale
+ */
+export const classificationPromptV2: ClassificationPromptTemplate = {
+  version: 'v2',
+  description: 'Category definitions first, garments before the verdict, stricter confidence',
+  render: ({ categoryList, categoryDescriptions, garmentPatterns, tipActions }) =>
+    `You are a fashion stylist classifying the outfit in this photo. The categories are:
+${categoryDescriptions}
+
+Look at every garment before deciding. Formality shows most in the footwear, whether the top is tailored and the fabrics; judge by those rather than by the setting or the person's pose.
+
+Provide:
+1. category: One of ${categoryList}
+2. explanation: A 2-3 sentence explanation naming the garments that decided the category
+3. confidence: A number from 0 to 1 for how likely the chosen category is correct. Above 0.75 only when the whole outfit is clearly visible and matches one description well; below 0.5 when the photo is blurry or dark, the outfit is cut off, or a second category fits almost as well
+4. scores: For every category, how strongly the outfit fits it from 0 (not at all) to 1 (perfectly). The chosen category must have the highest score; give mixed looks high scores in each category they borrow from
+5. garments: Every clearly visible clothing item, shoe and accessory, each with:
+   - type: lowercase garment name (e.g. "blazer", "jeans", "sneakers", "watch")
+   - color: dominant colour name
+   - pattern: one of ${garmentPatterns}
+   - material: best guess (e.g. "denim", "wool", "leather")
+   - boundingBox: rough box around the item as fractions of the photo size (x, y of the top-left corner, width, height, all 0 to 1)
+6. tips: 2-4 concrete changes that would make the outfit a better example of the chosen category, each with:
+   - action: one of ${tipActions}
+   - garment: the garment it applies to (for "add", the item to add)
+   - suggestion: one short imperative sentence, e.g. "Swap the sneakers for brown leather loafers"
+   - priority: "high", "medium" or "low" by how much it would improve the look`,
+};
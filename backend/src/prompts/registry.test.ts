@@ -0,0 +1,43 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, it } from 'node:test';
+import { outfitCategoryCatalog } from '../services/categories.js';
+import {
+  assignPromptVersion,
+  getPromptSplit,
+  listPromptTemplates,
+  renderClassificationPrompt,
+} from './registry.js';
+
+describe('prompt templates', () => {
+  afterEach(() => {
+    delete process.env.CLASSIFICATION_PROMPT_SPLIT;
+  });
+
+  it('renders every version with the whole category catalogue', () => {
+    for (const { version } of listPromptTemplates()) {
+      const prompt = renderClassificationPrompt(version);
+      for (const category of outfitCategoryCatalog) {
+        assert.ok(prompt.includes(category.description), `${version} misses ${category.id}`);
+      }
+      assert.match(prompt, /6\. tips:/);
+    }
+  });
+
+  it('ignores unknown versions and bad weights in the split', () => {
+    process.env.CLASSIFICATION_PROMPT_SPLIT = 'v1:3, v9:5, v2:-1';
+    assert.deepEqual(getPromptSplit(), [{ version: 'v1', weight: 3 }]);
+
+    process.env.CLASSIFICATION_PROMPT_SPLIT = 'nope';
+    assert.deepEqual(getPromptSplit(), [{ version: 'v1', weight: 1 }]);
+  });
+
+  it('assigns each device a stable version in proportion to the split', () => {
+    process.env.CLASSIFICATION_PROMPT_SPLIT = 'v1:50,v2:50';
+    const owners = Array.from({ length: 400 }, (_, i) => `device-${i}`);
+    const versions = owners.map(assignPromptVersion);
+
+    assert.deepEqual(owners.map(assignPromptVersion), versions);
+    const v2 = versions.filter((version) => version === 'v2').length;
+    assert.ok(v2 > 150 && v2 < 250, `${v2} of 400 devices got v2`);
+  });
+});
@@ -0,0 +1,109 @@
+import { createHash } from 'node:crypto';
+import { outfitCategoryCatalog, outfitCategoryIds } from '../services/categories.js';
+import { garmentPatterns } from '../services/garments.js';
+import { tipActions } from '../services/tips.js';
+import { classificationPromptV1 } from './classification-v1.js';
+import { classificationPromptV2 } from './classification-v2.js';
+
+// Catalogue-derived pieces every template can use, so new categories reach each version
+export interface ClassificationPromptContext {
+  // `"Sport", "Casual", ...`
+  categoryList: string;
+  // One `- id (label): description` line per category
+  categoryDescriptions: string;
+  garmentPatterns: string;
+  tipActions: string;
+}
+
+/**
+ * One version of the base classification prompt. The occasion and weather
+ * sections are appended to every version, so a template must keep fields
+ * 1-6 of the response numbered as they are.
+ */
+export interface ClassificationPromptTemplate {
+  version: string;
+  // What changed, shown when comparing versions
+  description: string;
+  render(context: ClassificationPromptContext): string;
+}
+
+export const DEFAULT_PROMPT_VERSION = 'v1';
+
+const templates = new Map<string, ClassificationPromptTemplate>([
+  ['v1', classificationPromptV1],
+  ['v2', classificationPromptV2],
+]);
+
+const quoted = (values: readonly string[]) => values.map((value) => `"${value}"`).join(', ');
+
+/**
+ * Make a template selectable through CLASSIFICATION_PROMPT_SPLIT
+ */
+export function registerPromptTemplate(template: ClassificationPromptTemplate) {
+  templates.set(template.version, template);
+}
+
+export function getPromptTemplate(version: string): ClassificationPromptTemplate | undefined {
+  return templates.get(version);
+}
+
+export function listPromptTemplates(): ClassificationPromptTemplate[] {
+  return [...templates.values()];
+}
+
+/**
+ * Render the base classification prompt of a version
+ */
+export function renderClassificationPrompt(version: string): string {
+  const template = templates.get(version);
+  if (!template) {
+    throw new Error(`Unknown prompt version "${version}"`);
+  }
+
+  return template.render({
+    categoryList: quoted(outfitCategoryIds),
+    categoryDescriptions: outfitCategoryCatalog
+      .map((category) => `- ${category.id} (${category.label}): ${category.description}`)
+      .join('\n'),
+    garmentPatterns: quoted(garmentPatterns),
+    tipActions: quoted(tipActions),
+  });
+}
+
+/**
+ * The A/B split from CLASSIFICATION_PROMPT_SPLIT (`v1:90,v2:10`). Unknown
+ * versions and non-positive weights are dropped; without a usable split
+ * everyone gets the default version.
+ */
+export function getPromptSplit(): { version: string; weight: number }[] {
+  const split = (process.env.CLASSIFICATION_PROMPT_SPLIT ?? '')
+    .split(',')
+    .map((entry) => {
+      const [version, weight] = entry.split(':').map((part) => part.trim());
+      return { version, weight: weight === undefined ? 1 : Number(weight) };
+    })
+    .filter(({ version, weight }) => templates.has(version) && Number.isFinite(weight) && weight > 0);
+
+  return split.length > 0 ? split : [{ version: DEFAULT_PROMPT_VERSION, weight: 1 }];
+}
+
+/**
+ * Pick the prompt version for a device. The choice is a hash of the
+ * owner id, so the same user keeps getting the same version for as long
+ * as the split is unchanged.
+ */
+export function assignPromptVersion(ownerId: string): string {
+  const split = getPromptSplit();
+  const total = split.reduce((sum, { weight }) => sum + weight, 0);
+  const bucket =
+    (createHash('sha256').update(`classification-prompt:${ownerId}`).digest().readUInt32BE(0) /
+      0x1_0000_0000) *
+    total;
+
+  let cumulative = 0;
+  for (const { version, weight } of split) {
+    cumulative += weight;
+    if (bucket < cumulative) return version;
+  }
+  return split[split.length - 1].version;
+}
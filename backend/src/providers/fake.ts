@@ -0,0 +1,108 @@
+import { createHash } from 'node:crypto';
+import { outfitCategoryCatalog } from '../services/categories.js';
+import { encodeGradientPng, type Rgb } from '../utils/png.js';
+import type { ModelProvider } from './registry.js';
+
+const colorNames = ['black', 'white', 'navy', 'grey', 'beige', 'olive', 'burgundy', 'denim blue'];
+
+// Top, bottom and shoes slots with a few options each, placed roughly where they sit on a person
+const garmentSlots = [
+  {
+    options: [['t-shirt', 'cotton'], ['blazer', 'wool'], ['hoodie', 'fleece'], ['shirt', 'linen']],
+    boundingBox: { x: 0.25, y: 0.15, width: 0.5, height: 0.35 },
+  },
+  {
+    options: [['jeans', 'denim'], ['chinos', 'cotton'], ['joggers', 'jersey'], ['skirt', 'polyester']],
+    boundingBox: { x: 0.28, y: 0.48, width: 0.44, height: 0.38 },
+  },
+  {
+    options: [['sneakers', 'canvas'], ['loafers', 'leather'], ['boots', 'suede'], ['sandals', 'leather']],
+    boundingBox: { x: 0.3, y: 0.86, width: 0.4, height: 0.12 },
+  },
+] as const;
+
+function digest(input: Buffer | string): Buffer {
+  return createHash('sha256').update(input).digest();
+}
+
+function toHex([r, g, b]: Rgb): string {
+  return `#${[r, g, b].map((channel) => channel.toString(16).padStart(2, '0')).join('')}`;
+}
+
+/**
+ * Offline stand-in for the gateway models. Everything is derived from a
+ * hash of the input, so the same photo always gets the same analysis and
+ * the pipeline can run without network access.
+ */
+export const fakeProvider: ModelProvider = {
+  async classifyImage({ image, schema }) {
+    const hash = digest(image);
+    const tone: Rgb = [hash[0], hash[1], hash[2]];
+    const category = outfitCategoryCatalog[hash[3] % outfitCategoryCatalog.length];
+
+    // Spread the remaining hash bytes over the other categories, kept below the primary one
+    const scores = Object.fromEntries(
+      outfitCategoryCatalog.map(({ id }, index) => [
+        id,
+        id === category.id ? 0.9 : Math.round((hash[(8 + index) % hash.length] / 255) * 70) / 100,
+      ])
+    );
+
+    const garments = garmentSlots.map((slot, index) => {
+      const [type, material] = slot.options[hash[12 + index] % slot.options.length];
+      return {
+        type,
+        color: colorNames[hash[16 + index] % colorNames.length],
+        pattern: hash[20 + index] % 3 === 0 ? 'striped' : 'solid',
+        material,
+        boundingBox: slot.boundingBox,
+      };
+    });
+
+    const tips = [
+      {
+        action: 'swap',
+        garment: garments[2].type,
+        suggestion: `Swap the ${garments[2].type} for a pair that suits a ${category.label.toLowerCase()} look`,
+        priority: 'high',
+      },
+      {
+        action: 'add',
+        garment: 'belt',
+        suggestion: 'Add a belt to define the waist',
+        priority: 'low',
+      },
+    ];
+
+    // Validate like a real model response would be
+    return schema.parse({
+      category: category.id,
+      scores,
+      garments,
+      tips,
+      explanation:
+        `Offline analysis of photo ${hash.toString('hex').slice(0, 8)}. ` +
+        `The dominant tone ${toHex(tone)} reads as a ${category.label.toLowerCase()} look.`,
+      // Roughly a quarter of fake results comes back low confidence
+      confidence: Math.round((0.3 + (hash[4] / 255) * 0.7) * 100) / 100,
+      // Dropped by the schema unless a target occasion was requested
+      occasionMatch: {
+        score: Math.round((hash[5] / 255) * 100),
+        gaps: hash[5] > 200 ? [] : [`The ${garments[2].type} are too casual for the occasion`],
+      },
+    });
+  },
+
+  async completeText({ schema }) {
+    // The only text step is outfit ranking; an empty ranking keeps the rule-based order
+    return schema.parse({ ranking: [] });
+  },
+
+  async generateImage({ prompt, referenceImage }) {
+    const hash = digest(referenceImage ? Buffer.concat([Buffer.from(prompt), referenceImage]) : prompt);
+    return {
+      data: encodeGradientPng(300, 400, [hash[0], hash[1], hash[2]], [hash[3], hash[4], hash[5]]),
+      mediaType: 'image/png',
+    };
+  },
+};
@@ -0,0 +1,80 @@
+import { gateway } from '@specific-dev/framework';
+import { generateObject, generateText } from 'ai';
+import type { ModelProvider } from './registry.js';
+
+/**
+ * Models served through the framework's AI gateway, e.g. `gateway:openai/gpt-5.2`
+ */
+export const gatewayProvider: ModelProvider = {
+  async classifyImage({ modelId, image, prompt, schema, schemaName, schemaDescription, abortSignal }) {
+    // Generic schemas defeat generateObject's output inference, so pin it to 'object'
+    const { object } = await generateObject<typeof schema, 'object', typeof schema['_output']>({
+      output: 'object',
+      model: gateway(modelId),
+      schema,
+      schemaName,
+      schemaDescription,
+      abortSignal,
+      messages: [
+        {
+          role: 'user',
+          content: [
+            {
+              type: 'image',
+              image: image.toString('base64'),
+            },
+            {
+              type: 'text',
+              text: prompt,
+            },
+          ],
+        },
+      ],
+    });
+
+    return object;
+  },
+
+  async completeText({ modelId, prompt, schema, schemaName, schemaDescription, abortSignal }) {
+    const { object } = await generateObject<typeof schema, 'object', typeof schema['_output']>({
+      output: 'object',
+      model: gateway(modelId),
+      schema,
+      schemaName,
+      schemaDescription,
+      abortSignal,
+      prompt,
+    });
+
+    return object;
+  },
+
+  async generateImage({ modelId, prompt, referenceImage, abortSignal }) {
+    const model = gateway(modelId);
+    const generationResult = referenceImage
+      ? await generateText({
+          model,
+          abortSignal,
+          messages: [
+            {
+              role: 'user',
+              content: [
+                { type: 'image', image: referenceImage.toString('base64') },
+                { type: 'text', text: prompt },
+              ],
+            },
+          ],
+        })
+      : await generateText({ model, prompt, abortSignal });
+
+    // Extract the first image from the generation result
+    const imageFile = generationResult.files?.find(f =>
+      f.mediaType?.startsWith('image/')
+    );
+    if (!imageFile || !imageFile.uint8Array) {
+      return null;
+    }
+
+    return { data: imageFile.uint8Array, mediaType: imageFile.mediaType };
+  },
+};
@@ -0,0 +1,163 @@
+import type { z } from 'zod';
+import type { App } from '../index.js';
+import { fakeProvider } from './fake.js';
+import { gatewayProvider } from './gateway.js';
+
+export interface ImageClassificationRequest<T> {
+  modelId: string;
+  image: Buffer;
+  prompt: string;
+  schema: z.ZodType<T>;
+  schemaName: string;
+  schemaDescription: string;
+  abortSignal: AbortSignal;
+}
+
+export interface TextCompletionRequest<T> {
+  modelId: string;
+  prompt: string;
+  schema: z.ZodType<T>;
+  schemaName: string;
+  schemaDescription: string;
+  abortSignal: AbortSignal;
+}
+
+export interface ImageGenerationRequest {
+  modelId: string;
+  prompt: string;
+  // Photo the generated image should be an edit of, when set
+  referenceImage?: Buffer;
+  abortSignal: AbortSignal;
+}
+
+export interface GeneratedImage {
+  data: Uint8Array;
+  mediaType: string;
+}
+
+/**
+ * A backend that can run the model steps of the pipeline.
+ * Prompts and schemas are owned by the services; providers only run them.
+ */
+export interface ModelProvider {
+  classifyImage<T>(request: ImageClassificationRequest<T>): Promise<T>;
+  // Structured answer to a text-only prompt, e.g. ranking outfit proposals
+  completeText<T>(request: TextCompletionRequest<T>): Promise<T>;
+  // Resolves to null when the model answered without an image
+  generateImage(request: ImageGenerationRequest): Promise<GeneratedImage | null>;
+}
+
+export type ModelStep = 'classification' | 'generation' | 'ranking';
+
+interface ModelStepConfig {
+  // Model specs in `provider:modelId` form, tried in order
+  models: string[];
+  timeoutMs: number;
+}
+
+// Defaults, overridden per environment with CLASSIFICATION_MODELS /
+// GENERATION_MODELS / RANKING_MODELS (comma separated) and
+// CLASSIFICATION_TIMEOUT_MS / GENERATION_TIMEOUT_MS / RANKING_TIMEOUT_MS
+const defaultModelConfig: Record<ModelStep, ModelStepConfig> = {
+  classification: {
+    models: ['gateway:openai/gpt-5.2', 'gateway:google/gemini-2.5-flash'],
+    timeoutMs: 60_000,
+  },
+  generation: {
+    models: ['gateway:google/gemini-2.5-flash-image'],
+    timeoutMs: 120_000,
+  },
+  ranking: {
+    models: ['gateway:openai/gpt-5.2'],
+    timeoutMs: 30_000,
+  },
+};
+
+// AI_PROVIDER=fake swaps the defaults for the offline provider
+const fakeModelConfig: Record<ModelStep, ModelStepConfig> = {
+  classification: { models: ['fake:classifier'], timeoutMs: 5_000 },
+  generation: { models: ['fake:image'], timeoutMs: 5_000 },
+  ranking: { models: ['fake:ranker'], timeoutMs: 5_000 },
+};
+
+const envPrefixes: Record<ModelStep, string> = {
+  classification: 'CLASSIFICATION',
+  generation: 'GENERATION',
+  ranking: 'RANKING',
+};
+
+const providers = new Map<string, ModelProvider>([
+  ['gateway', gatewayProvider],
+  ['fake', fakeProvider],
+]);
+
+/**
+ * Make a provider available to model specs under the given name
+ */
+export function registerProvider(name: string, provider: ModelProvider) {
+  providers.set(name, provider);
+}
+
+/**
+ * Resolve the configured model chain and timeout for a pipeline step
+ */
+export function getModelConfig(step: ModelStep): ModelStepConfig {
+  const defaults =
+    process.env.AI_PROVIDER === 'fake' ? fakeModelConfig[step] : defaultModelConfig[step];
+  const prefix = envPrefixes[step];
+
+  const models = process.env[`${prefix}_MODELS`]
+    ?.split(',')
+    .map((spec) => spec.trim())
+    .filter(Boolean);
+  const timeoutMs = Number(process.env[`${prefix}_TIMEOUT_MS`]);
+
+  return {
+    models: models?.length ? models : defaults.models,
+    timeoutMs: timeoutMs > 0 ? timeoutMs : defaults.timeoutMs,
+  };
+}
+
+function resolveModel(spec: string): { provider: ModelProvider; modelId: string } {
+  const separator = spec.indexOf(':');
+  if (separator <= 0) {
+    throw new Error(`Invalid model spec "${spec}", expected provider:modelId`);
+  }
+
+  const name = spec.slice(0, separator);
+  const provider = providers.get(name);
+  if (!provider) {
+    throw new Error(`Unknown model provider "${name}" in "${spec}"`);
+  }
+
+  return { provider, modelId: spec.slice(separator + 1) };
+}
+
+/**
+ * Run a pipeline step against each configured model in turn until one
+ * succeeds. Each attempt is aborted after the step timeout; the last
+ * error is rethrown when every model fails.
+ *
+ * @returns The step result and the spec of the model that produced it
+ */
+export async function runWithFallback<T>(
+  app: App,
+  step: ModelStep,
+  attempt: (provider: ModelProvider, modelId: string, abortSignal: AbortSignal) => Promise<T>
+): Promise<{ result: T; model: string }> {
+  const { models, timeoutMs } = getModelConfig(step);
+  let lastError: unknown;
+
+  for (const spec of models) {
+    try {
+      const { provider, modelId } = resolveModel(spec);
+      const result = await attempt(provider, modelId, AbortSignal.timeout(timeoutMs));
+      return { result, model: spec };
+    } catch (error) {
+      lastError = error;
+      app.logger.warn({ err: error, step, model: spec }, 'Model call failed, trying next model');
+    }
+  }
+
+  throw lastError ?? new Error(`No models configured for ${step}`);
+}
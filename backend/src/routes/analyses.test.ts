@@ -0,0 +1,180 @@
+import assert from 'node:assert/strict';
+import { after, before, beforeEach, describe, it, mock } from 'node:test';
+import { encodeGradientPng } from '../utils/png.js';
+import { createAnalysis, createTestApp, TEST_OWNER_ID, type TestApp } from '../test/harness.js';
+
+const photo = encodeGradientPng(8, 8, [90, 30, 30], [240, 220, 200]);
+
+function regenerate(testApp: TestApp, id: string, payload: Record<string, unknown>) {
+  return testApp.fastify.inject({
+    method: 'POST',
+    url: `/api/analyses/${id}/regenerate`,
+    headers: { 'x-device-id': TEST_OWNER_ID },
+    payload,
+  });
+}
+
+function listAnalyses(testApp: TestApp, query: string) {
+  return testApp.fastify.inject({
+    method: 'GET',
+    url: `/api/analyses?${query}`,
+    headers: { 'x-device-id': TEST_OWNER_ID },
+  });
+}
+
+describe('analysis history', () => {
+  let testApp: TestApp;
+
+  before(async () => {
+    testApp = await createTestApp();
+  });
+
+  after(async () => {
+    await testApp.close();
+  });
+
+  it('pages through analyses newest first', async () => {
+    const ids: string[] = [];
+    for (let i = 0; i < 3; i++) {
+      ids.push((await createAnalysis(testApp, photo)).id);
+    }
+    await createAnalysis(testApp, photo, 'other-device-0002');
+
+    const first = await listAnalyses(testApp, 'limit=2');
+    assert.equal(first.statusCode, 200);
+    assert.deepEqual(
+      first.json().items.map((item: { id: string }) => item.id),
+      [ids[2], ids[1]]
+    );
+    assert.ok(first.json().nextCursor);
+
+    const second = await listAnalyses(
+      testApp,
+      `limit=2&cursor=${encodeURIComponent(first.json().nextCursor)}`
+    );
+    assert.deepEqual(
+      second.json().items.map((item: { id: string }) => item.id),
+      [ids[0]]
+    );
+    assert.equal(second.json().nextCursor, null);
+  });
+
+  it('returns 400 for a malformed cursor', async () => {
+    const cursor = Buffer.from('2024-01-01T00:00:00.000Z|not-a-uuid').toString('base64url');
+
+    const response = await listAnalyses(testApp, `cursor=${cursor}`);
+
+    assert.equal(response.statusCode, 400);
+    assert.deepEqual(response.json(), { error: 'Invalid cursor' });
+  });
+
+  it('fetches and deletes an analysis with its images', async () => {
+    const analysis = await createAnalysis(testApp, photo);
+    const url = `/api/analyses/${analysis.id}`;
+
+    const headers = { 'x-device-id': TEST_OWNER_ID };
+    const fetched = await testApp.fastify.inject({ method: 'GET', url, headers });
+    assert.equal(fetched.statusCode, 200);
+    assert.equal(fetched.json().id, analysis.id);
+
+    const otherDevice = await testApp.fastify.inject({
+      method: 'DELETE',
+      url,
+      headers: { 'x-device-id': 'other-device-0002' },
+    });
+    assert.equal(otherDevice.statusCode, 404);
+
+    const keys = [analysis.originalImageUrl, analysis.suggestionImageUrl].map((imageUrl) =>
+      imageUrl.replace('https://storage.test/', '')
+    );
+    assert.ok(keys.every((key) => testApp.storage.has(key)));
+
+    const deleted = await testApp.fastify.inject({ method: 'DELETE', url, headers });
+    assert.equal(deleted.statusCode, 204);
+    assert.ok(keys.every((key) => !testApp.storage.has(key)));
+
+    const gone = await testApp.fastify.inject({ method: 'GET', url, headers });
+    assert.equal(gone.statusCode, 404);
+  });
+});
+
+describe('POST /api/analyses/:id/regenerate', () => {
+  let testApp: TestApp;
+
+  before(async () => {
+    testApp = await createTestApp();
+    // Signed URLs point at the in-memory storage
+    mock.method(globalThis, 'fetch', async (url: string | URL) => {
+      const key = String(url).replace('https://storage.test/', '');
+      const data = testApp.storage.get(key);
+      return data ? new Response(data) : new Response(null, { status: 404 });
+    });
+  });
+
+  after(async () => {
+    mock.restoreAll();
+    await testApp.close();
+  });
+
+  beforeEach(() => {
+    testApp.resetModels();
+  });
+
+  it('adds a steered version without classifying again', async () => {
+    const analysis = await createAnalysis(testApp, photo);
+
+    const response = await regenerate(testApp, analysis.id, { instruction: '  more colourful ' });
+
+    assert.equal(response.statusCode, 200);
+    assert.equal(testApp.models.calls.classification, 1);
+    assert.equal(testApp.models.calls.generation, 2);
+
+    const { referenceImage, prompt } = testApp.models.generationRequests[1];
+    assert.deepEqual(referenceImage, photo);
+    assert.match(prompt, /"more colourful"/);
+
+    const body = response.json();
+    assert.equal(body.category, analysis.category);
+    assert.deepEqual(
+      body.suggestionImages.map((image: { instruction: string | null }) => image.instruction),
+      [null, 'more colourful']
+    );
+    assert.equal(body.suggestionImages[0].url, analysis.suggestionImageUrl);
+  });
+
+  it('keeps every image when regenerations run at the same time', async () => {
+    const analysis = await createAnalysis(testApp, photo);
+
+    const responses = await Promise.all([
+      regenerate(testApp, analysis.id, { instruction: 'no heels' }),
+      regenerate(testApp, analysis.id, { instruction: 'more colourful' }),
+    ]);
+    assert.deepEqual(
+      responses.map((response) => response.statusCode),
+      [200, 200]
+    );
+
+    const stored = await testApp.fastify.inject({
+      method: 'GET',
+      url: `/api/analyses/${analysis.id}`,
+      headers: { 'x-device-id': TEST_OWNER_ID },
+    });
+    const urls = stored.json().suggestionImages.map((image: { url: string }) => image.url);
+    assert.equal(urls.length, 3);
+    assert.equal(new Set(urls).size, 3);
+  });
+
+  it('returns 404 for an analysis of another device', async () => {
+    const analysis = await createAnalysis(testApp, photo);
+
+    const response = await testApp.fastify.inject({
+      method: 'POST',
+      url: `/api/analyses/${analysis.id}/regenerate`,
+      headers: { 'x-device-id': 'another-device-0002' },
+      payload: {},
+    });
+
+    assert.equal(response.statusCode, 404);
+    assert.equal(testApp.models.calls.generation, 1);
+  });
+});
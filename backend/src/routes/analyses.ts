@@ -0,0 +1,371 @@
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { and, desc, eq, lt, or, sql } from 'drizzle-orm';
+import { outfitAnalyses } from '../db/schema.js';
+import { outfitCategoryIds } from '../services/categories.js';
+import {
+  analysisFromRow,
+  discardStoredImages,
+  generateSuggestionImages,
+  loadOriginalImage,
+} from '../services/outfit-analysis.js';
+import { requireOwnerId } from '../utils/owner.js';
+import {
+  analysisResponseSchema,
+  decodeCursor,
+  encodeCursor,
+  storedSuggestionImages,
+  toAnalysisResponse,
+} from '../utils/analyses.js';
+import type { App } from '../index.js';
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 50;
+
+// Steering instructions are pasted into the generation prompt
+const MAX_INSTRUCTION_LENGTH = 200;
+
+interface RegenerateBody {
+  instruction?: string;
+}
+
+interface AnalysisUpdateBody {
+  category?: string;
+  favoriteSuggestion?: number | null;
+}
+
+const idParamsSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', format: 'uuid' },
+  },
+  required: ['id'],
+} as const;
+
+export function register(app: App, fastify: FastifyInstance) {
+  fastify.get<{ Querystring: { cursor?: string; limit?: number } }>(
+    '/api/analyses',
+    {
+      schema: {
+        description: 'List past outfit analyses for the current device, newest first',
+        tags: ['analyses'],
+        querystring: {
+          type: 'object',
+          properties: {
+            cursor: { type: 'string', description: 'Opaque cursor from a previous page' },
+            limit: {
+              type: 'integer',
+              minimum: 1,
+              maximum: MAX_PAGE_SIZE,
+              default: DEFAULT_PAGE_SIZE,
+            },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              items: { type: 'array', items: analysisResponseSchema },
+              nextCursor: {
+                type: ['string', 'null'],
+                description: 'Cursor for the next page, or null when there are no more results',
+              },
+            },
+            required: ['items', 'nextCursor'],
+          },
+        },
+      },
+    },
+    async (
+      request: FastifyRequest<{ Querystring: { cursor?: string; limit?: number } }>,
+      reply: FastifyReply
+    ) => {
+      const ownerId = requireOwnerId(request, reply);
+      if (!ownerId) return;
+
+      const limit = request.query.limit ?? DEFAULT_PAGE_SIZE;
+
+      let cursor: { createdAt: Date; id: string } | null = null;
+      if (request.query.cursor) {
+        cursor = decodeCursor(request.query.cursor);
+        if (!cursor) {
+          return reply.status(400).send({ error: 'Invalid cursor' });
+        }
+      }
+
+      try {
+        // Fetch one extra row to know whether another page exists
+        const rows = await app.db
+          .select()
+          .from(outfitAnalyses)
+          .where(
+            and(
+              eq(outfitAnalyses.ownerId, ownerId),
+              cursor
+                ? or(
+                    lt(outfitAnalyses.createdAt, cursor.createdAt),
+                    and(
+                      eq(outfitAnalyses.createdAt, cursor.createdAt),
+                      lt(outfitAnalyses.id, cursor.id)
+                    )
+                  )
+                : undefined
+            )
+          )
+          .orderBy(desc(outfitAnalyses.createdAt), desc(outfitAnalyses.id))
+          .limit(limit + 1);
+
+        const page = rows.slice(0, limit);
+        const nextCursor = rows.length > limit ? encodeCursor(page[page.length - 1]) : null;
+
+        return {
+          items: await Promise.all(page.map((row) => toAnalysisResponse(app, row))),
+          nextCursor,
+        };
+      } catch (error) {
+        app.logger.error(error, 'Error listing outfit analyses');
+        return reply.status(500).send({ error: 'Failed to list analyses' });
+      }
+    }
+  );
+
+  fastify.get<{ Params: { id: string } }>(
+    '/api/analyses/:id',
+    {
+      schema: {
+        description: 'Get a single outfit analysis',
+        tags: ['analyses'],
+        params: idParamsSchema,
+        response: {
+          200: analysisResponseSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+      const ownerId = requireOwnerId(request, reply);
+      if (!ownerId) return;
+
+      try {
+        const [row] = await app.db
+          .select()
+          .from(outfitAnalyses)
+          .where(
+            and(eq(outfitAnalyses.id, request.params.id), eq(outfitAnalyses.ownerId, ownerId))
+          );
+
+        if (!row) {
+          return reply.status(404).send({ error: 'Analysis not found' });
+        }
+
+        return toAnalysisResponse(app, row);
+      } catch (error) {
+        app.logger.error(error, 'Error fetching outfit analysis');
+        return reply.status(500).send({ error: 'Failed to fetch analysis' });
+      }
+    }
+  );
+
+  fastify.patch<{ Params: { id: string }; Body: AnalysisUpdateBody }>(
+    '/api/analyses/:id',
+    {
+      schema: {
+        description:
+          'Confirm or correct the category of an analysis (e.g. after a low-confidence ' +
+          'result) and/or mark one suggestion image as the favourite',
+        tags: ['analyses'],
+        params: idParamsSchema,
+        body: {
+          type: 'object',
+          properties: {
+            category: { type: 'string', enum: outfitCategoryIds },
+            favoriteSuggestion: {
+              type: ['integer', 'null'],
+              minimum: 0,
+              description: 'Index into suggestionImages, or null to clear the favourite',
+            },
+          },
+          minProperties: 1,
+          additionalProperties: false,
+        },
+        response: {
+          200: analysisResponseSchema,
+        },
+      },
+    },
+    async (
+      request: FastifyRequest<{ Params: { id: string }; Body: AnalysisUpdateBody }>,
+      reply: FastifyReply
+    ) => {
+      const ownerId = requireOwnerId(request, reply);
+      if (!ownerId) return;
+
+      const { category, favoriteSuggestion } = request.body;
+      const where = and(eq(outfitAnalyses.id, request.params.id), eq(outfitAnalyses.ownerId, ownerId));
+
+      // New images no saved analysis refers to yet; removed if the update fails
+      let unsavedKeys: string[] = [];
+      try {
+        const [existing] = await app.db.select().from(outfitAnalyses).where(where);
+        if (!existing) {
+          return reply.status(404).send({ error: 'Analysis not found' });
+        }
+
+        if (
+          typeof favoriteSuggestion === 'number' &&
+          favoriteSuggestion >= storedSuggestionImages(existing).length
+        ) {
+          return reply.status(400).send({ error: 'favoriteSuggestion is out of range' });
+        }
+
+        const [row] = await app.db
+          .update(outfitAnalyses)
+          .set({
+            ...(category !== undefined && { category, categoryConfirmedAt: new Date() }),
+            ...(favoriteSuggestion !== undefined && { favoriteSuggestion }),
+          })
+          .where(where)
+          .returning();
+
+        if (!row) {
+          return reply.status(404).send({ error: 'Analysis not found' });
+        }
+
+        return toAnalysisResponse(app, row);
+      } catch (error) {
+        app.logger.error(error, 'Error updating outfit analysis');
+        return reply.status(500).send({ error: 'Failed to update analysis' });
+      }
+    }
+  );
+
+  fastify.post<{ Params: { id: string }; Body: RegenerateBody | undefined }>(
+    '/api/analyses/:id/regenerate',
+    {
+      schema: {
+        description:
+          'Generate a new suggestion image from the stored classification, optionally ' +
+          'steered by a free-text instruction. Earlier images stay in suggestionImages.',
+        tags: ['analyses'],
+        params: idParamsSchema,
+        body: {
+          type: 'object',
+          properties: {
+            instruction: {
+              type: 'string',
+              maxLength: MAX_INSTRUCTION_LENGTH,
+              description: 'e.g. "more colourful" or "no heels"',
+            },
+          },
+          additionalProperties: false,
+        },
+        response: {
+          200: analysisResponseSchema,
+        },
+      },
+    },
+    async (
+      request: FastifyRequest<{ Params: { id: string }; Body: RegenerateBody | undefined }>,
+      reply: FastifyReply
+    ) => {
+      const ownerId = requireOwnerId(request, reply);
+      if (!ownerId) return;
+
+      const instruction = request.body?.instruction?.trim() || null;
+      const where = and(eq(outfitAnalyses.id, request.params.id), eq(outfitAnalyses.ownerId, ownerId));
+
+      // New images no saved analysis refers to yet; removed if the update fails
+      let unsavedKeys: string[] = [];
+      try {
+        const [existing] = await app.db.select().from(outfitAnalyses).where(where);
+        if (!existing) {
+          return reply.status(404).send({ error: 'Analysis not found' });
+        }
+
+        const photo = await loadOriginalImage(app, existing.imageKey);
+        const { images, model } = await generateSuggestionImages(
+          app,
+          analysisFromRow(existing),
+          photo,
+          { targetOccasion: existing.targetOccasion, weather: existing.weather, variants: 1 },
+          { instruction }
+        );
+        unsavedKeys = images.map((image) => image.key);
+        if (images.length === 0) {
+          return reply.status(502).send({ error: 'The model did not return an image' });
+        }
+
+        // Appended in the UPDATE so concurrent regenerations keep each other's images;
+        // older analyses without a list start from their single suggestion image
+        const [row] = await app.db
+          .update(outfitAnalyses)
+          .set({
+            suggestionImages: sql`coalesce(${outfitAnalyses.suggestionImages}, ${JSON.stringify(
+              storedSuggestionImages(existing)
+            )}::jsonb) || ${JSON.stringify(images)}::jsonb`,
+            generationModel: model,
+          })
+          .where(where)
+          .returning();
+
+        if (!row) {
+          // Deleted while the image was generated
+          await discardStoredImages(app, unsavedKeys);
+          return reply.status(404).send({ error: 'Analysis not found' });
+        }
+        unsavedKeys = [];
+
+        return toAnalysisResponse(app, row);
+      } catch (error) {
+        app.logger.error(error, 'Error regenerating suggestion image');
+        await discardStoredImages(app, unsavedKeys);
+        return reply.status(500).send({ error: 'Failed to regenerate suggestion image' });
+      }
+    }
+  );
+
+  fastify.delete<{ Params: { id: string } }>(
+    '/api/analyses/:id',
+    {
+      schema: {
+        description: 'Delete an outfit analysis and its stored images',
+        tags: ['analyses'],
+        params: idParamsSchema,
+        response: {
+          204: { type: 'null' },
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+      const ownerId = requireOwnerId(request, reply);
+      if (!ownerId) return;
+
+      try {
+        const [row] = await app.db
+          .delete(outfitAnalyses)
+          .where(
+            and(eq(outfitAnalyses.id, request.params.id), eq(outfitAnalyses.ownerId, ownerId))
+          )
+          .returning();
+
+        if (!row) {
+          return reply.status(404).send({ error: 'Analysis not found' });
+        }
+
+        // Storage cleanup is best effort; the record is already gone
+        const keys = [row.imageKey, ...storedSuggestionImages(row).map((image) => image.key)];
+        for (const key of keys) {
+          if (!key) continue;
+          try {
+            await app.storage.delete(key);
+          } catch (error) {
+            app.logger.warn({ err: error, key }, 'Failed to delete analysis image');
+          }
+        }
+
+        return reply.status(204).send();
+      } catch (error) {
+        app.logger.error(error, 'Error deleting outfit analysis');
+        return reply.status(500).send({ error: 'Failed to delete analysis' });
+      }
+    }
+  );
+}
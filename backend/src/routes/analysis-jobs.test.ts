@@ -0,0 +1,116 @@
+import assert from 'node:assert/strict';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import { eq } from 'drizzle-orm';
+import { analysisJobs } from '../db/schema.js';
+import { INTERRUPTED_ERROR, STALE_JOB_MS } from '../services/analysis-jobs.js';
+import { encodeGradientPng } from '../utils/png.js';
+import { createTestApp, multipartPayload, TEST_OWNER_ID, type TestApp } from '../test/harness.js';
+
+const photo = encodeGradientPng(8, 8, [60, 20, 90], [230, 210, 240]);
+const headers = { 'x-device-id': TEST_OWNER_ID };
+
+function startJob(testApp: TestApp) {
+  const { payload, headers: multipartHeaders } = multipartPayload([
+    { name: 'image', filename: 'outfit.png', contentType: 'image/png', data: photo },
+  ]);
+  return testApp.fastify.inject({
+    method: 'POST',
+    url: '/api/analysis-jobs',
+    headers: { ...multipartHeaders, ...headers },
+    payload,
+  });
+}
+
+function fetchJob(testApp: TestApp, id: string) {
+  return testApp.fastify.inject({ method: 'GET', url: `/api/analysis-jobs/${id}`, headers });
+}
+
+async function waitForStatus(testApp: TestApp, id: string, status: string) {
+  for (let attempt = 0; attempt < 100; attempt++) {
+    const job = (await fetchJob(testApp, id)).json();
+    if (job.status === status) return job;
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+  assert.fail(`Job ${id} never reached ${status}`);
+}
+
+describe('analysis jobs', () => {
+  let testApp: TestApp;
+
+  before(async () => {
+    // One running and one waiting job fill the queue
+    process.env.ANALYSIS_JOB_CONCURRENCY = '1';
+    process.env.ANALYSIS_JOB_QUEUE_LIMIT = '1';
+    testApp = await createTestApp();
+  });
+
+  after(async () => {
+    delete process.env.ANALYSIS_JOB_CONCURRENCY;
+    delete process.env.ANALYSIS_JOB_QUEUE_LIMIT;
+    await testApp.close();
+  });
+
+  beforeEach(() => {
+    testApp.resetModels();
+  });
+
+  it('runs a job in the background and reports the stored analysis', async () => {
+    const started = await startJob(testApp);
+    assert.equal(started.statusCode, 202);
+    assert.equal(started.json().status, 'queued');
+    assert.equal(started.json().analysis, null);
+
+    const job = await waitForStatus(testApp, started.json().id, 'done');
+    assert.equal(job.category, 'Casual');
+    assert.equal(job.analysis.category, 'Casual');
+
+    const other = await testApp.fastify.inject({
+      method: 'GET',
+      url: `/api/analysis-jobs/${job.id}`,
+      headers: { 'x-device-id': 'other-device-0002' },
+    });
+    assert.equal(other.statusCode, 404);
+  });
+
+  it('answers 429 when the queue is full and never expires jobs it holds', async () => {
+    let resume = () => {};
+    testApp.models.pause = new Promise((resolve) => {
+      resume = resolve;
+    });
+
+    const running = (await startJob(testApp)).json();
+    await waitForStatus(testApp, running.id, 'classifying');
+    const waiting = (await startJob(testApp)).json();
+
+    const rejected = await startJob(testApp);
+    assert.equal(rejected.statusCode, 429);
+
+    // Waiting longer than the stale timeout is fine while this process holds the job
+    await testApp.app.db
+      .update(analysisJobs)
+      .set({ updatedAt: new Date(Date.now() - STALE_JOB_MS - 1000) })
+      .where(eq(analysisJobs.id, waiting.id));
+    assert.equal((await fetchJob(testApp, waiting.id)).json().status, 'queued');
+
+    resume();
+    await waitForStatus(testApp, running.id, 'done');
+    await waitForStatus(testApp, waiting.id, 'done');
+  });
+
+  it('reports jobs no process holds as failed once they are stale', async () => {
+    const [lost] = await testApp.app.db
+      .insert(analysisJobs)
+      .values({
+        ownerId: TEST_OWNER_ID,
+        status: 'classifying',
+        imageKey: 'outfit-uploads/lost.png',
+        analysisId: '00000000-0000-4000-8000-000000000000',
+        updatedAt: new Date(Date.now() - STALE_JOB_MS - 1000),
+      })
+      .returning();
+
+    const job = (await fetchJob(testApp, lost.id)).json();
+    assert.equal(job.status, 'failed');
+    assert.equal(job.error, INTERRUPTED_ERROR);
+  });
+});
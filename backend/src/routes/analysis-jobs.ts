@@ -0,0 +1,190 @@
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { randomUUID } from 'node:crypto';
+import { and, eq } from 'drizzle-orm';
+import { analysisJobs, analysisJobStatuses, outfitAnalyses } from '../db/schema.js';
+import { createAnalysisJobQueue, INTERRUPTED_ERROR, STALE_JOB_MS } from '../services/analysis-jobs.js';
+import { discardStoredImages, storeOriginalImage } from '../services/outfit-analysis.js';
+import { requireOwnerId } from '../utils/owner.js';
+import { readImageUpload } from '../utils/upload.js';
+import { analysisOptionsDescription, parseAnalysisOptions } from '../utils/analysis-options.js';
+import {
+  analysisResponseSchema,
+  signedUrlOrEmpty,
+  toAnalysisResponse,
+} from '../utils/analyses.js';
+import type { App } from '../index.js';
+
+type AnalysisJobRow = typeof analysisJobs.$inferSelect;
+
+const jobResponseSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', description: 'Job id' },
+    status: {
+      type: 'string',
+      enum: analysisJobStatuses,
+      description: 'Current step of the job',
+    },
+    category: {
+      type: ['string', 'null'],
+      description: 'Detected category, available once classification finished',
+    },
+    explanation: { type: ['string', 'null'] },
+    confidence: { type: ['string', 'null'] },
+    originalImageUrl: { type: 'string', description: 'URL to the photo the user uploaded' },
+    analysis: {
+      anyOf: [analysisResponseSchema, { type: 'null' }],
+      description: 'The stored analysis, set once the job is done',
+    },
+    error: { type: ['string', 'null'] },
+    createdAt: { type: 'string', format: 'date-time' },
+    updatedAt: { type: 'string', format: 'date-time' },
+  },
+  required: ['id', 'status', 'originalImageUrl', 'analysis', 'createdAt', 'updatedAt'],
+} as const;
+
+export function register(app: App, fastify: FastifyInstance) {
+  const queue = createAnalysisJobQueue(app);
+  fastify.addHook('onClose', async () => {
+    await queue.close();
+  });
+
+  async function toJobResponse(job: AnalysisJobRow) {
+    let analysis = null;
+    if (job.status === 'done') {
+      const [row] = await app.db
+        .select()
+        .from(outfitAnalyses)
+        .where(eq(outfitAnalyses.id, job.analysisId));
+      // The analysis may have been deleted from the history since
+      analysis = row ? await toAnalysisResponse(app, row) : null;
+    }
+
+    return {
+      id: job.id,
+      status: job.status,
+      category: job.category,
+      explanation: job.explanation,
+      confidence: job.confidence,
+      // The photo of a failed job has been deleted
+      originalImageUrl: job.status === 'failed' ? '' : await signedUrlOrEmpty(app, job.imageKey),
+      analysis,
+      error: job.error,
+      createdAt: job.createdAt.toISOString(),
+      updatedAt: job.updatedAt.toISOString(),
+    };
+  }
+
+  fastify.post(
+    '/api/analysis-jobs',
+    {
+      schema: {
+        description:
+          'Start analyzing an outfit image in the background. ' + analysisOptionsDescription,
+        tags: ['analysis-jobs'],
+        response: {
+          202: jobResponseSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const ownerId = requireOwnerId(request, reply);
+      if (!ownerId) return;
+
+      // Stored photo no job refers to yet; removed if creating the job fails
+      let unsavedImageKey: string | null = null;
+      try {
+        const upload = await readImageUpload(request, reply);
+        if (!upload) return;
+        const options = await parseAnalysisOptions(app, upload, reply);
+        if (!options) return;
+
+        if (queue.isFull()) {
+          return reply
+            .status(429)
+            .send({ error: 'Too many analyses in progress, please try again shortly' });
+        }
+
+        const analysisId = randomUUID();
+        const imageKey = await storeOriginalImage(app, analysisId, upload.buffer, upload.mimetype);
+        unsavedImageKey = imageKey;
+
+        const [job] = await app.db
+          .insert(analysisJobs)
+          .values({ ownerId, imageKey, analysisId })
+          .returning();
+        unsavedImageKey = null;
+
+        queue.enqueue({
+          id: job.id,
+          ownerId,
+          imageKey,
+          analysisId,
+          image: upload.buffer,
+          ...options,
+        });
+
+        return reply.status(202).send(await toJobResponse(job));
+      } catch (error) {
+        app.logger.error(error, 'Error creating analysis job');
+        if (unsavedImageKey) await discardStoredImages(app, [unsavedImageKey]);
+        return reply.status(500).send({ error: 'Failed to start outfit analysis' });
+      }
+    }
+  );
+
+  fastify.get<{ Params: { id: string } }>(
+    '/api/analysis-jobs/:id',
+    {
+      schema: {
+        description: 'Get the status and partial results of an analysis job',
+        tags: ['analysis-jobs'],
+        params: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+          },
+          required: ['id'],
+        },
+        response: {
+          200: jobResponseSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+      const ownerId = requireOwnerId(request, reply);
+      if (!ownerId) return;
+
+      try {
+        let [job] = await app.db
+          .select()
+          .from(analysisJobs)
+          .where(and(eq(analysisJobs.id, request.params.id), eq(analysisJobs.ownerId, ownerId)));
+
+        if (!job) {
+          return reply.status(404).send({ error: 'Analysis job not found' });
+        }
+
+        // A job still held here is only waiting its turn, however long that takes
+        const inProgress = job.status !== 'done' && job.status !== 'failed';
+        if (
+          inProgress &&
+          !queue.holds(job.id) &&
+          Date.now() - job.updatedAt.getTime() > STALE_JOB_MS
+        ) {
+          [job] = await app.db
+            .update(analysisJobs)
+            .set({ status: 'failed', error: INTERRUPTED_ERROR })
+            .where(eq(analysisJobs.id, job.id))
+            .returning();
+          await discardStoredImages(app, [job.imageKey]);
+        }
+
+        return toJobResponse(job);
+      } catch (error) {
+        app.logger.error(error, 'Error fetching analysis job');
+        return reply.status(500).send({ error: 'Failed to fetch analysis job' });
+      }
+    }
+  );
+}
@@ -0,0 +1,46 @@
+import type { FastifyInstance } from 'fastify';
+import { outfitCategoryCatalog } from '../services/categories.js';
+import type { App } from '../index.js';
+
+const categoryResponseSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', description: 'Stable id stored with analyses' },
+    label: { type: 'string', description: 'Display name' },
+    description: { type: 'string', description: 'What outfits in this category look like' },
+    colors: {
+      type: 'array',
+      items: { type: 'string' },
+      minItems: 2,
+      maxItems: 2,
+      description: 'Gradient start and end colours',
+    },
+    icon: { type: 'string', description: 'Material icon name' },
+  },
+  required: ['id', 'label', 'description', 'colors', 'icon'],
+} as const;
+
+export function register(app: App, fastify: FastifyInstance) {
+  fastify.get(
+    '/api/categories',
+    {
+      schema: {
+        description: 'List the outfit categories the classifier can assign',
+        tags: ['categories'],
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              items: { type: 'array', items: categoryResponseSchema },
+            },
+            required: ['items'],
+          },
+        },
+      },
+    },
+    async () => {
+      // The serializer drops prompt-only fields such as `suggestion`
+      return { items: outfitCategoryCatalog };
+    }
+  );
+}
@@ -0,0 +1,146 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { encodeGradientPng } from '../utils/png.js';
+import { createAnalysis, createTestApp, TEST_OWNER_ID, type TestApp } from '../test/harness.js';
+
+const ADMIN_TOKEN = 'test-admin-token';
+
+const photo = encodeGradientPng(8, 8, [30, 90, 30], [200, 240, 220]);
+
+function sendFeedback(testApp: TestApp, id: string, payload: Record<string, unknown>) {
+  return testApp.fastify.inject({
+    method: 'PUT',
+    url: `/api/analyses/${id}/feedback`,
+    headers: { 'x-device-id': TEST_OWNER_ID },
+    payload,
+  });
+}
+
+function exportFeedback(testApp: TestApp, query = '', token = ADMIN_TOKEN) {
+  return testApp.fastify.inject({
+    method: 'GET',
+    url: `/api/admin/feedback${query}`,
+    headers: { authorization: `Bearer ${token}` },
+  });
+}
+
+describe('analysis feedback', () => {
+  let testApp: TestApp;
+
+  before(async () => {
+    process.env.ADMIN_TOKEN = ADMIN_TOKEN;
+    testApp = await createTestApp();
+  });
+
+  after(async () => {
+    delete process.env.ADMIN_TOKEN;
+    await testApp.close();
+  });
+
+  it('replaces earlier feedback and applies a corrected category', async () => {
+    const analysis = await createAnalysis(testApp, photo);
+
+    const first = await sendFeedback(testApp, analysis.id, { rating: 'up' });
+    assert.equal(first.statusCode, 200);
+
+    const second = await sendFeedback(testApp, analysis.id, {
+      rating: 'down',
+      correctedCategory: 'Formal',
+      comment: '  It is a suit ',
+    });
+    assert.equal(second.statusCode, 200);
+    assert.deepEqual(
+      (({ rating, predictedCategory, correctedCategory, comment }) => ({
+        rating,
+        predictedCategory,
+        correctedCategory,
+        comment,
+      }))(second.json()),
+      { rating: 'down', predictedCategory: 'Casual', correctedCategory: 'Formal', comment: 'It is a suit' }
+    );
+
+    const stored = await testApp.fastify.inject({
+      method: 'GET',
+      url: `/api/analyses/${analysis.id}`,
+      headers: { 'x-device-id': TEST_OWNER_ID },
+    });
+    assert.equal(stored.json().category, 'Formal');
+    assert.equal(stored.json().categoryConfirmed, true);
+
+    const fetched = await testApp.fastify.inject({
+      method: 'GET',
+      url: `/api/analyses/${analysis.id}/feedback`,
+      headers: { 'x-device-id': TEST_OWNER_ID },
+    });
+    assert.equal(fetched.json().predictedCategory, 'Casual');
+  });
+
+  it("keeps the model's category as the prediction after the user changed it", async () => {
+    const analysis = await createAnalysis(testApp, photo);
+
+    const confirmed = await testApp.fastify.inject({
+      method: 'PATCH',
+      url: `/api/analyses/${analysis.id}`,
+      headers: { 'x-device-id': TEST_OWNER_ID },
+      payload: { category: 'Formal' },
+    });
+    assert.equal(confirmed.statusCode, 200);
+
+    const response = await sendFeedback(testApp, analysis.id, { rating: 'up' });
+    assert.equal(response.statusCode, 200);
+    assert.equal(response.json().predictedCategory, 'Casual');
+  });
+
+  it('returns 404 for an analysis of another device', async () => {
+    const analysis = await createAnalysis(testApp, photo);
+
+    const response = await testApp.fastify.inject({
+      method: 'PUT',
+      url: `/api/analyses/${analysis.id}/feedback`,
+      headers: { 'x-device-id': 'other-device-0002' },
+      payload: { rating: 'up' },
+    });
+
+    assert.equal(response.statusCode, 404);
+  });
+
+  it('exports feedback with an accuracy summary for admins only', async () => {
+    const rejected = await exportFeedback(testApp, '', 'wrong-token');
+    assert.equal(rejected.statusCode, 401);
+
+    const analysis = await createAnalysis(testApp, photo);
+    await sendFeedback(testApp, analysis.id, { rating: 'up', comment: 'Spot on, "really"' });
+
+    const response = await exportFeedback(testApp);
+    assert.equal(response.statusCode, 200);
+    const { items, summary } = response.json();
+    assert.equal(items.length, summary.total);
+    assert.equal(summary.misclassified, 1);
+    assert.equal(summary.categoryAccuracy, 1 - 1 / summary.total);
+
+    const csv = await exportFeedback(testApp, '?format=csv');
+    assert.match(csv.headers['content-type'] as string, /^text\/csv/);
+    const lines = (csv.body as string).trim().split('\r\n');
+    assert.equal(lines.length, summary.total + 1);
+    assert.match(csv.body as string, /"Spot on, ""really"""/);
+  });
+
+  it('cuts the export off at the limit and says so', async () => {
+    const full = (await exportFeedback(testApp)).json();
+    assert.ok(full.items.length > 1);
+    assert.equal(full.truncated, false);
+
+    const first = await exportFeedback(testApp, '?limit=1');
+    assert.equal(first.statusCode, 200);
+    assert.deepEqual(first.json().items, [full.items[0]]);
+    assert.equal(first.json().truncated, true);
+    assert.equal(first.json().summary.total, 1);
+
+    const csv = await exportFeedback(testApp, '?limit=1&format=csv');
+    assert.equal(csv.headers['x-export-truncated'], 'true');
+    assert.equal((csv.body as string).trim().split('\r\n').length, 2);
+
+    const rejected = await exportFeedback(testApp, '?limit=0');
+    assert.equal(rejected.statusCode, 400);
+  });
+});
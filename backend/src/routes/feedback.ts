@@ -0,0 +1,315 @@
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { and, asc, eq, gte, lt } from 'drizzle-orm';
+import { analysisFeedback, feedbackRatings, outfitAnalyses } from '../db/schema.js';
+import { outfitCategoryIds } from '../services/categories.js';
+import { requireOwnerId } from '../utils/owner.js';
+import { requireAdmin } from '../utils/admin.js';
+import type { App } from '../index.js';
+
+type FeedbackRow = typeof analysisFeedback.$inferSelect;
+
+const MAX_COMMENT_LENGTH = 1000;
+// Rows per export; narrow the range with from/to for more
+const DEFAULT_EXPORT_LIMIT = 1000;
+const MAX_EXPORT_LIMIT = 10_000;
+
+interface FeedbackBody {
+  rating: (typeof feedbackRatings)[number];
+  correctedCategory?: string | null;
+  comment?: string | null;
+}
+
+interface ExportQuery {
+  from?: string;
+  to?: string;
+  limit?: number;
+  format?: 'json' | 'csv';
+}
+
+const idParamsSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', format: 'uuid' },
+  },
+  required: ['id'],
+} as const;
+
+const feedbackResponseSchema = {
+  type: 'object',
+  properties: {
+    analysisId: { type: 'string' },
+    rating: { type: 'string', enum: feedbackRatings },
+    predictedCategory: {
+      type: 'string',
+      description: 'Category the analysis had when feedback was first given',
+    },
+    correctedCategory: { type: ['string', 'null'] },
+    comment: { type: ['string', 'null'] },
+    createdAt: { type: 'string', format: 'date-time' },
+    updatedAt: { type: 'string', format: 'date-time' },
+  },
+  required: [
+    'analysisId',
+    'rating',
+    'predictedCategory',
+    'correctedCategory',
+    'comment',
+    'createdAt',
+    'updatedAt',
+  ],
+} as const;
+
+function toFeedbackResponse(row: FeedbackRow) {
+  return {
+    analysisId: row.analysisId,
+    rating: row.rating,
+    predictedCategory: row.predictedCategory,
+    correctedCategory: row.correctedCategory,
+    comment: row.comment,
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+// Columns of the admin export, in CSV column order
+const exportColumns = [
+  'feedbackId',
+  'analysisId',
+  'createdAt',
+  'rating',
+  'predictedCategory',
+  'correctedCategory',
+  'comment',
+  'confidenceScore',
+  'promptVersion',
+  'classificationModel',
+] as const;
+
+type ExportRecord = Record<(typeof exportColumns)[number], string | number | null>;
+
+function toCsv(records: ExportRecord[]): string {
+  const escape = (value: string | number | null) => {
+    if (value === null) return '';
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  const lines = [
+    exportColumns.join(','),
+    ...records.map((record) => exportColumns.map((column) => escape(record[column])).join(',')),
+  ];
+  return `${lines.join('\r\n')}\r\n`;
+}
+
+export function register(app: App, fastify: FastifyInstance) {
+  fastify.put<{ Params: { id: string }; Body: FeedbackBody }>(
+    '/api/analyses/:id/feedback',
+    {
+      schema: {
+        description:
+          'Rate an analysis and optionally correct its category. Replaces earlier feedback ' +
+          'on the same analysis; a corrected category is also applied to the analysis.',
+        tags: ['feedback'],
+        params: idParamsSchema,
+        body: {
+          type: 'object',
+          properties: {
+            rating: { type: 'string', enum: feedbackRatings },
+            correctedCategory: { type: ['string', 'null'], enum: [...outfitCategoryIds, null] },
+            comment: { type: ['string', 'null'], maxLength: MAX_COMMENT_LENGTH },
+          },
+          required: ['rating'],
+          additionalProperties: false,
+        },
+        response: {
+          200: feedbackResponseSchema,
+        },
+      },
+    },
+    async (
+      request: FastifyRequest<{ Params: { id: string }; Body: FeedbackBody }>,
+      reply: FastifyReply
+    ) => {
+      const ownerId = requireOwnerId(request, reply);
+      if (!ownerId) return;
+
+      const { rating } = request.body;
+      const correctedCategory = request.body.correctedCategory ?? null;
+      const comment = request.body.comment?.trim() || null;
+
+      try {
+        const [analysis] = await app.db
+          .select()
+          .from(outfitAnalyses)
+          .where(
+            and(eq(outfitAnalyses.id, request.params.id), eq(outfitAnalyses.ownerId, ownerId))
+          );
+        if (!analysis) {
+          return reply.status(404).send({ error: 'Analysis not found' });
+        }
+
+        // The correction is only applied together with the feedback that carries it
+        const feedback = await app.db.transaction(async (tx) => {
+          const [saved] = await tx
+            .insert(analysisFeedback)
+            .values({
+              analysisId: analysis.id,
+              ownerId,
+              rating,
+              predictedCategory: analysis.predictedCategory,
+              correctedCategory,
+              comment,
+            })
+            .onConflictDoUpdate({
+              target: analysisFeedback.analysisId,
+              set: { rating, correctedCategory, comment, updatedAt: new Date() },
+            })
+            .returning();
+
+          if (correctedCategory && correctedCategory !== analysis.category) {
+            await tx
+              .update(outfitAnalyses)
+              .set({ category: correctedCategory, categoryConfirmedAt: new Date() })
+              .where(eq(outfitAnalyses.id, analysis.id));
+          }
+          return saved;
+        });
+
+        return toFeedbackResponse(feedback);
+      } catch (error) {
+        app.logger.error(error, 'Error saving analysis feedback');
+        return reply.status(500).send({ error: 'Failed to save feedback' });
+      }
+    }
+  );
+
+  fastify.get<{ Params: { id: string } }>(
+    '/api/analyses/:id/feedback',
+    {
+      schema: {
+        description: 'Get the feedback given on an analysis',
+        tags: ['feedback'],
+        params: idParamsSchema,
+        response: {
+          200: feedbackResponseSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+      const ownerId = requireOwnerId(request, reply);
+      if (!ownerId) return;
+
+      try {
+        const [feedback] = await app.db
+          .select()
+          .from(analysisFeedback)
+          .where(
+            and(
+              eq(analysisFeedback.analysisId, request.params.id),
+              eq(analysisFeedback.ownerId, ownerId)
+            )
+          );
+        if (!feedback) {
+          return reply.status(404).send({ error: 'Feedback not found' });
+        }
+
+        return toFeedbackResponse(feedback);
+      } catch (error) {
+        app.logger.error(error, 'Error fetching analysis feedback');
+        return reply.status(500).send({ error: 'Failed to fetch feedback' });
+      }
+    }
+  );
+
+  fastify.get<{ Querystring: ExportQuery }>(
+    '/api/admin/feedback',
+    {
+      schema: {
+        description:
+          'Export feedback records with the analysed prediction, for measuring classifier ' +
+          'accuracy, oldest first. At most `limit` records are returned; `truncated` (the ' +
+          '`x-export-truncated` header for CSV) tells whether more match. The next export ' +
+          'can pass the last `createdAt` as `from`; bounds are inclusive, so that record ' +
+          'comes again. Requires `Authorization: Bearer <ADMIN_TOKEN>`.',
+        tags: ['admin'],
+        querystring: {
+          type: 'object',
+          properties: {
+            from: { type: 'string', format: 'date-time', description: 'Inclusive lower bound' },
+            to: { type: 'string', format: 'date-time', description: 'Exclusive upper bound' },
+            limit: {
+              type: 'integer',
+              minimum: 1,
+              maximum: MAX_EXPORT_LIMIT,
+              default: DEFAULT_EXPORT_LIMIT,
+            },
+            format: { type: 'string', enum: ['json', 'csv'], default: 'json' },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Querystring: ExportQuery }>, reply: FastifyReply) => {
+      if (!requireAdmin(request, reply)) return;
+
+      const { from, to, format } = request.query;
+      const limit = request.query.limit ?? DEFAULT_EXPORT_LIMIT;
+
+      try {
+        const rows = await app.db
+          .select({ feedback: analysisFeedback, analysis: outfitAnalyses })
+          .from(analysisFeedback)
+          .innerJoin(outfitAnalyses, eq(outfitAnalyses.id, analysisFeedback.analysisId))
+          .where(
+            and(
+              from ? gte(analysisFeedback.createdAt, new Date(from)) : undefined,
+              to ? lt(analysisFeedback.createdAt, new Date(to)) : undefined
+            )
+          )
+          .orderBy(asc(analysisFeedback.createdAt))
+          // One extra row tells whether the export was cut off
+          .limit(limit + 1);
+        const truncated = rows.length > limit;
+
+        const records: ExportRecord[] = rows.slice(0, limit).map(({ feedback, analysis }) => ({
+          feedbackId: feedback.id,
+          analysisId: feedback.analysisId,
+          createdAt: feedback.createdAt.toISOString(),
+          rating: feedback.rating,
+          predictedCategory: feedback.predictedCategory,
+          correctedCategory: feedback.correctedCategory,
+          comment: feedback.comment,
+          confidenceScore: analysis.confidenceScore,
+          promptVersion: analysis.promptVersion,
+          classificationModel: analysis.classificationModel,
+        }));
+
+        if (format === 'csv') {
+          return reply
+            .header('content-type', 'text/csv; charset=utf-8')
+            .header('content-disposition', 'attachment; filename="feedback.csv"')
+            .header('x-export-truncated', String(truncated))
+            .send(toCsv(records));
+        }
+
+        // A correction to a different category means the classifier got it wrong
+        const misclassified = records.filter(
+          (record) => record.correctedCategory && record.correctedCategory !== record.predictedCategory
+        ).length;
+
+        return {
+          items: records,
+          truncated,
+          summary: {
+            total: records.length,
+            thumbsUp: records.filter((record) => record.rating === 'up').length,
+            thumbsDown: records.filter((record) => record.rating === 'down').length,
+            misclassified,
+            categoryAccuracy: records.length > 0 ? 1 - misclassified / records.length : null,
+          },
+        };
+      } catch (error) {
+        app.logger.error(error, 'Error exporting feedback');
+        return reply.status(500).send({ error: 'Failed to export feedback' });
+      }
+    }
+  );
+}
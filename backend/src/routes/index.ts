@@ -0,0 +1,28 @@
+import * as outfitAnalysisRoutes from './outfit-analysis.js';
+import * as analysesRoutes from './analyses.js';
+import * as analysisJobRoutes from './analysis-jobs.js';
+import * as categoryRoutes from './categories.js';
+import * as occasionRoutes from './occasions.js';
+import * as feedbackRoutes from './feedback.js';
+import * as promptVersionRoutes from './prompt-versions.js';
+import * as wardrobeRoutes from './wardrobe.js';
+import * as outfitRoutes from './outfits.js';
+import * as plannerRoutes from './planner.js';
+import type { App } from '../index.js';
+
+/**
+ * Register every API route on the app's Fastify instance.
+ * Shared by the entry point and the integration test harness.
+ */
+export function registerRoutes(app: App) {
+  outfitAnalysisRoutes.register(app, app.fastify);
+  analysesRoutes.register(app, app.fastify);
+  analysisJobRoutes.register(app, app.fastify);
+  categoryRoutes.register(app, app.fastify);
+  occasionRoutes.register(app, app.fastify);
+  feedbackRoutes.register(app, app.fastify);
+  promptVersionRoutes.register(app, app.fastify);
+  wardrobeRoutes.register(app, app.fastify);
+  outfitRoutes.register(app, app.fastify);
+  plannerRoutes.register(app, app.fastify);
+}
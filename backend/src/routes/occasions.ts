@@ -0,0 +1,39 @@
+import type { FastifyInstance } from 'fastify';
+import { occasionCatalog } from '../services/occasions.js';
+import type { App } from '../index.js';
+
+const occasionResponseSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', description: 'Value to send as targetOccasion' },
+    label: { type: 'string', description: 'Display name' },
+    dressCode: { type: 'string', description: 'What the outfit is judged against' },
+    icon: { type: 'string', description: 'Material icon name' },
+  },
+  required: ['id', 'label', 'dressCode', 'icon'],
+} as const;
+
+export function register(app: App, fastify: FastifyInstance) {
+  fastify.get(
+    '/api/occasions',
+    {
+      schema: {
+        description: 'List the occasions an outfit can be rated against',
+        tags: ['occasions'],
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              items: { type: 'array', items: occasionResponseSchema },
+            },
+            required: ['items'],
+          },
+        },
+      },
+    },
+    async () => {
+      // The serializer drops prompt-only fields such as `suggestion`
+      return { items: occasionCatalog };
+    }
+  );
+}
@@ -0,0 +1,383 @@
+import assert from 'node:assert/strict';
+import { after, before, beforeEach, describe, it, mock } from 'node:test';
+import { eq } from 'drizzle-orm';
+import { outfitAnalyses } from '../db/schema.js';
+import { analysisResponseSchema } from '../utils/analyses.js';
+import { MAX_UPLOAD_BYTES } from '../utils/upload.js';
+import { encodeGradientPng } from '../utils/png.js';
+import {
+  assertMatchesSchema,
+  createTestApp,
+  multipartPayload,
+  TEST_OWNER_ID,
+  type TestApp,
+} from '../test/harness.js';
+
+const photo = encodeGradientPng(8, 8, [20, 40, 60], [200, 180, 160]);
+
+function analyze(testApp: TestApp, parts: Parameters<typeof multipartPayload>[0]) {
+  const { payload, headers } = multipartPayload(parts);
+  return testApp.fastify.inject({
+    method: 'POST',
+    url: '/api/analyze-outfit',
+    headers: { ...headers, 'x-device-id': TEST_OWNER_ID },
+    payload,
+  });
+}
+
+describe('POST /api/analyze-outfit', () => {
+  let testApp: TestApp;
+
+  before(async () => {
+    testApp = await createTestApp();
+  });
+
+  after(async () => {
+    await testApp.close();
+  });
+
+  beforeEach(() => {
+    testApp.resetModels();
+  });
+
+  it('returns 400 when no file is uploaded', async () => {
+    const response = await analyze(testApp, [{ name: 'note', value: 'no photo here' }]);
+
+    assert.equal(response.statusCode, 400);
+    assert.deepEqual(response.json(), { error: 'No file provided' });
+  });
+
+  it('returns 413 when the file exceeds the upload limit', async () => {
+    const response = await analyze(testApp, [
+      {
+        name: 'image',
+        filename: 'huge.png',
+        contentType: 'image/png',
+        data: Buffer.alloc(MAX_UPLOAD_BYTES + 1),
+      },
+    ]);
+
+    assert.equal(response.statusCode, 413);
+    assert.deepEqual(response.json(), { error: 'File size limit exceeded (max 10MB)' });
+  });
+
+  it('returns 500 and keeps no photo when the model call fails', async () => {
+    testApp.models.failure = new Error('model unavailable');
+    const storedKeys = [...testApp.storage.keys()];
+
+    const response = await analyze(testApp, [
+      { name: 'image', filename: 'outfit.png', contentType: 'image/png', data: photo },
+    ]);
+
+    assert.equal(response.statusCode, 500);
+    assert.deepEqual(response.json(), { error: 'Failed to analyze outfit image' });
+    assert.deepEqual([...testApp.storage.keys()], storedKeys);
+  });
+
+  it('keeps neither the photo nor the suggestion when saving the analysis fails', async () => {
+    const storedKeys = [...testApp.storage.keys()];
+    const insert = mock.method(testApp.app.db, 'insert', () => {
+      throw new Error('database unavailable');
+    });
+
+    try {
+      const response = await analyze(testApp, [
+        { name: 'image', filename: 'outfit.png', contentType: 'image/png', data: photo },
+      ]);
+
+      assert.equal(response.statusCode, 500);
+      assert.equal(testApp.models.calls.generation, 1);
+      assert.deepEqual([...testApp.storage.keys()], storedKeys);
+    } finally {
+      insert.mock.restore();
+    }
+  });
+
+  it('stores the photo, suggestion and analysis on success', async () => {
+    const response = await analyze(testApp, [
+      { name: 'image', filename: 'outfit.png', contentType: 'image/png', data: photo },
+    ]);
+
+    assert.equal(response.statusCode, 200);
+    const body = response.json();
+    assert.equal(body.category, 'Casual');
+    assert.equal(body.primaryCategory, 'Casual');
+    assert.equal(body.scores.Casual, 0.8);
+    assert.equal(body.scores.Sport, 0.55);
+    assert.deepEqual(
+      body.garments.map((garment: { type: string }) => garment.type),
+      ['jacket', 'sneakers']
+    );
+    assert.equal(body.garments[1].boundingBox.height, 0.15);
+    // Most important first, garment names normalised
+    assert.deepEqual(
+      body.tips.map((tip: { garment: string; priority: string }) => [tip.garment, tip.priority]),
+      [
+        ['sneakers', 'high'],
+        ['watch', 'low'],
+      ]
+    );
+    assert.ok(body.palette.colors.length > 0);
+    assert.match(body.palette.colors[0].hex, /^#[0-9a-f]{6}$/);
+    assert.equal(body.confidence, 'High');
+    assert.equal(body.confidenceScore, 0.9);
+    assert.equal(body.lowConfidence, false);
+    assert.equal(body.originalImageUrl, `https://storage.test/outfit-uploads/${body.id}.png`);
+    assert.match(
+      body.suggestionImageUrl,
+      /^https:\/\/storage\.test\/outfit-suggestions\/\d+-[0-9a-f-]{36}-casual\.png$/
+    );
+    assert.deepEqual(body.suggestionImages, [
+      { url: body.suggestionImageUrl, direction: null, instruction: null, favorite: false },
+    ]);
+
+    assert.deepEqual(testApp.storage.get(`outfit-uploads/${body.id}.png`), photo);
+
+    const [row] = await testApp.app.db
+      .select()
+      .from(outfitAnalyses)
+      .where(eq(outfitAnalyses.id, body.id));
+    assert.equal(row.ownerId, TEST_OWNER_ID);
+    assert.equal(row.classificationModel, 'stub:classifier');
+    assert.equal(row.generationModel, 'stub:image');
+  });
+
+  it('edits the user\'s photo, keeping untouched garments and applying the tips', async () => {
+    const response = await analyze(testApp, [
+      { name: 'image', filename: 'outfit.png', contentType: 'image/png', data: photo },
+    ]);
+
+    assert.equal(response.statusCode, 200);
+    const [request] = testApp.models.generationRequests;
+    assert.deepEqual(request.referenceImage, photo);
+    assert.match(request.prompt, /Keep these items exactly as they are: blue jacket\./);
+    assert.match(request.prompt, /- Swap the white sneakers for suede desert boots/);
+  });
+
+  it('falls back to a generic suggestion when no garments were detected', async () => {
+    testApp.models.analysis.garments = [];
+
+    const response = await analyze(testApp, [
+      { name: 'image', filename: 'outfit.png', contentType: 'image/png', data: photo },
+    ]);
+
+    assert.equal(response.statusCode, 200);
+    const [request] = testApp.models.generationRequests;
+    assert.equal(request.referenceImage, undefined);
+    assert.match(request.prompt, /^Generate a high-quality fashion illustration/);
+  });
+
+  it('rates the outfit against a target occasion', async () => {
+    const response = await analyze(testApp, [
+      { name: 'targetOccasion', value: 'JobInterview' },
+      { name: 'image', filename: 'outfit.png', contentType: 'image/png', data: photo },
+    ]);
+
+    assert.equal(response.statusCode, 200);
+    const body = response.json();
+    assert.equal(body.targetOccasion, 'JobInterview');
+    assert.deepEqual(body.occasionMatch, {
+      occasion: 'JobInterview',
+      label: 'Job Interview',
+      score: 42,
+      gaps: ['No tailored jacket'],
+    });
+    assert.match(
+      body.suggestionImageUrl,
+      /^https:\/\/storage\.test\/outfit-suggestions\/\d+-[0-9a-f-]{36}-jobinterview\.png$/
+    );
+  });
+
+  it('leaves the occasion match and weather empty without options', async () => {
+    const response = await analyze(testApp, [
+      { name: 'image', filename: 'outfit.png', contentType: 'image/png', data: photo },
+    ]);
+
+    assert.equal(response.statusCode, 200);
+    const body = response.json();
+    assert.equal(body.targetOccasion, null);
+    assert.equal(body.occasionMatch, null);
+    assert.equal(body.weather, null);
+  });
+
+  it('returns 400 for an unknown target occasion', async () => {
+    const response = await analyze(testApp, [
+      { name: 'targetOccasion', value: 'Moon landing' },
+      { name: 'image', filename: 'outfit.png', contentType: 'image/png', data: photo },
+    ]);
+
+    assert.equal(response.statusCode, 400);
+    assert.match(response.json().error, /^Unknown targetOccasion/);
+    assert.equal(testApp.models.calls.classification, 0);
+  });
+
+  it('checks the outfit against looked-up weather, preferring typed-in values', async () => {
+    const response = await analyze(testApp, [
+      { name: 'location', value: 'Oslo' },
+      { name: 'temperature', value: '2' },
+      { name: 'image', filename: 'outfit.png', contentType: 'image/png', data: photo },
+    ]);
+
+    assert.equal(response.statusCode, 200);
+    assert.deepEqual(response.json().weather, {
+      location: 'Oslo, Norway',
+      temperatureC: 2,
+      precipitation: 'snow',
+      windKph: 12,
+      warnings: ['Sneakers are not made for snow; wear boots'],
+    });
+  });
+
+  it('returns 400 for an unknown location or invalid conditions', async () => {
+    const unknownLocation = await analyze(testApp, [
+      { name: 'location', value: 'Atlantis' },
+      { name: 'image', filename: 'outfit.png', contentType: 'image/png', data: photo },
+    ]);
+    assert.equal(unknownLocation.statusCode, 400);
+    assert.deepEqual(unknownLocation.json(), { error: 'Unknown location: Atlantis' });
+
+    const invalidTemperature = await analyze(testApp, [
+      { name: 'temperature', value: 'freezing' },
+      { name: 'image', filename: 'outfit.png', contentType: 'image/png', data: photo },
+    ]);
+    assert.equal(invalidTemperature.statusCode, 400);
+    assert.equal(testApp.models.calls.classification, 0);
+  });
+
+  it('generates one suggestion per styling direction and lets the user favourite one', async () => {
+    const response = await analyze(testApp, [
+      { name: 'variants', value: '3' },
+      { name: 'image', filename: 'outfit.png', contentType: 'image/png', data: photo },
+    ]);
+
+    assert.equal(response.statusCode, 200);
+    const body = response.json();
+    assert.equal(testApp.models.calls.generation, 3);
+    assert.deepEqual(
+      body.suggestionImages.map((image: { direction: string }) => image.direction),
+      ['minimal', 'bold', 'budget']
+    );
+    assert.match(body.suggestionImages[1].url, /-casual-bold\.png$/);
+    assert.equal(body.suggestionImageUrl, body.suggestionImages[0].url);
+
+    const favorite = await testApp.fastify.inject({
+      method: 'PATCH',
+      url: `/api/analyses/${body.id}`,
+      headers: { 'x-device-id': TEST_OWNER_ID },
+      payload: { favoriteSuggestion: 2 },
+    });
+    assert.equal(favorite.statusCode, 200);
+    assert.deepEqual(
+      favorite.json().suggestionImages.map((image: { favorite: boolean }) => image.favorite),
+      [false, false, true]
+    );
+    assert.equal(favorite.json().suggestionImageUrl, body.suggestionImages[2].url);
+
+    const outOfRange = await testApp.fastify.inject({
+      method: 'PATCH',
+      url: `/api/analyses/${body.id}`,
+      headers: { 'x-device-id': TEST_OWNER_ID },
+      payload: { favoriteSuggestion: 3 },
+    });
+    assert.equal(outOfRange.statusCode, 400);
+  });
+
+  it('returns 400 for an invalid number of variants', async () => {
+    const response = await analyze(testApp, [
+      { name: 'variants', value: '5' },
+      { name: 'image', filename: 'outfit.png', contentType: 'image/png', data: photo },
+    ]);
+
+    assert.equal(response.statusCode, 400);
+    assert.deepEqual(response.json(), { error: 'variants must be a whole number from 1 to 4' });
+  });
+
+  it('flags low-confidence results', async () => {
+    testApp.models.analysis.confidence = 0.3;
+
+    const response = await analyze(testApp, [
+      { name: 'image', filename: 'outfit.png', contentType: 'image/png', data: photo },
+    ]);
+
+    assert.equal(response.statusCode, 200);
+    const body = response.json();
+    assert.equal(body.confidence, 'Low');
+    assert.equal(body.lowConfidence, true);
+  });
+
+  it('responds with the declared response schema', async () => {
+    const response = await analyze(testApp, [
+      { name: 'image', filename: 'outfit.png', contentType: 'image/png', data: photo },
+    ]);
+
+    assert.equal(response.statusCode, 200);
+    assertMatchesSchema(response.json(), analysisResponseSchema);
+  });
+});
+
+describe('POST /api/analyze-outfit/stream', () => {
+  let testApp: TestApp;
+
+  async function analyzeStreamed() {
+    const { payload, headers } = multipartPayload([
+      { name: 'image', filename: 'outfit.png', contentType: 'image/png', data: photo },
+    ]);
+    const response = await testApp.fastify.inject({
+      method: 'POST',
+      url: '/api/analyze-outfit/stream',
+      headers: { ...headers, 'x-device-id': TEST_OWNER_ID },
+      payload,
+    });
+    assert.equal(response.statusCode, 200);
+    assert.match(response.headers['content-type'] as string, /^text\/event-stream/);
+
+    return response.body
+      .trim()
+      .split('\n\n')
+      .map((block) => {
+        const [event, data] = block.split('\n');
+        return { event: event.replace('event: ', ''), data: JSON.parse(data.replace('data: ', '')) };
+      });
+  }
+
+  before(async () => {
+    testApp = await createTestApp();
+  });
+
+  after(async () => {
+    await testApp.close();
+  });
+
+  beforeEach(() => {
+    testApp.resetModels();
+  });
+
+  it('announces the analysis id, then streams the classification, image and stored result', async () => {
+    const events = await analyzeStreamed();
+
+    assert.deepEqual(
+      events.map(({ event }) => event),
+      ['accepted', 'classification', 'suggestion_image', 'done']
+    );
+    const { analysisId } = events[0].data;
+    assert.equal(events[1].data.id, analysisId);
+    assert.equal(events[1].data.category, 'Casual');
+    assert.equal(events[3].data.id, analysisId);
+    assert.equal(events[3].data.suggestionImageUrl, events[2].data.suggestionImageUrl);
+    assertMatchesSchema(events[3].data, analysisResponseSchema);
+  });
+
+  it('ends with an error event and keeps no photo when the model call fails', async () => {
+    testApp.models.failure = new Error('model unavailable');
+    const storedKeys = [...testApp.storage.keys()];
+
+    const events = await analyzeStreamed();
+
+    assert.deepEqual(
+      events.map(({ event }) => event),
+      ['accepted', 'error']
+    );
+    assert.deepEqual(events[1].data, { error: 'Failed to analyze outfit image' });
+    assert.deepEqual([...testApp.storage.keys()], storedKeys);
+  });
+});
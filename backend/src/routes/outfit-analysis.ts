@@ -1,164 +1,192 @@
 import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
-import { gateway } from '@specific-dev/framework';
-import { generateObject, generateText } from 'ai';
-import { z } from 'zod';
+import { randomUUID } from 'node:crypto';
+import {
+  classifyOutfit,
+  discardStoredImages,
+  generateSuggestionImages,
+  saveAnalysis,
+  storeOriginalImage,
+} from '../services/outfit-analysis.js';
+import { confidenceLabel, isLowConfidence } from '../services/confidence.js';
+import { extractPalette } from '../services/palette.js';
+import { assignPromptVersion } from '../prompts/registry.js';
+import { requireOwnerId } from '../utils/owner.js';
+import { readImageUpload } from '../utils/upload.js';
+import { analysisOptionsDescription, parseAnalysisOptions } from '../utils/analysis-options.js';
+import { openEventStream } from '../utils/sse.js';
+import {
+  analysisResponseSchema,
+  signedUrlOrEmpty,
+  toAnalysisResponse,
+  toOccasionMatchResponse,
+  type AnalysisResponse,
+} from '../utils/analyses.js';
 import type { App } from '../index.js';
 
-// Schema for the outfit analysis response
-const outfitAnalysisSchema = z.object({
-  category: z.enum(['Sport', 'Casual', 'Professional', 'Chill']),
-  explanation: z.string(),
-  confidence: z.string(),
-});
-
-type OutfitAnalysis = z.infer<typeof outfitAnalysisSchema>;
-
-// Schema for outfit suggestion response
-const outfitSuggestionResponseSchema = z.object({
-  category: z.string(),
-  explanation: z.string(),
-  confidence: z.string(),
-  suggestionImageUrl: z.string(),
-});
-
 export function register(app: App, fastify: FastifyInstance) {
-  fastify.post<{ Reply: z.infer<typeof outfitSuggestionResponseSchema> }>(
+  fastify.post<{ Reply: AnalysisResponse }>(
     '/api/analyze-outfit',
     {
       schema: {
-        description: 'Analyze an outfit image and generate a suggestion outfit',
+        description:
+          'Analyze an outfit image and generate a suggestion outfit. ' + analysisOptionsDescription,
         tags: ['outfit-analysis'],
         response: {
-          200: {
-            type: 'object',
-            properties: {
-              category: {
-                type: 'string',
-                enum: ['Sport', 'Casual', 'Professional', 'Chill'],
-                description: 'The category of the outfit',
-              },
-              explanation: {
-                type: 'string',
-                description: 'Brief explanation of the categorization (2-3 sentences)',
-              },
-              confidence: {
-                type: 'string',
-                description: 'Confidence level of the analysis',
-              },
-              suggestionImageUrl: {
-                type: 'string',
-                description: 'URL to the generated outfit suggestion image',
-              },
-            },
-            required: ['category', 'explanation', 'confidence', 'suggestionImageUrl'],
-          },
+          200: analysisResponseSchema,
         },
       },
     },
     async (request: FastifyRequest, reply: FastifyReply) => {
+      const ownerId = requireOwnerId(request, reply);
+      if (!ownerId) return;
+
+      // Stored images no saved analysis refers to yet; removed if the analysis fails
+      let unsavedKeys: string[] = [];
       try {
-        // Get the uploaded file with size limit
-        const data = await request.file({ limits: { fileSize: 10 * 1024 * 1024 } }); // 10MB limit
-        if (!data) {
-          return reply.status(400).send({ error: 'No file provided' });
-        }
+        const upload = await readImageUpload(request, reply);
+        if (!upload) return;
+        const options = await parseAnalysisOptions(app, upload, reply);
+        if (!options) return;
 
-        // Convert file to buffer
-        let buffer: Buffer;
-        try {
-          buffer = await data.toBuffer();
-        } catch (err) {
-          return reply
-            .status(413)
-            .send({ error: 'File size limit exceeded (max 10MB)' });
-        }
+        const analysisId = randomUUID();
+        const imageKey = await storeOriginalImage(app, analysisId, upload.buffer, upload.mimetype);
+        unsavedKeys = [imageKey];
 
-        // Convert buffer to base64
-        const base64 = buffer.toString('base64');
+        // Analyze the outfit, then generate a suggestion image for its category
+        // (or for the target occasion)
+        // The palette is pure image processing, so it runs alongside the model call
+        const promptVersion = assignPromptVersion(ownerId);
+        const [{ analysis, model: classificationModel }, palette] = await Promise.all([
+          classifyOutfit(app, upload.buffer, options, promptVersion),
+          extractPalette(upload.buffer),
+        ]);
+        const { images: suggestionImages, model: generationModel } =
+          await generateSuggestionImages(app, analysis, upload.buffer, options);
+        unsavedKeys.push(...suggestionImages.map((image) => image.key));
 
-        // Analyze the outfit using GPT-5.2 vision
-        const { object } = await generateObject({
-          model: gateway('openai/gpt-5.2'),
-          schema: outfitAnalysisSchema,
-          schemaName: 'OutfitAnalysis',
-          schemaDescription:
-            'Outfit analysis with category, explanation, and confidence level',
-          messages: [
-            {
-              role: 'user',
-              content: [
-                {
-                  type: 'image',
-                  image: base64,
-                },
-                {
-                  type: 'text',
-                  text: `Analyze this outfit photo and categorize it into one of these categories: Sport, Casual, Professional, or Chill.
+        const row = await saveAnalysis(app, {
+          id: analysisId,
+          ownerId,
+          imageKey,
+          analysis,
+          targetOccasion: options.targetOccasion,
+          palette,
+          suggestionImages,
+          promptVersion,
+          classificationModel,
+          generationModel,
+        });
+        unsavedKeys = [];
 
-Provide:
-1. category: One of "Sport", "Casual", "Professional", or "Chill"
-2. explanation: A 2-3 sentence explanation focusing on style, formality, and use case
-3. confidence: Your confidence level in this categorization (e.g., "High", "Medium", "Low")
+        // Return the combined response
+        return toAnalysisResponse(app, row);
+      } catch (error) {
+        app.logger.error(error, 'Error analyzing outfit');
+        await discardStoredImages(app, unsavedKeys);
+        return reply
+          .status(500)
+          .send({ error: 'Failed to analyze outfit image' });
+      }
+    }
+  );
 
-Consider the following:
-- Sport: Athletic wear, gym clothes, sports equipment visible
-- Casual: Comfortable everyday wear, jeans, t-shirts, sneakers
-- Professional: Business attire, formal wear, work-appropriate
-- Chill: Relaxed, comfortable home wear, loungewear, laid-back style`,
-                },
-              ],
-            },
-          ],
-        });
+  fastify.post(
+    '/api/analyze-outfit/stream',
+    {
+      schema: {
+        description:
+          'Analyze an outfit image and stream progress as Server-Sent Events: ' +
+          '`accepted` with the `analysisId` the result will be stored under once the photo ' +
+          'is stored, `classification` once the category is known, `suggestion_image` as each ' +
+          'generated image is stored, then `done` with the full analysis (or `error`). ' +
+          analysisOptionsDescription,
+        tags: ['outfit-analysis'],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const ownerId = requireOwnerId(request, reply);
+      if (!ownerId) return;
 
-        // Generate outfit suggestion image based on category
-        const categoryDescriptions: Record<string, string> = {
-          Sport: 'athletic wear with performance fabrics, sneakers, and sport accessories for active activities',
-          Casual: 'comfortable everyday outfit with jeans or casual pants, t-shirt or casual top, and comfortable sneakers',
-          Professional: 'business suit or formal dress with polished shoes, subtle accessories, and a clean, professional appearance',
-          Chill: 'relaxed and comfortable loungewear outfit, cozy layers, and casual house shoes for relaxing at home',
-        };
+      let upload;
+      let options;
+      try {
+        upload = await readImageUpload(request, reply);
+        if (!upload) return;
+        options = await parseAnalysisOptions(app, upload, reply);
+        if (!options) return;
+      } catch (error) {
+        app.logger.error(error, 'Error reading outfit upload');
+        return reply.status(500).send({ error: 'Failed to analyze outfit image' });
+      }
 
-        const suggestionPrompt = `Generate a high-quality fashion illustration of a complete outfit styled for the "${object.category}" category.
-The outfit should showcase typical pieces and styling for this category: ${categoryDescriptions[object.category as keyof typeof categoryDescriptions]}.
-Create a detailed, professional-looking outfit illustration with a person wearing the suggested clothing.`;
+      // Validation errors above are plain JSON; from here on everything is an event
+      const stream = openEventStream(reply);
 
-        const generationResult = await generateText({
-          model: gateway('google/gemini-2.5-flash-image'),
-          prompt: suggestionPrompt,
+      // The pipeline runs to completion even if the client disconnects,
+      // so the analysis still lands in the history
+      let unsavedKeys: string[] = [];
+      try {
+        const analysisId = randomUUID();
+        const imageKey = await storeOriginalImage(app, analysisId, upload.buffer, upload.mimetype);
+        unsavedKeys = [imageKey];
+        // From here on a client that loses the connection can poll for the result
+        stream.send('accepted', { analysisId });
+
+        const promptVersion = assignPromptVersion(ownerId);
+        const [{ analysis, model: classificationModel }, palette] = await Promise.all([
+          classifyOutfit(app, upload.buffer, options, promptVersion),
+          extractPalette(upload.buffer),
+        ]);
+        stream.send('classification', {
+          id: analysisId,
+          category: analysis.category,
+          primaryCategory: analysis.category,
+          scores: analysis.scores,
+          garments: analysis.garments,
+          tips: analysis.tips,
+          palette,
+          explanation: analysis.explanation,
+          confidence: confidenceLabel(analysis.confidence),
+          confidenceScore: analysis.confidence,
+          lowConfidence: isLowConfidence(analysis.confidence),
+          targetOccasion: options.targetOccasion,
+          occasionMatch: toOccasionMatchResponse(options.targetOccasion, analysis.occasionMatch),
+          weather: analysis.weather,
+          originalImageUrl: await signedUrlOrEmpty(app, imageKey),
         });
 
-        // Extract the first image from the generation result
-        let suggestionImageUrl = '';
-        if (generationResult.files && generationResult.files.length > 0) {
-          const imageFile = generationResult.files.find(f =>
-            f.mediaType?.startsWith('image/')
-          );
-          if (imageFile && imageFile.uint8Array) {
-            // Convert image to buffer
-            const imageBuffer = Buffer.from(imageFile.uint8Array);
-            // Upload to storage
-            const timestamp = Date.now();
-            const storageKey = `outfit-suggestions/${timestamp}-${object.category.toLowerCase()}.png`;
-            await app.storage.upload(storageKey, imageBuffer);
-            // Generate signed URL
-            const { url } = await app.storage.getSignedUrl(storageKey);
-            suggestionImageUrl = url;
-          }
-        }
+        // One event per variant, in the order they finish
+        const { images: suggestionImages, model: generationModel } =
+          await generateSuggestionImages(app, analysis, upload.buffer, options, {
+            onImage: async (image) => {
+              stream.send('suggestion_image', {
+                suggestionImageUrl: await signedUrlOrEmpty(app, image.key),
+                direction: image.direction,
+              });
+            },
+          });
+        unsavedKeys.push(...suggestionImages.map((image) => image.key));
 
-        // Return the combined response
-        return {
-          category: object.category,
-          explanation: object.explanation,
-          confidence: object.confidence,
-          suggestionImageUrl,
-        };
+        const row = await saveAnalysis(app, {
+          id: analysisId,
+          ownerId,
+          imageKey,
+          analysis,
+          targetOccasion: options.targetOccasion,
+          palette,
+          suggestionImages,
+          promptVersion,
+          classificationModel,
+          generationModel,
+        });
+        unsavedKeys = [];
+        stream.send('done', await toAnalysisResponse(app, row));
       } catch (error) {
-        app.logger.error(error, 'Error analyzing outfit');
-        return reply
-          .status(500)
-          .send({ error: 'Failed to analyze outfit image' });
+        app.logger.error(error, 'Error streaming outfit analysis');
+        await discardStoredImages(app, unsavedKeys);
+        stream.send('error', { error: 'Failed to analyze outfit image' });
+      } finally {
+        stream.close();
       }
     }
   );
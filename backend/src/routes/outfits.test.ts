@@ -0,0 +1,165 @@
+import assert from 'node:assert/strict';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import { encodeGradientPng } from '../utils/png.js';
+import { outfitResponseSchema } from '../utils/outfits.js';
+import {
+  assertMatchesSchema,
+  createTestApp,
+  multipartPayload,
+  TEST_OWNER_ID,
+  type TestApp,
+} from '../test/harness.js';
+
+const photo = encodeGradientPng(40, 60, [30, 30, 90], [220, 220, 240]);
+
+async function addItem(testApp: TestApp, type: string, colors: string): Promise<string> {
+  const { payload, headers } = multipartPayload([
+    { name: 'type', value: type },
+    { name: 'colors', value: colors },
+    { name: 'image', filename: 'item.png', contentType: 'image/png', data: photo },
+  ]);
+  const response = await testApp.fastify.inject({
+    method: 'POST',
+    url: '/api/wardrobe',
+    headers: { ...headers, 'x-device-id': TEST_OWNER_ID },
+    payload,
+  });
+  assert.equal(response.statusCode, 201);
+  return response.json().id;
+}
+
+function propose(testApp: TestApp, payload: Record<string, unknown>, deviceId = TEST_OWNER_ID) {
+  return testApp.fastify.inject({
+    method: 'POST',
+    url: '/api/outfits/proposals',
+    headers: { 'x-device-id': deviceId },
+    payload,
+  });
+}
+
+describe('outfits', () => {
+  let testApp: TestApp;
+  const ids: Record<string, string> = {};
+
+  before(async () => {
+    testApp = await createTestApp();
+    for (const [type, colors] of [
+      ['t-shirt', 'white'],
+      ['jeans', 'blue'],
+      ['dress shirt', 'white'],
+      ['slacks', 'grey'],
+      ['oxfords', 'black'],
+    ]) {
+      ids[type] = await addItem(testApp, type, colors);
+    }
+  });
+
+  after(async () => {
+    await testApp.close();
+  });
+
+  beforeEach(() => {
+    testApp.resetModels();
+  });
+
+  it('saves outfits in order and drops deleted wardrobe items from them', async () => {
+    const headers = { 'x-device-id': TEST_OWNER_ID };
+
+    const created = await testApp.fastify.inject({
+      method: 'POST',
+      url: '/api/outfits',
+      headers,
+      payload: { name: ' Friday ', category: 'Casual', itemIds: [ids['jeans'], ids['t-shirt']] },
+    });
+    assert.equal(created.statusCode, 201);
+    const outfit = created.json();
+    assertMatchesSchema(outfit, outfitResponseSchema);
+    assert.equal(outfit.name, 'Friday');
+    assert.deepEqual(outfit.items.map((item: { type: string }) => item.type), ['jeans', 't-shirt']);
+
+    const unknown = await testApp.fastify.inject({
+      method: 'PATCH',
+      url: `/api/outfits/${outfit.id}`,
+      headers,
+      payload: { itemIds: [ids['jeans'], '00000000-0000-4000-8000-000000000000'] },
+    });
+    assert.equal(unknown.statusCode, 400);
+
+    const updated = await testApp.fastify.inject({
+      method: 'PATCH',
+      url: `/api/outfits/${outfit.id}`,
+      headers,
+      payload: { itemIds: [ids['t-shirt'], ids['jeans'], ids['oxfords']] },
+    });
+    assert.equal(updated.statusCode, 200);
+    assert.equal(updated.json().name, 'Friday');
+
+    const deleted = await testApp.fastify.inject({
+      method: 'DELETE',
+      url: `/api/wardrobe/${ids['oxfords']}`,
+      headers,
+    });
+    assert.equal(deleted.statusCode, 204);
+    delete ids['oxfords'];
+
+    const list = await testApp.fastify.inject({ method: 'GET', url: '/api/outfits', headers });
+    assert.deepEqual(
+      list.json().items.map((entry: { items: { type: string }[] }) => entry.items.map((item) => item.type)),
+      [['t-shirt', 'jeans']]
+    );
+
+    const otherDevice = await testApp.fastify.inject({
+      method: 'GET',
+      url: `/api/outfits/${outfit.id}`,
+      headers: { 'x-device-id': 'test-device-0002' },
+    });
+    assert.equal(otherDevice.statusCode, 404);
+  });
+
+  it('proposes outfits for an occasion and reports missing garments', async () => {
+    const response = await propose(testApp, { occasion: 'JobInterview', count: 2 });
+    assert.equal(response.statusCode, 200);
+    const body = response.json();
+    assert.deepEqual(body.missing, ['shoes']);
+    assert.equal(body.rankedBy, null);
+    assert.deepEqual(body.proposals[0].items.map((item: { type: string }) => item.type), [
+      'dress shirt',
+      'slacks',
+    ]);
+    assert.ok(body.proposals[0].score > body.proposals[1].score);
+    assert.equal(testApp.models.calls.text, 0);
+
+    const empty = await propose(testApp, { category: 'Sport' }, 'test-device-0002');
+    assert.deepEqual(empty.json(), { proposals: [], missing: ['top', 'bottom', 'shoes'], rankedBy: null });
+
+    assert.equal((await propose(testApp, { season: 'summer' })).statusCode, 400);
+  });
+
+  it('re-ranks proposals with a model and keeps the rule order when it fails', async () => {
+    const ruleBased = (await propose(testApp, { occasion: 'JobInterview', count: 2 })).json();
+
+    testApp.models.text = { ranking: [{ candidate: 2, reason: 'Softer for a creative role' }] };
+    const ranked = (await propose(testApp, { occasion: 'JobInterview', count: 1, rerank: true })).json();
+    assert.equal(ranked.rankedBy, 'stub:ranker');
+    assert.deepEqual(ranked.proposals[0].items, ruleBased.proposals[1].items);
+    assert.equal(ranked.proposals[0].rankingReason, 'Softer for a creative role');
+
+    testApp.models.failure = new Error('ranker down');
+    const fallback = (await propose(testApp, { occasion: 'JobInterview', count: 1, rerank: true })).json();
+    assert.equal(fallback.rankedBy, null);
+    assert.deepEqual(fallback.proposals[0].items, ruleBased.proposals[0].items);
+    assert.equal(fallback.proposals[0].rankingReason, null);
+  });
+
+  it('returns 400 for a malformed cursor', async () => {
+    const cursor = Buffer.from('2024-01-01T00:00:00.000Z|not-a-uuid').toString('base64url');
+
+    const response = await testApp.fastify.inject({
+      method: 'GET',
+      url: `/api/outfits?cursor=${cursor}`,
+      headers: { 'x-device-id': TEST_OWNER_ID },
+    });
+
+    assert.equal(response.statusCode, 400);
+  });
+});
@@ -0,0 +1,459 @@
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { and, arrayContains, desc, eq, lt, or } from 'drizzle-orm';
+import { outfitItems, outfits, wardrobeItems, wardrobeSeasons } from '../db/schema.js';
+import { getCategoryDefinition, outfitCategoryIds } from '../services/categories.js';
+import { getOccasionDefinition, occasionIds } from '../services/occasions.js';
+import {
+  garmentSlots,
+  proposeOutfits,
+  rankProposals,
+  type OutfitTarget,
+} from '../services/outfit-builder.js';
+import { requireOwnerId } from '../utils/owner.js';
+import { decodeCursor, encodeCursor } from '../utils/analyses.js';
+import {
+  loadOutfitItems,
+  outfitInputProperties,
+  outfitResponseSchema,
+  ownsWardrobeItems,
+  toOutfitResponse,
+  type OutfitInput,
+} from '../utils/outfits.js';
+import { toWardrobeItemResponse, wardrobeItemResponseSchema, type WardrobeSeason } from '../utils/wardrobe.js';
+import type { App } from '../index.js';
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 50;
+const DEFAULT_PROPOSALS = 5;
+const MAX_PROPOSALS = 10;
+
+interface ListQuery {
+  cursor?: string;
+  limit?: number;
+}
+
+interface ProposalBody {
+  category?: string;
+  occasion?: string;
+  season?: WardrobeSeason;
+  count?: number;
+  rerank?: boolean;
+}
+
+const idParamsSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', format: 'uuid' },
+  },
+  required: ['id'],
+} as const;
+
+function resolveTarget({ category, occasion }: ProposalBody): OutfitTarget {
+  const occasionDefinition = occasion ? getOccasionDefinition(occasion) : undefined;
+  if (occasionDefinition) {
+    return {
+      label: `a ${occasionDefinition.label.toLowerCase()}`,
+      description: occasionDefinition.dressCode,
+      formality: occasionDefinition.formality,
+    };
+  }
+  // The body schema guarantees one of the two known ids
+  const categoryDefinition = getCategoryDefinition(category!)!;
+  return {
+    label: `a ${categoryDefinition.label.toLowerCase()} look`,
+    description: categoryDefinition.description,
+    formality: categoryDefinition.formality,
+  };
+}
+
+export function register(app: App, fastify: FastifyInstance) {
+  fastify.get<{ Querystring: ListQuery }>(
+    '/api/outfits',
+    {
+      schema: {
+        description: 'List the saved outfits of the current device, newest first',
+        tags: ['outfits'],
+        querystring: {
+          type: 'object',
+          properties: {
+            cursor: { type: 'string', description: 'Opaque cursor from a previous page' },
+            limit: {
+              type: 'integer',
+              minimum: 1,
+              maximum: MAX_PAGE_SIZE,
+              default: DEFAULT_PAGE_SIZE,
+            },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              items: { type: 'array', items: outfitResponseSchema },
+              nextCursor: {
+                type: ['string', 'null'],
+                description: 'Cursor for the next page, or null when there are no more results',
+              },
+            },
+            required: ['items', 'nextCursor'],
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Querystring: ListQuery }>, reply: FastifyReply) => {
+      const ownerId = requireOwnerId(request, reply);
+      if (!ownerId) return;
+
+      const limit = request.query.limit ?? DEFAULT_PAGE_SIZE;
+
+      let cursor: { createdAt: Date; id: string } | null = null;
+      if (request.query.cursor) {
+        cursor = decodeCursor(request.query.cursor);
+        if (!cursor) {
+          return reply.status(400).send({ error: 'Invalid cursor' });
+        }
+      }
+
+      try {
+        // Fetch one extra row to know whether another page exists
+        const rows = await app.db
+          .select()
+          .from(outfits)
+          .where(
+            and(
+              eq(outfits.ownerId, ownerId),
+              cursor
+                ? or(
+                    lt(outfits.createdAt, cursor.createdAt),
+                    and(eq(outfits.createdAt, cursor.createdAt), lt(outfits.id, cursor.id))
+                  )
+                : undefined
+            )
+          )
+          .orderBy(desc(outfits.createdAt), desc(outfits.id))
+          .limit(limit + 1);
+
+        const page = rows.slice(0, limit);
+        const nextCursor = rows.length > limit ? encodeCursor(page[page.length - 1]) : null;
+        const items = await loadOutfitItems(app, page.map((row) => row.id));
+
+        return {
+          items: await Promise.all(page.map((row) => toOutfitResponse(app, row, items.get(row.id)!))),
+          nextCursor,
+        };
+      } catch (error) {
+        app.logger.error(error, 'Error listing outfits');
+        return reply.status(500).send({ error: 'Failed to list outfits' });
+      }
+    }
+  );
+
+  fastify.get<{ Params: { id: string } }>(
+    '/api/outfits/:id',
+    {
+      schema: {
+        description: 'Get a single saved outfit with its items',
+        tags: ['outfits'],
+        params: idParamsSchema,
+        response: {
+          200: outfitResponseSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+      const ownerId = requireOwnerId(request, reply);
+      if (!ownerId) return;
+
+      try {
+        const [row] = await app.db
+          .select()
+          .from(outfits)
+          .where(and(eq(outfits.id, request.params.id), eq(outfits.ownerId, ownerId)));
+
+        if (!row) {
+          return reply.status(404).send({ error: 'Outfit not found' });
+        }
+
+        const items = await loadOutfitItems(app, [row.id]);
+        return toOutfitResponse(app, row, items.get(row.id)!);
+      } catch (error) {
+        app.logger.error(error, 'Error fetching outfit');
+        return reply.status(500).send({ error: 'Failed to fetch outfit' });
+      }
+    }
+  );
+
+  fastify.post<{ Body: OutfitInput & { itemIds: string[] } }>(
+    '/api/outfits',
+    {
+      schema: {
+        description: 'Save an outfit made of wardrobe items',
+        tags: ['outfits'],
+        body: {
+          type: 'object',
+          properties: outfitInputProperties,
+          required: ['itemIds'],
+          additionalProperties: false,
+        },
+        response: {
+          201: outfitResponseSchema,
+        },
+      },
+    },
+    async (
+      request: FastifyRequest<{ Body: OutfitInput & { itemIds: string[] } }>,
+      reply: FastifyReply
+    ) => {
+      const ownerId = requireOwnerId(request, reply);
+      if (!ownerId) return;
+
+      const { name, category, occasion, itemIds } = request.body;
+
+      try {
+        if (!(await ownsWardrobeItems(app, ownerId, itemIds))) {
+          return reply.status(400).send({ error: 'Unknown wardrobe items' });
+        }
+
+        const row = await app.db.transaction(async (tx) => {
+          const [outfit] = await tx
+            .insert(outfits)
+            .values({ ownerId, name: name?.trim() || null, category, occasion })
+            .returning();
+          await tx
+            .insert(outfitItems)
+            .values(itemIds.map((itemId, position) => ({ outfitId: outfit.id, itemId, position })));
+          return outfit;
+        });
+
+        const items = await loadOutfitItems(app, [row.id]);
+        return reply.status(201).send(await toOutfitResponse(app, row, items.get(row.id)!));
+      } catch (error) {
+        app.logger.error(error, 'Error saving outfit');
+        return reply.status(500).send({ error: 'Failed to save outfit' });
+      }
+    }
+  );
+
+  fastify.patch<{ Params: { id: string }; Body: OutfitInput }>(
+    '/api/outfits/:id',
+    {
+      schema: {
+        description: 'Rename an outfit, change what it is for or replace its items',
+        tags: ['outfits'],
+        params: idParamsSchema,
+        body: {
+          type: 'object',
+          properties: outfitInputProperties,
+          minProperties: 1,
+          additionalProperties: false,
+        },
+        response: {
+          200: outfitResponseSchema,
+        },
+      },
+    },
+    async (
+      request: FastifyRequest<{ Params: { id: string }; Body: OutfitInput }>,
+      reply: FastifyReply
+    ) => {
+      const ownerId = requireOwnerId(request, reply);
+      if (!ownerId) return;
+
+      const { name, category, occasion, itemIds } = request.body;
+
+      try {
+        if (itemIds && !(await ownsWardrobeItems(app, ownerId, itemIds))) {
+          return reply.status(400).send({ error: 'Unknown wardrobe items' });
+        }
+
+        const row = await app.db.transaction(async (tx) => {
+          const [outfit] = await tx
+            .update(outfits)
+            .set({
+              name: name === undefined ? undefined : name?.trim() || null,
+              category,
+              occasion,
+              // Bump updatedAt even when only the items change
+              updatedAt: new Date(),
+            })
+            .where(and(eq(outfits.id, request.params.id), eq(outfits.ownerId, ownerId)))
+            .returning();
+          if (outfit && itemIds) {
+            await tx.delete(outfitItems).where(eq(outfitItems.outfitId, outfit.id));
+            await tx
+              .insert(outfitItems)
+              .values(itemIds.map((itemId, position) => ({ outfitId: outfit.id, itemId, position })));
+          }
+          return outfit;
+        });
+
+        if (!row) {
+          return reply.status(404).send({ error: 'Outfit not found' });
+        }
+
+        const items = await loadOutfitItems(app, [row.id]);
+        return toOutfitResponse(app, row, items.get(row.id)!);
+      } catch (error) {
+        app.logger.error(error, 'Error updating outfit');
+        return reply.status(500).send({ error: 'Failed to update outfit' });
+      }
+    }
+  );
+
+  fastify.delete<{ Params: { id: string } }>(
+    '/api/outfits/:id',
+    {
+      schema: {
+        description: 'Delete a saved outfit; its wardrobe items are kept',
+        tags: ['outfits'],
+        params: idParamsSchema,
+        response: {
+          204: { type: 'null' },
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+      const ownerId = requireOwnerId(request, reply);
+      if (!ownerId) return;
+
+      try {
+        const [row] = await app.db
+          .delete(outfits)
+          .where(and(eq(outfits.id, request.params.id), eq(outfits.ownerId, ownerId)))
+          .returning();
+
+        if (!row) {
+          return reply.status(404).send({ error: 'Outfit not found' });
+        }
+
+        return reply.status(204).send();
+      } catch (error) {
+        app.logger.error(error, 'Error deleting outfit');
+        return reply.status(500).send({ error: 'Failed to delete outfit' });
+      }
+    }
+  );
+
+  fastify.post<{ Body: ProposalBody }>(
+    '/api/outfits/proposals',
+    {
+      schema: {
+        description:
+          'Propose complete outfits from the wardrobe for a category or an occasion. Combinations ' +
+          'are scored on formality and colour harmony; with `rerank` a model reorders the best ' +
+          'ones, falling back to the rule-based order when it fails. Nothing is saved.',
+        tags: ['outfits'],
+        body: {
+          type: 'object',
+          properties: {
+            category: { type: 'string', enum: outfitCategoryIds },
+            occasion: { type: 'string', enum: occasionIds },
+            season: {
+              type: 'string',
+              enum: wardrobeSeasons,
+              description: 'Only use items worn in this season',
+            },
+            count: { type: 'integer', minimum: 1, maximum: MAX_PROPOSALS, default: DEFAULT_PROPOSALS },
+            rerank: { type: 'boolean', default: false },
+          },
+          oneOf: [{ required: ['category'] }, { required: ['occasion'] }],
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              proposals: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    items: { type: 'array', items: wardrobeItemResponseSchema },
+                    score: { type: 'number', description: 'Rule-based compatibility, 0-1' },
+                    reasons: {
+                      type: 'array',
+                      items: { type: 'string' },
+                      description: 'What the rules liked or disliked',
+                    },
+                    rankingReason: {
+                      type: ['string', 'null'],
+                      description: "The ranking model's reason, when it re-ranked the proposals",
+                    },
+                  },
+                  required: ['items', 'score', 'reasons', 'rankingReason'],
+                },
+              },
+              missing: {
+                type: 'array',
+                items: { type: 'string', enum: garmentSlots },
+                description: 'Kinds of garment the wardrobe lacks for a complete outfit',
+              },
+              rankedBy: {
+                type: ['string', 'null'],
+                description: 'Model spec that re-ranked the proposals, null for the rule-based order',
+              },
+            },
+            required: ['proposals', 'missing', 'rankedBy'],
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Body: ProposalBody }>, reply: FastifyReply) => {
+      const ownerId = requireOwnerId(request, reply);
+      if (!ownerId) return;
+
+      const { season, rerank } = request.body;
+      const count = request.body.count ?? DEFAULT_PROPOSALS;
+      const target = resolveTarget(request.body);
+
+      try {
+        const items = await app.db
+          .select()
+          .from(wardrobeItems)
+          .where(
+            and(
+              eq(wardrobeItems.ownerId, ownerId),
+              season
+                ? or(arrayContains(wardrobeItems.seasons, [season]), eq(wardrobeItems.seasons, []))
+                : undefined
+            )
+          )
+          .orderBy(desc(wardrobeItems.createdAt), desc(wardrobeItems.id));
+
+        // The model picks from a wider pool than it is asked to return
+        const { proposals: ruleBased, missing } = proposeOutfits(
+          items,
+          target,
+          rerank ? Math.min(count * 2, MAX_PROPOSALS) : count
+        );
+
+        let proposals = ruleBased;
+        let rankedBy: string | null = null;
+        if (rerank && proposals.length > 1) {
+          try {
+            const ranked = await rankProposals(app, proposals, target);
+            proposals = ranked.proposals;
+            rankedBy = ranked.model;
+          } catch (error) {
+            app.logger.warn({ err: error }, 'Outfit ranking failed, keeping the rule-based order');
+          }
+        }
+
+        return {
+          proposals: await Promise.all(
+            proposals.slice(0, count).map(async (proposal) => ({
+              items: await Promise.all(proposal.items.map((item) => toWardrobeItemResponse(app, item))),
+              score: proposal.score,
+              reasons: proposal.reasons,
+              rankingReason: proposal.rankingReason,
+            }))
+          ),
+          missing,
+          rankedBy,
+        };
+      } catch (error) {
+        app.logger.error(error, 'Error proposing outfits');
+        return reply.status(500).send({ error: 'Failed to propose outfits' });
+      }
+    }
+  );
+}
@@ -0,0 +1,161 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { encodeGradientPng } from '../utils/png.js';
+import { plannerEntries } from '../db/schema.js';
+import { planResponseSchema } from '../utils/planner.js';
+import {
+  assertMatchesSchema,
+  createAnalysis,
+  createTestApp,
+  multipartPayload,
+  TEST_OWNER_ID,
+  type TestApp,
+} from '../test/harness.js';
+
+const photo = encodeGradientPng(40, 60, [30, 30, 90], [220, 220, 240]);
+const headers = { 'x-device-id': TEST_OWNER_ID };
+
+async function addItem(testApp: TestApp, type: string) {
+  const { payload, headers: multipartHeaders } = multipartPayload([
+    { name: 'type', value: type },
+    { name: 'image', filename: 'photo.png', contentType: 'image/png', data: photo },
+  ]);
+  const response = await testApp.fastify.inject({
+    method: 'POST',
+    url: '/api/wardrobe',
+    headers: { ...multipartHeaders, ...headers },
+    payload,
+  });
+  assert.equal(response.statusCode, 201, response.body);
+  return response.json().id as string;
+}
+
+async function createOutfit(testApp: TestApp, name: string, itemIds: string[]) {
+  const response = await testApp.fastify.inject({
+    method: 'POST',
+    url: '/api/outfits',
+    headers,
+    payload: { name, itemIds },
+  });
+  assert.equal(response.statusCode, 201);
+  return response.json().id as string;
+}
+
+describe('planner', () => {
+  let testApp: TestApp;
+  let work: string;
+  let weekend: string;
+  let analysisId: string;
+
+  function plan(query: string, entries?: unknown[], deviceId = TEST_OWNER_ID) {
+    return testApp.fastify.inject({
+      method: entries ? 'PUT' : 'GET',
+      url: `/api/planner?${query}`,
+      headers: { 'x-device-id': deviceId },
+      payload: entries ? { entries } : undefined,
+    });
+  }
+
+  before(async () => {
+    testApp = await createTestApp();
+    const shirt = await addItem(testApp, 'shirt');
+    const jeans = await addItem(testApp, 'jeans');
+    work = await createOutfit(testApp, 'Work', [shirt]);
+    weekend = await createOutfit(testApp, 'Weekend', [shirt, jeans]);
+    analysisId = (await createAnalysis(testApp, photo)).id;
+  });
+
+  after(async () => {
+    await testApp.close();
+  });
+
+  it('plans a week and flags outfits repeated within the window', async () => {
+    const response = await plan('from=2026-11-02&to=2026-11-08', [
+      { date: '2026-11-02', outfitId: work },
+      { date: '2026-11-04', outfitId: weekend },
+      { date: '2026-11-06', outfitId: work },
+      { date: '2026-11-08', analysisId },
+    ]);
+    assert.equal(response.statusCode, 200);
+    const body = response.json();
+    assertMatchesSchema(body, planResponseSchema);
+    assert.equal(body.repeatDays, 7);
+    assert.deepEqual(
+      body.entries.map((entry: { date: string; repeatOf: string | null }) => [entry.date, entry.repeatOf]),
+      [
+        ['2026-11-02', null],
+        ['2026-11-04', null],
+        ['2026-11-06', '2026-11-02'],
+        ['2026-11-08', null],
+      ]
+    );
+    assert.equal(body.entries[1].outfit.name, 'Weekend');
+    assert.equal(body.entries[1].outfit.items.length, 2);
+    assert.equal(body.entries[3].analysis.id, analysisId);
+
+    const shortWindow = (await plan('from=2026-11-02&to=2026-11-08&repeatDays=3')).json();
+    assert.ok(shortWindow.entries.every((entry: { repeatOf: string | null }) => entry.repeatOf === null));
+
+    // Repeats are found against days before the range too
+    const nextDay = (await plan('from=2026-11-09&to=2026-11-09', [{ date: '2026-11-09', outfitId: work }])).json();
+    assert.equal(nextDay.entries[0].repeatOf, '2026-11-06');
+  });
+
+  it('marks a day as worn and clears days left out of a replaced range', async () => {
+    const worn = await plan('from=2026-11-02&to=2026-11-02', [
+      { date: '2026-11-02', outfitId: work, worn: true },
+    ]);
+    assert.equal(worn.statusCode, 200);
+    const wornAt = worn.json().entries[0].wornAt;
+    assert.ok(wornAt);
+
+    // Sending the same day again keeps when it was first marked
+    const again = await plan('from=2026-11-02&to=2026-11-02', [
+      { date: '2026-11-02', outfitId: work, worn: true },
+    ]);
+    assert.equal(again.json().entries[0].wornAt, wornAt);
+
+    assert.equal((await plan('from=2026-11-04&to=2026-11-04', [])).statusCode, 200);
+
+    const week = (await plan('from=2026-11-02&to=2026-11-08')).json();
+    assert.deepEqual(
+      week.entries.map((entry: { date: string; worn: boolean }) => [entry.date, entry.worn]),
+      [
+        ['2026-11-02', true],
+        ['2026-11-06', false],
+        ['2026-11-08', false],
+      ]
+    );
+  });
+
+  it('rejects bad ranges, stray dates and outfits of other devices', async () => {
+    assert.equal((await plan('from=2026-11-08&to=2026-11-02')).statusCode, 400);
+    assert.equal((await plan('from=2026-01-01&to=2026-12-31')).statusCode, 400);
+    assert.equal((await plan('from=2026-02-30&to=2026-03-02')).statusCode, 400);
+    assert.equal(
+      (await plan('from=2026-11-02&to=2026-11-03', [{ date: '2026-11-04', outfitId: work }])).statusCode,
+      400
+    );
+    assert.equal(
+      (await plan('from=2026-11-02&to=2026-11-03', [{ date: '2026-11-02', outfitId: work, analysisId }]))
+        .statusCode,
+      400
+    );
+    assert.equal(
+      (await plan('from=2026-11-02&to=2026-11-02', [{ date: '2026-11-02', outfitId: work }], 'test-device-0002'))
+        .statusCode,
+      400
+    );
+  });
+
+  it('only stores entries with exactly one of an outfit and an analysis', async () => {
+    const insert = async (values: { outfitId?: string; analysisId?: string }) => {
+      await testApp.app.db
+        .insert(plannerEntries)
+        .values({ ownerId: TEST_OWNER_ID, date: '2026-12-01', ...values });
+    };
+
+    await assert.rejects(insert({}));
+    await assert.rejects(insert({ outfitId: work, analysisId }));
+  });
+});
@@ -0,0 +1,213 @@
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { and, eq, gte, inArray, lte } from 'drizzle-orm';
+import { outfitAnalyses, outfits, plannerEntries } from '../db/schema.js';
+import { requireOwnerId } from '../utils/owner.js';
+import {
+  DEFAULT_REPEAT_DAYS,
+  MAX_PLANNER_RANGE_DAYS,
+  MAX_REPEAT_DAYS,
+  daysBetween,
+  loadPlan,
+  planResponseSchema,
+} from '../utils/planner.js';
+import type { App } from '../index.js';
+
+interface PlanQuery {
+  from: string;
+  to: string;
+  repeatDays?: number;
+}
+
+interface PlanEntryInput {
+  date: string;
+  outfitId?: string;
+  analysisId?: string;
+  worn?: boolean;
+}
+
+interface PlanBody {
+  entries: PlanEntryInput[];
+}
+
+const planQuerySchema = {
+  type: 'object',
+  properties: {
+    from: { type: 'string', format: 'date', description: 'First day, YYYY-MM-DD' },
+    to: { type: 'string', format: 'date', description: 'Last day (inclusive), YYYY-MM-DD' },
+    repeatDays: {
+      type: 'integer',
+      minimum: 0,
+      maximum: MAX_REPEAT_DAYS,
+      default: DEFAULT_REPEAT_DAYS,
+      description: 'Flag an outfit planned again within this many days; 0 turns warnings off',
+    },
+  },
+  required: ['from', 'to'],
+} as const;
+
+// The range is inclusive and at most MAX_PLANNER_RANGE_DAYS long
+function invalidRange({ from, to }: PlanQuery): string | null {
+  const days = daysBetween(from, to);
+  if (days < 0) return '`to` must not be before `from`';
+  if (days >= MAX_PLANNER_RANGE_DAYS) return `The range may span at most ${MAX_PLANNER_RANGE_DAYS} days`;
+  return null;
+}
+
+export function register(app: App, fastify: FastifyInstance) {
+  fastify.get<{ Querystring: PlanQuery }>(
+    '/api/planner',
+    {
+      schema: {
+        description:
+          'The outfits and analyses planned for each day from..to, with repeats of the same ' +
+          'outfit within `repeatDays` flagged. Days without a plan are left out.',
+        tags: ['planner'],
+        querystring: planQuerySchema,
+        response: {
+          200: planResponseSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Querystring: PlanQuery }>, reply: FastifyReply) => {
+      const ownerId = requireOwnerId(request, reply);
+      if (!ownerId) return;
+
+      const rangeError = invalidRange(request.query);
+      if (rangeError) {
+        return reply.status(400).send({ error: rangeError });
+      }
+
+      const { from, to } = request.query;
+      try {
+        return await loadPlan(app, ownerId, from, to, request.query.repeatDays ?? DEFAULT_REPEAT_DAYS);
+      } catch (error) {
+        app.logger.error(error, 'Error loading planner');
+        return reply.status(500).send({ error: 'Failed to load planner' });
+      }
+    }
+  );
+
+  fastify.put<{ Querystring: PlanQuery; Body: PlanBody }>(
+    '/api/planner',
+    {
+      schema: {
+        description:
+          'Replace the plan for from..to: days in the range missing from `entries` are cleared. ' +
+          'Each entry plans a saved outfit or a past analysis, and `worn` marks it as actually ' +
+          'worn. Send a one-day range to change a single day.',
+        tags: ['planner'],
+        querystring: planQuerySchema,
+        body: {
+          type: 'object',
+          properties: {
+            entries: {
+              type: 'array',
+              maxItems: MAX_PLANNER_RANGE_DAYS,
+              items: {
+                type: 'object',
+                properties: {
+                  date: { type: 'string', format: 'date' },
+                  outfitId: { type: 'string', format: 'uuid' },
+                  analysisId: { type: 'string', format: 'uuid' },
+                  worn: { type: 'boolean', default: false },
+                },
+                required: ['date'],
+                oneOf: [{ required: ['outfitId'] }, { required: ['analysisId'] }],
+                additionalProperties: false,
+              },
+            },
+          },
+          required: ['entries'],
+          additionalProperties: false,
+        },
+        response: {
+          200: planResponseSchema,
+        },
+      },
+    },
+    async (
+      request: FastifyRequest<{ Querystring: PlanQuery; Body: PlanBody }>,
+      reply: FastifyReply
+    ) => {
+      const ownerId = requireOwnerId(request, reply);
+      if (!ownerId) return;
+
+      const rangeError = invalidRange(request.query);
+      if (rangeError) {
+        return reply.status(400).send({ error: rangeError });
+      }
+
+      const { from, to } = request.query;
+      const { entries } = request.body;
+      if (entries.some((entry) => entry.date < from || entry.date > to)) {
+        return reply.status(400).send({ error: 'Every entry must fall within from..to' });
+      }
+      if (new Set(entries.map((entry) => entry.date)).size < entries.length) {
+        return reply.status(400).send({ error: 'Only one entry per day' });
+      }
+
+      const outfitIds = [
+        ...new Set(entries.map((entry) => entry.outfitId).filter((id) => id !== undefined)),
+      ];
+      const analysisIds = [
+        ...new Set(entries.map((entry) => entry.analysisId).filter((id) => id !== undefined)),
+      ];
+
+      try {
+        const [ownedOutfits, ownedAnalyses] = await Promise.all([
+          outfitIds.length > 0
+            ? app.db
+                .select({ id: outfits.id })
+                .from(outfits)
+                .where(and(eq(outfits.ownerId, ownerId), inArray(outfits.id, outfitIds)))
+            : [],
+          analysisIds.length > 0
+            ? app.db
+                .select({ id: outfitAnalyses.id })
+                .from(outfitAnalyses)
+                .where(and(eq(outfitAnalyses.ownerId, ownerId), inArray(outfitAnalyses.id, analysisIds)))
+            : [],
+        ]);
+        if (ownedOutfits.length < outfitIds.length || ownedAnalyses.length < analysisIds.length) {
+          return reply.status(400).send({ error: 'Unknown outfits or analyses' });
+        }
+
+        await app.db.transaction(async (tx) => {
+          const inRange = and(
+            eq(plannerEntries.ownerId, ownerId),
+            gte(plannerEntries.date, from),
+            lte(plannerEntries.date, to)
+          );
+          const existing = await tx.select().from(plannerEntries).where(inRange);
+          await tx.delete(plannerEntries).where(inRange);
+          if (entries.length === 0) return;
+
+          const now = new Date();
+          await tx.insert(plannerEntries).values(
+            entries.map((entry) => {
+              const previous = existing.find(
+                (row) =>
+                  row.date === entry.date &&
+                  row.outfitId === (entry.outfitId ?? null) &&
+                  row.analysisId === (entry.analysisId ?? null)
+              );
+              return {
+                ownerId,
+                date: entry.date,
+                outfitId: entry.outfitId ?? null,
+                analysisId: entry.analysisId ?? null,
+                // Keep when it was first marked worn if the day did not change
+                wornAt: entry.worn ? (previous?.wornAt ?? now) : null,
+              };
+            })
+          );
+        });
+
+        return await loadPlan(app, ownerId, from, to, request.query.repeatDays ?? DEFAULT_REPEAT_DAYS);
+      } catch (error) {
+        app.logger.error(error, 'Error saving planner');
+        return reply.status(500).send({ error: 'Failed to save planner' });
+      }
+    }
+  );
+}
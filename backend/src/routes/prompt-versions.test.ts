@@ -0,0 +1,62 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { encodeGradientPng } from '../utils/png.js';
+import { promptComparisonResponseSchema } from '../utils/prompt-versions.js';
+import {
+  assertMatchesSchema,
+  createAnalysis,
+  createTestApp,
+  TEST_OWNER_ID,
+  type TestApp,
+} from '../test/harness.js';
+
+const ADMIN_TOKEN = 'test-admin-token';
+
+const photo = encodeGradientPng(8, 8, [30, 30, 90], [220, 200, 240]);
+
+describe('GET /api/admin/prompt-versions', () => {
+  let testApp: TestApp;
+
+  before(async () => {
+    process.env.ADMIN_TOKEN = ADMIN_TOKEN;
+    process.env.CLASSIFICATION_PROMPT_SPLIT = 'v2';
+    testApp = await createTestApp();
+  });
+
+  after(async () => {
+    delete process.env.ADMIN_TOKEN;
+    delete process.env.CLASSIFICATION_PROMPT_SPLIT;
+    await testApp.close();
+  });
+
+  it('attributes analyses and their feedback to the assigned prompt version', async () => {
+    const analysis = await createAnalysis(testApp, photo);
+    await testApp.fastify.inject({
+      method: 'PUT',
+      url: `/api/analyses/${analysis.id}/feedback`,
+      headers: { 'x-device-id': TEST_OWNER_ID },
+      payload: { rating: 'down', correctedCategory: 'Formal' },
+    });
+
+    const response = await testApp.fastify.inject({
+      method: 'GET',
+      url: '/api/admin/prompt-versions',
+      headers: { authorization: `Bearer ${ADMIN_TOKEN}` },
+    });
+
+    assert.equal(response.statusCode, 200);
+    assertMatchesSchema(response.json(), promptComparisonResponseSchema);
+    const { split, versions } = response.json();
+    assert.deepEqual(split, [{ version: 'v2', share: 1 }]);
+
+    const byVersion = Object.fromEntries(
+      versions.map((entry: { version: string }) => [entry.version, entry])
+    );
+    assert.equal(byVersion.v1.analyses, 0);
+    assert.equal(byVersion.v2.analyses, 1);
+    assert.equal(byVersion.v2.averageConfidence, 0.9);
+    assert.equal(byVersion.v2.feedback, 1);
+    assert.equal(byVersion.v2.thumbsUpRate, 0);
+    assert.equal(byVersion.v2.correctionRate, 1);
+  });
+});
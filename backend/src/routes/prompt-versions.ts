@@ -0,0 +1,138 @@
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { and, count, eq, gte, lt, sql, type SQL } from 'drizzle-orm';
+import { analysisFeedback, outfitAnalyses } from '../db/schema.js';
+import { LOW_CONFIDENCE_THRESHOLD } from '../services/confidence.js';
+import { getPromptSplit, getPromptTemplate, listPromptTemplates } from '../prompts/registry.js';
+import { requireAdmin } from '../utils/admin.js';
+import { promptComparisonResponseSchema } from '../utils/prompt-versions.js';
+import type { App } from '../index.js';
+
+interface ComparisonQuery {
+  from?: string;
+  to?: string;
+}
+
+interface VersionStats {
+  analyses: number;
+  confidenceTotal: number;
+  scored: number;
+  lowConfidence: number;
+  feedback: number;
+  thumbsUp: number;
+  corrections: number;
+}
+
+function emptyStats(): VersionStats {
+  return {
+    analyses: 0,
+    confidenceTotal: 0,
+    scored: 0,
+    lowConfidence: 0,
+    feedback: 0,
+    thumbsUp: 0,
+    corrections: 0,
+  };
+}
+
+// Rows of the group matching `condition`
+function countWhere(condition: SQL) {
+  return sql<number>`count(*) filter (where ${condition})`.mapWith(Number);
+}
+
+function ratio(numerator: number, denominator: number): number | null {
+  return denominator > 0 ? Math.round((numerator / denominator) * 1000) / 1000 : null;
+}
+
+export function register(app: App, fastify: FastifyInstance) {
+  fastify.get<{ Querystring: ComparisonQuery }>(
+    '/api/admin/prompt-versions',
+    {
+      schema: {
+        description:
+          'Compare classification prompt versions: the current A/B split, and per version the ' +
+          'number of analyses, their confidence and the feedback they got. Analyses stored ' +
+          'before versioning are grouped under a null version. ' +
+          'Requires `Authorization: Bearer <ADMIN_TOKEN>`.',
+        tags: ['admin'],
+        querystring: {
+          type: 'object',
+          properties: {
+            from: {
+              type: 'string',
+              format: 'date-time',
+              description: 'Inclusive lower bound on the analysis date',
+            },
+            to: {
+              type: 'string',
+              format: 'date-time',
+              description: 'Exclusive upper bound on the analysis date',
+            },
+          },
+        },
+        response: {
+          200: promptComparisonResponseSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Querystring: ComparisonQuery }>, reply: FastifyReply) => {
+      if (!requireAdmin(request, reply)) return;
+
+      const { from, to } = request.query;
+
+      try {
+        const rows: (VersionStats & { promptVersion: string | null })[] = await app.db
+          .select({
+            promptVersion: outfitAnalyses.promptVersion,
+            analyses: count(),
+            confidenceTotal: sql<number>`coalesce(sum(${outfitAnalyses.confidenceScore}), 0)`
+              .mapWith(Number),
+            scored: count(outfitAnalyses.confidenceScore),
+            lowConfidence: countWhere(lt(outfitAnalyses.confidenceScore, LOW_CONFIDENCE_THRESHOLD)),
+            feedback: count(analysisFeedback.rating),
+            thumbsUp: countWhere(eq(analysisFeedback.rating, 'up')),
+            corrections: countWhere(
+              sql`${analysisFeedback.correctedCategory} <> ${analysisFeedback.predictedCategory}`
+            ),
+          })
+          .from(outfitAnalyses)
+          .leftJoin(analysisFeedback, eq(analysisFeedback.analysisId, outfitAnalyses.id))
+          .where(
+            and(
+              from ? gte(outfitAnalyses.createdAt, new Date(from)) : undefined,
+              to ? lt(outfitAnalyses.createdAt, new Date(to)) : undefined
+            )
+          )
+          .groupBy(outfitAnalyses.promptVersion);
+
+        // Every registered version is listed, even before it served an analysis
+        const stats = new Map<string | null, VersionStats>(
+          listPromptTemplates().map((template) => [template.version, emptyStats()])
+        );
+        for (const { promptVersion, ...entry } of rows) {
+          stats.set(promptVersion, entry);
+        }
+
+        const split = getPromptSplit();
+        const totalWeight = split.reduce((sum, { weight }) => sum + weight, 0);
+
+        return {
+          split: split.map(({ version, weight }) => ({ version, share: ratio(weight, totalWeight) })),
+          versions: [...stats].map(([version, entry]) => ({
+            version,
+            description: version ? (getPromptTemplate(version)?.description ?? null) : null,
+            analyses: entry.analyses,
+            averageConfidence: ratio(entry.confidenceTotal, entry.scored),
+            lowConfidenceRate: ratio(entry.lowConfidence, entry.scored),
+            feedback: entry.feedback,
+            thumbsUpRate: ratio(entry.thumbsUp, entry.feedback),
+            // Share of rated analyses whose category was corrected
+            correctionRate: ratio(entry.corrections, entry.feedback),
+          })),
+        };
+      } catch (error) {
+        app.logger.error(error, 'Error comparing prompt versions');
+        return reply.status(500).send({ error: 'Failed to compare prompt versions' });
+      }
+    }
+  );
+}
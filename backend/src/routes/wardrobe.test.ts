@@ -0,0 +1,233 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it, mock } from 'node:test';
+import sharp from 'sharp';
+import { encodeGradientPng } from '../utils/png.js';
+import { wardrobeItemResponseSchema } from '../utils/wardrobe.js';
+import {
+  assertMatchesSchema,
+  createAnalysis,
+  createTestApp,
+  multipartPayload,
+  TEST_OWNER_ID,
+  type TestApp,
+} from '../test/harness.js';
+
+const photo = encodeGradientPng(40, 60, [30, 30, 90], [220, 220, 240]);
+
+async function addItemPhoto(testApp: TestApp, fields: Record<string, string>) {
+  const { payload, headers } = multipartPayload([
+    ...Object.entries(fields).map(([name, value]) => ({ name, value })),
+    { name: 'image', filename: 'item.png', contentType: 'image/png', data: photo },
+  ]);
+  return testApp.fastify.inject({
+    method: 'POST',
+    url: '/api/wardrobe',
+    headers: { ...headers, 'x-device-id': TEST_OWNER_ID },
+    payload,
+  });
+}
+
+async function listWardrobe(testApp: TestApp, query = '') {
+  const response = await testApp.fastify.inject({
+    method: 'GET',
+    url: `/api/wardrobe${query}`,
+    headers: { 'x-device-id': TEST_OWNER_ID },
+  });
+  assert.equal(response.statusCode, 200);
+  return response.json().items.map((item: { type: string }) => item.type).sort();
+}
+
+describe('wardrobe', () => {
+  let testApp: TestApp;
+
+  before(async () => {
+    testApp = await createTestApp();
+    // Signed URLs point at the in-memory storage
+    mock.method(globalThis, 'fetch', async (url: string | URL) => {
+      const key = String(url).replace('https://storage.test/', '');
+      const data = testApp.storage.get(key);
+      return data ? new Response(data) : new Response(null, { status: 404 });
+    });
+  });
+
+  after(async () => {
+    mock.restoreAll();
+    await testApp.close();
+  });
+
+  it('adds detected garments with photos cropped from the analysis', async () => {
+    const analysis = await createAnalysis(testApp, photo);
+
+    const response = await testApp.fastify.inject({
+      method: 'POST',
+      url: '/api/wardrobe/from-analysis',
+      headers: { 'x-device-id': TEST_OWNER_ID },
+      payload: { analysisId: analysis.id, garments: [0] },
+    });
+
+    assert.equal(response.statusCode, 201);
+    const [item] = response.json().items;
+    assertMatchesSchema(item, wardrobeItemResponseSchema);
+    assert.deepEqual(
+      (({ type, colors, pattern, material, sourceAnalysisId }) => ({
+        type,
+        colors,
+        pattern,
+        material,
+        sourceAnalysisId,
+      }))(item),
+      { type: 'jacket', colors: ['blue'], pattern: 'solid', material: 'denim', sourceAnalysisId: analysis.id }
+    );
+    assert.equal(item.imageUrl, `https://storage.test/wardrobe-items/${item.id}.jpg`);
+
+    // The box is 0.6 x 0.4 of the photo, widened by the crop margin
+    const crop = await sharp(testApp.storage.get(`wardrobe-items/${item.id}.jpg`)).metadata();
+    assert.deepEqual([crop.width, crop.height], [29, 29]);
+
+    const outOfRange = await testApp.fastify.inject({
+      method: 'POST',
+      url: '/api/wardrobe/from-analysis',
+      headers: { 'x-device-id': TEST_OWNER_ID },
+      payload: { analysisId: analysis.id, garments: [2] },
+    });
+    assert.equal(outOfRange.statusCode, 400);
+  });
+
+  it('keeps no cropped photos when the items cannot be saved', async () => {
+    const analysis = await createAnalysis(testApp, photo);
+    const storedKeys = [...testApp.storage.keys()];
+    const insert = mock.method(testApp.app.db, 'insert', () => {
+      throw new Error('database unavailable');
+    });
+
+    try {
+      const response = await testApp.fastify.inject({
+        method: 'POST',
+        url: '/api/wardrobe/from-analysis',
+        headers: { 'x-device-id': TEST_OWNER_ID },
+        payload: { analysisId: analysis.id },
+      });
+
+      assert.equal(response.statusCode, 500);
+      assert.deepEqual([...testApp.storage.keys()], storedKeys);
+    } finally {
+      insert.mock.restore();
+    }
+  });
+
+  it('adds items from their own photo and filters by type, colour and season', async () => {
+    const created = await addItemPhoto(testApp, {
+      type: ' Blazer ',
+      colors: 'Navy, navy,grey',
+      seasons: 'autumn,winter',
+      tags: 'work',
+      purchaseDate: '2026-03-01',
+      purchasePrice: '129.999',
+    });
+    assert.equal(created.statusCode, 201);
+    const blazer = created.json();
+    assert.deepEqual(
+      (({ type, colors, seasons, tags, purchaseDate, purchasePrice }) => ({
+        type,
+        colors,
+        seasons,
+        tags,
+        purchaseDate,
+        purchasePrice,
+      }))(blazer),
+      {
+        type: 'blazer',
+        colors: ['navy', 'grey'],
+        seasons: ['autumn', 'winter'],
+        tags: ['work'],
+        purchaseDate: '2026-03-01',
+        purchasePrice: 130,
+      }
+    );
+    assert.ok(testApp.storage.has(`wardrobe-items/${blazer.id}.png`));
+
+    // No seasons means all year round
+    assert.equal((await addItemPhoto(testApp, { type: 'tee', colors: 'white' })).statusCode, 201);
+    assert.equal((await addItemPhoto(testApp, { type: 'shorts', seasons: 'summer' })).statusCode, 201);
+    assert.equal((await addItemPhoto(testApp, { colors: 'red' })).statusCode, 400);
+    assert.equal((await addItemPhoto(testApp, { type: 'coat', seasons: 'monsoon' })).statusCode, 400);
+
+    assert.deepEqual(await listWardrobe(testApp, '?type=BLAZER'), ['blazer']);
+    assert.deepEqual(await listWardrobe(testApp, '?color=grey'), ['blazer']);
+    assert.deepEqual(await listWardrobe(testApp, '?season=winter'), ['blazer', 'jacket', 'tee']);
+    assert.deepEqual(await listWardrobe(testApp, '?season=summer&tag=work'), []);
+
+    const page = await testApp.fastify.inject({
+      method: 'GET',
+      url: '/api/wardrobe?limit=2',
+      headers: { 'x-device-id': TEST_OWNER_ID },
+    });
+    const { items, nextCursor } = page.json();
+    assert.deepEqual(
+      items.map((item: { type: string }) => item.type),
+      ['shorts', 'tee']
+    );
+    assert.deepEqual(await listWardrobe(testApp, `?cursor=${nextCursor}`), ['blazer', 'jacket']);
+
+    const facets = await testApp.fastify.inject({
+      method: 'GET',
+      url: '/api/wardrobe/facets',
+      headers: { 'x-device-id': TEST_OWNER_ID },
+    });
+    assert.deepEqual(facets.json(), {
+      types: ['blazer', 'jacket', 'shorts', 'tee'],
+      colors: ['blue', 'grey', 'navy', 'white'],
+      tags: ['work'],
+    });
+  });
+
+  it('updates and deletes items, with their photo', async () => {
+    const created = (await addItemPhoto(testApp, { type: 'scarf' })).json();
+
+    const updated = await testApp.fastify.inject({
+      method: 'PATCH',
+      url: `/api/wardrobe/${created.id}`,
+      headers: { 'x-device-id': TEST_OWNER_ID },
+      payload: { colors: ['Camel'], brand: '  ', seasons: ['winter'] },
+    });
+    assert.equal(updated.statusCode, 200);
+    assert.deepEqual(
+      (({ type, colors, brand, seasons }) => ({ type, colors, brand, seasons }))(updated.json()),
+      { type: 'scarf', colors: ['camel'], brand: null, seasons: ['winter'] }
+    );
+
+    const otherDevice = await testApp.fastify.inject({
+      method: 'DELETE',
+      url: `/api/wardrobe/${created.id}`,
+      headers: { 'x-device-id': 'another-device-0002' },
+    });
+    assert.equal(otherDevice.statusCode, 404);
+
+    const deleted = await testApp.fastify.inject({
+      method: 'DELETE',
+      url: `/api/wardrobe/${created.id}`,
+      headers: { 'x-device-id': TEST_OWNER_ID },
+    });
+    assert.equal(deleted.statusCode, 204);
+    assert.equal(testApp.storage.has(`wardrobe-items/${created.id}.png`), false);
+
+    const fetched = await testApp.fastify.inject({
+      method: 'GET',
+      url: `/api/wardrobe/${created.id}`,
+      headers: { 'x-device-id': TEST_OWNER_ID },
+    });
+    assert.equal(fetched.statusCode, 404);
+  });
+
+  it('returns 400 for a malformed cursor', async () => {
+    const cursor = Buffer.from('2024-01-01T00:00:00.000Z|not-a-uuid').toString('base64url');
+
+    const response = await testApp.fastify.inject({
+      method: 'GET',
+      url: `/api/wardrobe?cursor=${cursor}`,
+      headers: { 'x-device-id': TEST_OWNER_ID },
+    });
+
+    assert.equal(response.statusCode, 400);
+  });
+});
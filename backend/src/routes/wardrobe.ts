@@ -0,0 +1,446 @@
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { randomUUID } from 'node:crypto';
+import { and, arrayContains, desc, eq, lt, or } from 'drizzle-orm';
+import { outfitAnalyses, wardrobeItems, wardrobeSeasons } from '../db/schema.js';
+import { discardStoredImages, loadOriginalImage } from '../services/outfit-analysis.js';
+import { cropGarment, itemFromGarment, storeItemPhoto } from '../services/wardrobe.js';
+import { requireOwnerId } from '../utils/owner.js';
+import { readImageUpload } from '../utils/upload.js';
+import { decodeCursor, encodeCursor } from '../utils/analyses.js';
+import {
+  normalizeWardrobeInput,
+  parseWardrobeFields,
+  toWardrobeItemResponse,
+  wardrobeItemInputProperties,
+  wardrobeItemResponseSchema,
+  type WardrobeItemInput,
+  type WardrobeSeason,
+} from '../utils/wardrobe.js';
+import type { App } from '../index.js';
+
+const DEFAULT_PAGE_SIZE = 30;
+const MAX_PAGE_SIZE = 100;
+
+interface ListQuery {
+  type?: string;
+  color?: string;
+  season?: WardrobeSeason;
+  tag?: string;
+  cursor?: string;
+  limit?: number;
+}
+
+interface FromAnalysisBody {
+  analysisId: string;
+  // Indexes into the analysis' garments; all of them when omitted
+  garments?: number[];
+}
+
+const idParamsSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', format: 'uuid' },
+  },
+  required: ['id'],
+} as const;
+
+export function register(app: App, fastify: FastifyInstance) {
+  fastify.get<{ Querystring: ListQuery }>(
+    '/api/wardrobe',
+    {
+      schema: {
+        description:
+          'List the wardrobe items of the current device, newest first. Filters combine; ' +
+          'a season filter also matches items worn all year round.',
+        tags: ['wardrobe'],
+        querystring: {
+          type: 'object',
+          properties: {
+            type: { type: 'string', description: 'Garment type, e.g. blazer' },
+            color: { type: 'string', description: 'Colour name the item has' },
+            season: { type: 'string', enum: wardrobeSeasons },
+            tag: { type: 'string' },
+            cursor: { type: 'string', description: 'Opaque cursor from a previous page' },
+            limit: {
+              type: 'integer',
+              minimum: 1,
+              maximum: MAX_PAGE_SIZE,
+              default: DEFAULT_PAGE_SIZE,
+            },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              items: { type: 'array', items: wardrobeItemResponseSchema },
+              nextCursor: {
+                type: ['string', 'null'],
+                description: 'Cursor for the next page, or null when there are no more results',
+              },
+            },
+            required: ['items', 'nextCursor'],
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Querystring: ListQuery }>, reply: FastifyReply) => {
+      const ownerId = requireOwnerId(request, reply);
+      if (!ownerId) return;
+
+      const { type, color, season, tag } = request.query;
+      const limit = request.query.limit ?? DEFAULT_PAGE_SIZE;
+
+      let cursor: { createdAt: Date; id: string } | null = null;
+      if (request.query.cursor) {
+        cursor = decodeCursor(request.query.cursor);
+        if (!cursor) {
+          return reply.status(400).send({ error: 'Invalid cursor' });
+        }
+      }
+
+      try {
+        // Fetch one extra row to know whether another page exists
+        const rows = await app.db
+          .select()
+          .from(wardrobeItems)
+          .where(
+            and(
+              eq(wardrobeItems.ownerId, ownerId),
+              type ? eq(wardrobeItems.type, type.trim().toLowerCase()) : undefined,
+              color ? arrayContains(wardrobeItems.colors, [color.trim().toLowerCase()]) : undefined,
+              tag ? arrayContains(wardrobeItems.tags, [tag.trim().toLowerCase()]) : undefined,
+              season
+                ? or(arrayContains(wardrobeItems.seasons, [season]), eq(wardrobeItems.seasons, []))
+                : undefined,
+              cursor
+                ? or(
+                    lt(wardrobeItems.createdAt, cursor.createdAt),
+                    and(
+                      eq(wardrobeItems.createdAt, cursor.createdAt),
+                      lt(wardrobeItems.id, cursor.id)
+                    )
+                  )
+                : undefined
+            )
+          )
+          .orderBy(desc(wardrobeItems.createdAt), desc(wardrobeItems.id))
+          .limit(limit + 1);
+
+        const page = rows.slice(0, limit);
+        const nextCursor = rows.length > limit ? encodeCursor(page[page.length - 1]) : null;
+
+        return {
+          items: await Promise.all(page.map((row) => toWardrobeItemResponse(app, row))),
+          nextCursor,
+        };
+      } catch (error) {
+        app.logger.error(error, 'Error listing wardrobe items');
+        return reply.status(500).send({ error: 'Failed to list wardrobe items' });
+      }
+    }
+  );
+
+  fastify.get(
+    '/api/wardrobe/facets',
+    {
+      schema: {
+        description: 'Types, colours and tags used in the wardrobe, for filter pickers',
+        tags: ['wardrobe'],
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              types: { type: 'array', items: { type: 'string' } },
+              colors: { type: 'array', items: { type: 'string' } },
+              tags: { type: 'array', items: { type: 'string' } },
+            },
+            required: ['types', 'colors', 'tags'],
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const ownerId = requireOwnerId(request, reply);
+      if (!ownerId) return;
+
+      try {
+        const rows = await app.db
+          .select({ type: wardrobeItems.type, colors: wardrobeItems.colors, tags: wardrobeItems.tags })
+          .from(wardrobeItems)
+          .where(eq(wardrobeItems.ownerId, ownerId));
+
+        const sorted = (values: string[]) => [...new Set(values)].sort();
+        return {
+          types: sorted(rows.map((row) => row.type)),
+          colors: sorted(rows.flatMap((row) => row.colors)),
+          tags: sorted(rows.flatMap((row) => row.tags)),
+        };
+      } catch (error) {
+        app.logger.error(error, 'Error listing wardrobe facets');
+        return reply.status(500).send({ error: 'Failed to list wardrobe filters' });
+      }
+    }
+  );
+
+  fastify.get<{ Params: { id: string } }>(
+    '/api/wardrobe/:id',
+    {
+      schema: {
+        description: 'Get a single wardrobe item',
+        tags: ['wardrobe'],
+        params: idParamsSchema,
+        response: {
+          200: wardrobeItemResponseSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+      const ownerId = requireOwnerId(request, reply);
+      if (!ownerId) return;
+
+      try {
+        const [row] = await app.db
+          .select()
+          .from(wardrobeItems)
+          .where(and(eq(wardrobeItems.id, request.params.id), eq(wardrobeItems.ownerId, ownerId)));
+
+        if (!row) {
+          return reply.status(404).send({ error: 'Wardrobe item not found' });
+        }
+
+        return toWardrobeItemResponse(app, row);
+      } catch (error) {
+        app.logger.error(error, 'Error fetching wardrobe item');
+        return reply.status(500).send({ error: 'Failed to fetch wardrobe item' });
+      }
+    }
+  );
+
+  fastify.post(
+    '/api/wardrobe',
+    {
+      schema: {
+        description:
+          'Add an item from a photo of it. Send the item fields as multipart text fields ' +
+          'before the `image` part: `type` (required), `colors`, `pattern`, `material`, ' +
+          '`seasons`, `brand`, `tags` (lists comma separated), `purchaseDate` (YYYY-MM-DD) ' +
+          'and `purchasePrice`.',
+        tags: ['wardrobe'],
+        response: {
+          201: wardrobeItemResponseSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const ownerId = requireOwnerId(request, reply);
+      if (!ownerId) return;
+
+      // Stored photo no saved item refers to yet; removed if the insert fails
+      let unsavedKeys: string[] = [];
+      try {
+        const upload = await readImageUpload(request, reply);
+        if (!upload) return;
+        const input = parseWardrobeFields(upload.fields, reply);
+        if (!input) return;
+
+        const id = randomUUID();
+        const imageKey = await storeItemPhoto(app, id, upload.buffer, upload.mimetype);
+        unsavedKeys = [imageKey];
+        const [row] = await app.db
+          .insert(wardrobeItems)
+          .values({ ...input, type: input.type!, id, ownerId, imageKey })
+          .returning();
+        unsavedKeys = [];
+
+        return reply.status(201).send(await toWardrobeItemResponse(app, row));
+      } catch (error) {
+        app.logger.error(error, 'Error adding wardrobe item');
+        await discardStoredImages(app, unsavedKeys);
+        return reply.status(500).send({ error: 'Failed to add wardrobe item' });
+      }
+    }
+  );
+
+  fastify.post<{ Body: FromAnalysisBody }>(
+    '/api/wardrobe/from-analysis',
+    {
+      schema: {
+        description:
+          'Add garments detected in an analysis to the wardrobe, each with a photo cropped ' +
+          'from the analysed photo',
+        tags: ['wardrobe'],
+        body: {
+          type: 'object',
+          properties: {
+            analysisId: { type: 'string', format: 'uuid' },
+            garments: {
+              type: 'array',
+              items: { type: 'integer', minimum: 0 },
+              uniqueItems: true,
+              minItems: 1,
+              description: "Indexes into the analysis' garments; all of them when omitted",
+            },
+          },
+          required: ['analysisId'],
+          additionalProperties: false,
+        },
+        response: {
+          201: {
+            type: 'object',
+            properties: {
+              items: { type: 'array', items: wardrobeItemResponseSchema },
+            },
+            required: ['items'],
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Body: FromAnalysisBody }>, reply: FastifyReply) => {
+      const ownerId = requireOwnerId(request, reply);
+      if (!ownerId) return;
+
+      // Stored crops no saved item refers to yet; removed if the insert fails
+      let unsavedKeys: string[] = [];
+      try {
+        const [analysis] = await app.db
+          .select()
+          .from(outfitAnalyses)
+          .where(
+            and(eq(outfitAnalyses.id, request.body.analysisId), eq(outfitAnalyses.ownerId, ownerId))
+          );
+        if (!analysis) {
+          return reply.status(404).send({ error: 'Analysis not found' });
+        }
+
+        const detected = analysis.garments ?? [];
+        const indexes = request.body.garments ?? detected.map((_, index) => index);
+        if (indexes.length === 0 || indexes.some((index) => index >= detected.length)) {
+          return reply.status(400).send({
+            error: `The analysis has ${detected.length} detected garments`,
+          });
+        }
+
+        // Items are still added without a photo when the original cannot be read back
+        const photo = await loadOriginalImage(app, analysis.imageKey);
+        const values = [];
+        for (const index of indexes) {
+          const id = randomUUID();
+          const crop = photo ? await cropGarment(photo, detected[index]) : null;
+          const imageKey = crop ? await storeItemPhoto(app, id, crop, 'image/jpeg') : null;
+          if (imageKey) unsavedKeys.push(imageKey);
+          values.push({
+            ...itemFromGarment(detected[index]),
+            id,
+            ownerId,
+            imageKey,
+            sourceAnalysisId: analysis.id,
+          });
+        }
+
+        const rows = await app.db.insert(wardrobeItems).values(values).returning();
+        unsavedKeys = [];
+
+        return reply.status(201).send({
+          items: await Promise.all(rows.map((row) => toWardrobeItemResponse(app, row))),
+        });
+      } catch (error) {
+        app.logger.error(error, 'Error adding garments to the wardrobe');
+        await discardStoredImages(app, unsavedKeys);
+        return reply.status(500).send({ error: 'Failed to add garments to the wardrobe' });
+      }
+    }
+  );
+
+  fastify.patch<{ Params: { id: string }; Body: WardrobeItemInput }>(
+    '/api/wardrobe/:id',
+    {
+      schema: {
+        description: 'Update the fields of a wardrobe item; send only what changes',
+        tags: ['wardrobe'],
+        params: idParamsSchema,
+        body: {
+          type: 'object',
+          properties: wardrobeItemInputProperties,
+          minProperties: 1,
+          additionalProperties: false,
+        },
+        response: {
+          200: wardrobeItemResponseSchema,
+        },
+      },
+    },
+    async (
+      request: FastifyRequest<{ Params: { id: string }; Body: WardrobeItemInput }>,
+      reply: FastifyReply
+    ) => {
+      const ownerId = requireOwnerId(request, reply);
+      if (!ownerId) return;
+
+      const changes = normalizeWardrobeInput(request.body);
+      if (changes.type === '') {
+        return reply.status(400).send({ error: 'type cannot be blank' });
+      }
+
+      try {
+        const [row] = await app.db
+          .update(wardrobeItems)
+          .set(changes)
+          .where(and(eq(wardrobeItems.id, request.params.id), eq(wardrobeItems.ownerId, ownerId)))
+          .returning();
+
+        if (!row) {
+          return reply.status(404).send({ error: 'Wardrobe item not found' });
+        }
+
+        return toWardrobeItemResponse(app, row);
+      } catch (error) {
+        app.logger.error(error, 'Error updating wardrobe item');
+        return reply.status(500).send({ error: 'Failed to update wardrobe item' });
+      }
+    }
+  );
+
+  fastify.delete<{ Params: { id: string } }>(
+    '/api/wardrobe/:id',
+    {
+      schema: {
+        description: 'Delete a wardrobe item and its photo',
+        tags: ['wardrobe'],
+        params: idParamsSchema,
+        response: {
+          204: { type: 'null' },
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+      const ownerId = requireOwnerId(request, reply);
+      if (!ownerId) return;
+
+      try {
+        const [row] = await app.db
+          .delete(wardrobeItems)
+          .where(and(eq(wardrobeItems.id, request.params.id), eq(wardrobeItems.ownerId, ownerId)))
+          .returning();
+
+        if (!row) {
+          return reply.status(404).send({ error: 'Wardrobe item not found' });
+        }
+
+        // Storage cleanup is best effort; the record is already gone
+        if (row.imageKey) {
+          try {
+            await app.storage.delete(row.imageKey);
+          } catch (error) {
+            app.logger.warn({ err: error, key: row.imageKey }, 'Failed to delete wardrobe photo');
+          }
+        }
+
+        return reply.status(204).send();
+      } catch (error) {
+        app.logger.error(error, 'Error deleting wardrobe item');
+        return reply.status(500).send({ error: 'Failed to delete wardrobe item' });
+      }
+    }
+  );
+}
@@ -0,0 +1,156 @@
+import { eq, inArray } from 'drizzle-orm';
+import { analysisJobs } from '../db/schema.js';
+import {
+  classifyOutfit,
+  discardStoredImages,
+  generateSuggestionImages,
+  saveAnalysis,
+} from './outfit-analysis.js';
+import { confidenceLabel } from './confidence.js';
+import { extractPalette } from './palette.js';
+import { assignPromptVersion } from '../prompts/registry.js';
+import type { AnalysisOptions } from '../utils/analysis-options.js';
+import type { App } from '../index.js';
+
+const DEFAULT_CONCURRENCY = 2;
+// Each waiting job holds its photo (up to 10 MB) in memory
+const DEFAULT_QUEUE_LIMIT = 20;
+
+// Jobs this process does not hold that have not moved for this long are
+// treated as lost (e.g. the process restarted while they were running)
+// and reported as failed
+export const STALE_JOB_MS = 10 * 60 * 1000;
+
+export interface QueuedAnalysisJob extends AnalysisOptions {
+  id: string;
+  ownerId: string;
+  imageKey: string;
+  analysisId: string;
+  image: Buffer;
+}
+
+export interface AnalysisJobQueue {
+  enqueue(job: QueuedAnalysisJob): void;
+  // True when no more jobs may wait; callers should turn requests away
+  isFull(): boolean;
+  // Whether the job is waiting or running in this process
+  holds(id: string): boolean;
+  // Stop taking jobs and mark the ones still held as failed, e.g. on shutdown
+  close(): Promise<void>;
+}
+
+export const INTERRUPTED_ERROR = 'Analysis was interrupted, please try again';
+
+/**
+ * In-process worker for analysis jobs. Job state lives in the
+ * analysis_jobs table; the photo itself is only held in memory until
+ * the suggestion images, which are edits of it, have been generated.
+ *
+ * The queue and its limit are per process: with several instances each
+ * one caps only its own jobs, and a job can only be processed by the
+ * instance that accepted it. Jobs held at shutdown are marked failed;
+ * jobs lost to a crash stay unfinished until STALE_JOB_MS has passed.
+ */
+export function createAnalysisJobQueue(
+  app: App,
+  concurrency = Number(process.env.ANALYSIS_JOB_CONCURRENCY) || DEFAULT_CONCURRENCY,
+  queueLimit = Number(process.env.ANALYSIS_JOB_QUEUE_LIMIT) || DEFAULT_QUEUE_LIMIT
+): AnalysisJobQueue {
+  const pending: QueuedAnalysisJob[] = [];
+  const running = new Set<string>();
+  let closed = false;
+
+  async function updateJob(id: string, values: Partial<typeof analysisJobs.$inferInsert>) {
+    await app.db.update(analysisJobs).set(values).where(eq(analysisJobs.id, id));
+  }
+
+  async function processJob(job: QueuedAnalysisJob) {
+    // Stored images no saved analysis refers to yet
+    let unsavedKeys = [job.imageKey];
+    try {
+      await updateJob(job.id, { status: 'classifying' });
+      const promptVersion = assignPromptVersion(job.ownerId);
+      const [{ analysis, model: classificationModel }, palette] = await Promise.all([
+        classifyOutfit(app, job.image, job, promptVersion),
+        extractPalette(job.image),
+      ]);
+
+      // Expose the classification right away; image generation takes longer
+      await updateJob(job.id, {
+        status: 'generating',
+        category: analysis.category,
+        explanation: analysis.explanation,
+        confidence: confidenceLabel(analysis.confidence),
+      });
+      const { images: suggestionImages, model: generationModel } = await generateSuggestionImages(
+        app,
+        analysis,
+        job.image,
+        job
+      );
+      unsavedKeys.push(...suggestionImages.map((image) => image.key));
+
+      await saveAnalysis(app, {
+        id: job.analysisId,
+        ownerId: job.ownerId,
+        imageKey: job.imageKey,
+        analysis,
+        targetOccasion: job.targetOccasion,
+        palette,
+        suggestionImages,
+        promptVersion,
+        classificationModel,
+        generationModel,
+      });
+      unsavedKeys = [];
+      await updateJob(job.id, { status: 'done' });
+    } catch (error) {
+      app.logger.error({ err: error, jobId: job.id }, 'Error processing analysis job');
+      // The photo is only kept for the analysis it was uploaded for
+      await discardStoredImages(app, unsavedKeys);
+      try {
+        await updateJob(job.id, { status: 'failed', error: 'Failed to analyze outfit image' });
+      } catch (updateError) {
+        app.logger.error({ err: updateError, jobId: job.id }, 'Failed to mark analysis job as failed');
+      }
+    }
+  }
+
+  function drain() {
+    while (!closed && running.size < concurrency && pending.length > 0) {
+      const job = pending.shift()!;
+      running.add(job.id);
+      processJob(job).finally(() => {
+        running.delete(job.id);
+        drain();
+      });
+    }
+  }
+
+  return {
+    enqueue(job) {
+      pending.push(job);
+      // Defer so the request that created the job can respond first
+      setImmediate(drain);
+    },
+    isFull() {
+      return pending.length >= queueLimit;
+    },
+    holds(id) {
+      return running.has(id) || pending.some((job) => job.id === id);
+    },
+    async close() {
+      closed = true;
+      const waiting = pending.splice(0);
+      const ids = [...running, ...waiting.map((job) => job.id)];
+      if (ids.length === 0) return;
+
+      await app.db
+        .update(analysisJobs)
+        .set({ status: 'failed', error: INTERRUPTED_ERROR })
+        .where(inArray(analysisJobs.id, ids));
+      // Running jobs may still finish and keep their photo; waiting ones never will
+      await discardStoredImages(app, waiting.map((job) => job.imageKey));
+    },
+  };
+}
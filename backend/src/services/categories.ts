@@ -0,0 +1,125 @@
+/**
+ * Outfit category catalogue. The classifier prompt, the response schemas,
+ * the suggestion prompts and the app's legend are all generated from this
+ * list, so adding a category only means adding an entry here.
+ *
+ * Ids are stored with every analysis; never rename or remove one.
+ */
+export interface OutfitCategoryDefinition {
+  id: string;
+  label: string;
+  // What the classifier should look for
+  description: string;
+  // What the suggestion image should show
+  suggestion: string;
+  // Gradient start and end colours used by the app
+  colors: [string, string];
+  // Material icon name used by the app
+  icon: string;
+  // Range of garment formality the category expects, from 1 (athletic,
+  // lounge) to 5 (black tie); used when composing outfits
+  formality: [number, number];
+}
+
+export const outfitCategoryCatalog: OutfitCategoryDefinition[] = [
+  {
+    id: 'Sport',
+    label: 'Sport',
+    description: 'Athletic wear, gym clothes, sports equipment visible',
+    suggestion: 'athletic wear with performance fabrics, sneakers, and sport accessories for active activities',
+    colors: ['#FF6B6B', '#FF8E53'],
+    icon: 'fitness-center',
+    formality: [1, 1],
+  },
+  {
+    id: 'Casual',
+    label: 'Casual',
+    description: 'Comfortable everyday wear, jeans, t-shirts, sneakers',
+    suggestion: 'comfortable everyday outfit with jeans or casual pants, t-shirt or casual top, and comfortable sneakers',
+    colors: ['#4ECDC4', '#44A08D'],
+    icon: 'weekend',
+    formality: [2, 3],
+  },
+  {
+    id: 'Professional',
+    label: 'Professional',
+    description: 'Business attire, suits, work-appropriate office wear',
+    suggestion: 'business suit or formal dress with polished shoes, subtle accessories, and a clean, professional appearance',
+    colors: ['#667EEA', '#764BA2'],
+    icon: 'work',
+    formality: [4, 5],
+  },
+  {
+    id: 'Chill',
+    label: 'Chill',
+    description: 'Relaxed, comfortable home wear, loungewear, laid-back style',
+    suggestion: 'relaxed and comfortable loungewear outfit, cozy layers, and casual house shoes for relaxing at home',
+    colors: ['#F093FB', '#F5576C'],
+    icon: 'self-improvement',
+    formality: [1, 2],
+  },
+  {
+    id: 'BusinessCasual',
+    label: 'Business Casual',
+    description: 'Chinos or tailored trousers, blazers without ties, knitwear, loafers; smart but not formal',
+    suggestion: 'smart business casual outfit with chinos, an open-collar shirt or fine knit, an unstructured blazer, and loafers',
+    colors: ['#5C7CFA', '#38D9A9'],
+    icon: 'business-center',
+    formality: [3, 4],
+  },
+  {
+    id: 'Formal',
+    label: 'Formal / Evening',
+    description: 'Tuxedos, evening gowns, cocktail dresses, dress shoes; black-tie or gala events',
+    suggestion: 'elegant evening outfit such as a tailored tuxedo or a floor-length gown, with dress shoes and refined jewellery',
+    colors: ['#232526', '#8E9EAB'],
+    icon: 'nightlife',
+    formality: [4, 5],
+  },
+  {
+    id: 'Streetwear',
+    label: 'Streetwear',
+    description: 'Hoodies, graphic tees, oversized fits, cargo pants, statement sneakers, caps',
+    suggestion: 'urban streetwear outfit with an oversized hoodie or graphic tee, cargo pants, statement sneakers, and a cap',
+    colors: ['#F7971E', '#FFD200'],
+    icon: 'skateboarding',
+    formality: [1, 2],
+  },
+  {
+    id: 'Outdoor',
+    label: 'Outdoor / Hiking',
+    description: 'Technical jackets, hiking boots, fleece layers, backpacks, trail gear',
+    suggestion: 'outdoor hiking outfit with a weatherproof shell, fleece mid-layer, trail trousers, hiking boots, and a daypack',
+    colors: ['#56AB2F', '#A8E063'],
+    icon: 'terrain',
+    formality: [1, 3],
+  },
+  {
+    id: 'Beach',
+    label: 'Beach',
+    description: 'Swimwear, linen, shorts, sandals, sun hats, light summer fabrics',
+    suggestion: 'breezy beach outfit with linen shirt or cover-up, swim shorts or swimsuit, sandals, sunglasses, and a sun hat',
+    colors: ['#00C6FF', '#0072FF'],
+    icon: 'beach-access',
+    formality: [1, 2],
+  },
+  {
+    id: 'DateNight',
+    label: 'Date Night',
+    description: 'Dressed-up but relaxed going-out looks: fitted shirts, slip dresses, leather jackets, heels or boots',
+    suggestion: 'stylish date night outfit with a fitted shirt or slip dress, a leather jacket, and sleek boots or heels',
+    colors: ['#C31432', '#240B36'],
+    icon: 'favorite',
+    formality: [3, 4],
+  },
+];
+
+// Non-empty tuple, as z.enum and JSON schema enums expect
+export const outfitCategoryIds = outfitCategoryCatalog.map((category) => category.id) as [
+  string,
+  ...string[],
+];
+
+export function getCategoryDefinition(id: string): OutfitCategoryDefinition | undefined {
+  return outfitCategoryCatalog.find((category) => category.id === id);
+}
@@ -0,0 +1,27 @@
+// Labels returned to clients, from most to least confident
+export const confidenceLabels = ['High', 'Medium', 'Low'] as const;
+
+export type ConfidenceLabel = (typeof confidenceLabels)[number];
+
+// Results below this are flagged so the app can ask for a retake or a manual pick
+export const LOW_CONFIDENCE_THRESHOLD = 0.5;
+
+const HIGH_CONFIDENCE_THRESHOLD = 0.75;
+
+/**
+ * Clamp a model-reported confidence into 0..1, rounded to two decimals
+ */
+export function normalizeConfidence(score: number): number {
+  if (!Number.isFinite(score)) return 0;
+  return Math.round(Math.min(1, Math.max(0, score)) * 100) / 100;
+}
+
+export function confidenceLabel(score: number): ConfidenceLabel {
+  if (score >= HIGH_CONFIDENCE_THRESHOLD) return 'High';
+  if (score >= LOW_CONFIDENCE_THRESHOLD) return 'Medium';
+  return 'Low';
+}
+
+export function isLowConfidence(score: number): boolean {
+  return score < LOW_CONFIDENCE_THRESHOLD;
+}
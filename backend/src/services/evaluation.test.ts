@@ -0,0 +1,71 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { evaluatePredictions, renderMarkdownReport, type EvaluationSample } from './evaluation.js';
+
+function sample(label: string, predicted: string | null, index: number): EvaluationSample {
+  return {
+    file: `${label}/${index}.jpg`,
+    label,
+    predicted,
+    confidence: predicted ? 0.8 : null,
+    model: predicted ? 'stub:classifier' : null,
+    error: predicted ? undefined : 'timeout',
+  };
+}
+
+const samples = [
+  sample('Casual', 'Casual', 0),
+  sample('Casual', 'Chill', 1),
+  sample('Casual', 'Casual', 2),
+  sample('Formal', 'Formal', 0),
+  sample('Formal', 'Casual', 1),
+  sample('Formal', null, 2),
+];
+
+const run = { dataset: 'dataset', promptVersion: 'v1' };
+
+describe('evaluatePredictions', () => {
+  it('scores accuracy, precision and recall without the failed samples', () => {
+    const report = evaluatePredictions(samples, run);
+
+    assert.equal(report.total, 6);
+    assert.equal(report.errors, 1);
+    assert.equal(report.correct, 3);
+    assert.equal(report.accuracy, 0.6);
+    assert.deepEqual(report.models, ['stub:classifier']);
+
+    const casual = report.perCategory.find((metrics) => metrics.category === 'Casual');
+    assert.deepEqual(casual, {
+      category: 'Casual',
+      support: 3,
+      predicted: 3,
+      truePositives: 2,
+      precision: 0.667,
+      recall: 0.667,
+    });
+    const chill = report.perCategory.find((metrics) => metrics.category === 'Chill');
+    assert.equal(chill?.precision, 0);
+    assert.equal(chill?.recall, null);
+  });
+
+  it('counts labels against predictions in the confusion matrix', () => {
+    const { labels, matrix } = evaluatePredictions(samples, run).confusionMatrix;
+    const cell = (label: string, predicted: string) =>
+      matrix[labels.indexOf(label)][labels.indexOf(predicted)];
+
+    assert.equal(cell('Casual', 'Casual'), 2);
+    assert.equal(cell('Casual', 'Chill'), 1);
+    assert.equal(cell('Formal', 'Casual'), 1);
+    assert.equal(cell('Chill', 'Casual'), 0);
+  });
+
+  it('renders only the categories in play, and lists failures', () => {
+    const markdown = renderMarkdownReport(evaluatePredictions(samples, run));
+
+    assert.match(markdown, /Prompt: `v1`/);
+    assert.match(markdown, /Accuracy: \*\*60\.0%\*\* \(3\/5\)/);
+    assert.match(markdown, /\|  \| Casual \| Chill \| Formal \|/);
+    assert.doesNotMatch(markdown, /Beach/);
+    assert.match(markdown, /- `Formal\/2.jpg`: timeout/);
+  });
+});
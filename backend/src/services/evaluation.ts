@@ -0,0 +1,159 @@
+import { outfitCategoryIds } from './categories.js';
+
+export interface EvaluationSample {
+  // Dataset-relative path of the photo
+  file: string;
+  label: string;
+  // Null when classification failed
+  predicted: string | null;
+  confidence: number | null;
+  model: string | null;
+  error?: string;
+}
+
+export interface CategoryMetrics {
+  category: string;
+  // Samples labeled with the category
+  support: number;
+  // Samples the classifier put in the category
+  predicted: number;
+  truePositives: number;
+  // Null when the denominator is zero
+  precision: number | null;
+  recall: number | null;
+}
+
+export interface EvaluationReport {
+  generatedAt: string;
+  dataset: string;
+  // Classification prompt version the samples ran with
+  promptVersion: string;
+  // Model specs that answered, e.g. `gateway:openai/gpt-5.2`
+  models: string[];
+  total: number;
+  // Samples that failed to classify, left out of every metric below
+  errors: number;
+  correct: number;
+  accuracy: number | null;
+  perCategory: CategoryMetrics[];
+  // matrix[i][j]: samples labeled labels[i] that were predicted as labels[j]
+  confusionMatrix: { labels: string[]; matrix: number[][] };
+  samples: EvaluationSample[];
+}
+
+function ratio(numerator: number, denominator: number): number | null {
+  return denominator > 0 ? Math.round((numerator / denominator) * 1000) / 1000 : null;
+}
+
+/**
+ * Score classifier predictions against their labels: accuracy,
+ * per-category precision and recall, and a confusion matrix over the
+ * whole category catalogue.
+ */
+export function evaluatePredictions(
+  samples: EvaluationSample[],
+  run: { dataset: string; promptVersion: string },
+  generatedAt = new Date()
+): EvaluationReport {
+  const labels = [...outfitCategoryIds];
+  const index = new Map(labels.map((label, i) => [label, i]));
+  const matrix = labels.map(() => labels.map(() => 0));
+
+  const scored = samples.filter((sample) => sample.predicted !== null);
+  for (const sample of scored) {
+    const row = index.get(sample.label);
+    const column = index.get(sample.predicted!);
+    if (row !== undefined && column !== undefined) {
+      matrix[row][column]++;
+    }
+  }
+
+  const correct = scored.filter((sample) => sample.predicted === sample.label).length;
+
+  const perCategory = labels.map((category, i) => {
+    const support = matrix[i].reduce((sum, count) => sum + count, 0);
+    const predicted = matrix.reduce((sum, row) => sum + row[i], 0);
+    const truePositives = matrix[i][i];
+    return {
+      category,
+      support,
+      predicted,
+      truePositives,
+      precision: ratio(truePositives, predicted),
+      recall: ratio(truePositives, support),
+    };
+  });
+
+  return {
+    generatedAt: generatedAt.toISOString(),
+    ...run,
+    models: [...new Set(scored.map((sample) => sample.model).filter((model) => model !== null))],
+    total: samples.length,
+    errors: samples.length - scored.length,
+    correct,
+    accuracy: ratio(correct, scored.length),
+    perCategory,
+    confusionMatrix: { labels, matrix },
+    samples,
+  };
+}
+
+function percent(value: number | null): string {
+  return value === null ? '–' : `${(value * 100).toFixed(1)}%`;
+}
+
+function tableRow(cells: (string | number)[]): string {
+  return `| ${cells.join(' | ')} |`;
+}
+
+/**
+ * Render a report as Markdown, e.g. for a PR description. Categories
+ * without samples or predictions are left out of the tables.
+ */
+export function renderMarkdownReport(report: EvaluationReport): string {
+  const { labels, matrix } = report.confusionMatrix;
+  const used = labels
+    .map((label, i) => ({ label, i }))
+    .filter(({ i }) => report.perCategory[i].support > 0 || report.perCategory[i].predicted > 0);
+
+  const lines = [
+    '# Classifier evaluation',
+    '',
+    `- Dataset: \`${report.dataset}\``,
+    `- Prompt: \`${report.promptVersion}\``,
+    `- Models: ${report.models.length > 0 ? report.models.map((model) => `\`${model}\``).join(', ') : '–'}`,
+    `- Generated: ${report.generatedAt}`,
+    `- Samples: ${report.total} (${report.errors} failed)`,
+    `- Accuracy: **${percent(report.accuracy)}** (${report.correct}/${report.total - report.errors})`,
+    '',
+    '## Per category',
+    '',
+    tableRow(['Category', 'Support', 'Predicted', 'Precision', 'Recall']),
+    tableRow(['---', '---:', '---:', '---:', '---:']),
+    ...used.map(({ i }) => {
+      const metrics = report.perCategory[i];
+      return tableRow([
+        metrics.category,
+        metrics.support,
+        metrics.predicted,
+        percent(metrics.precision),
+        percent(metrics.recall),
+      ]);
+    }),
+    '',
+    '## Confusion matrix',
+    '',
+    'Rows are labels, columns are predictions.',
+    '',
+    tableRow(['', ...used.map(({ label }) => label)]),
+    tableRow(['---', ...used.map(() => '---:')]),
+    ...used.map(({ label, i }) => tableRow([`**${label}**`, ...used.map(({ i: j }) => matrix[i][j])])),
+  ];
+
+  const failures = report.samples.filter((sample) => sample.predicted === null);
+  if (failures.length > 0) {
+    lines.push('', '## Failures', '', ...failures.map((sample) => `- \`${sample.file}\`: ${sample.error}`));
+  }
+
+  return `${lines.join('\n')}\n`;
+}
@@ -0,0 +1,87 @@
+import { z } from 'zod';
+
+export const garmentPatterns = [
+  'solid',
+  'striped',
+  'checked',
+  'floral',
+  'graphic',
+  'animal',
+  'other',
+] as const;
+
+export type GarmentPattern = (typeof garmentPatterns)[number];
+
+// Position relative to the photo, all values 0..1 from the top-left corner
+const boundingBoxSchema = z.object({
+  x: z.number(),
+  y: z.number(),
+  width: z.number(),
+  height: z.number(),
+});
+
+export const detectedGarmentSchema = z.object({
+  type: z.string().describe('Garment type in lowercase, e.g. blazer, jeans, sneakers'),
+  color: z.string().describe('Dominant colour name, e.g. navy'),
+  pattern: z.enum(garmentPatterns),
+  material: z.string().describe('Best guess of the material, e.g. denim, wool, leather'),
+  boundingBox: boundingBoxSchema,
+});
+
+export type DetectedGarment = z.infer<typeof detectedGarmentSchema>;
+
+const clamp01 = (value: number) => (Number.isFinite(value) ? Math.min(1, Math.max(0, value)) : 0);
+const round3 = (value: number) => Math.round(value * 1000) / 1000;
+
+/**
+ * Keep model-reported boxes inside the photo and trim free-text fields
+ */
+export function normalizeGarments(garments: DetectedGarment[]): DetectedGarment[] {
+  return garments.map((garment) => {
+    const x = clamp01(garment.boundingBox.x);
+    const y = clamp01(garment.boundingBox.y);
+    return {
+      type: garment.type.trim().toLowerCase(),
+      color: garment.color.trim().toLowerCase(),
+      pattern: garment.pattern,
+      material: garment.material.trim().toLowerCase(),
+      boundingBox: {
+        x: round3(x),
+        y: round3(y),
+        width: round3(Math.min(clamp01(garment.boundingBox.width), 1 - x)),
+        height: round3(Math.min(clamp01(garment.boundingBox.height), 1 - y)),
+      },
+    };
+  });
+}
+
+// JSON schema for a detected garment in API responses
+export const garmentResponseSchema = {
+  type: 'object',
+  properties: {
+    type: { type: 'string', description: 'Garment type, e.g. blazer, jeans, sneakers' },
+    color: { type: 'string', description: 'Dominant colour name' },
+    pattern: { type: 'string', enum: garmentPatterns },
+    material: { type: 'string', description: 'Best guess of the material' },
+    boundingBox: {
+      type: 'object',
+      description: 'Rough position in the photo; fractions of its width and height from the top-left',
+      properties: {
+        x: { type: 'number' },
+        y: { type: 'number' },
+        width: { type: 'number' },
+        height: { type: 'number' },
+      },
+      required: ['x', 'y', 'width', 'height'],
+    },
+  },
+  required: ['type', 'color', 'pattern', 'material', 'boundingBox'],
+} as const;
+
+/**
+ * Short description for prompts, e.g. "navy striped shirt"
+ */
+export function describeGarment(garment: DetectedGarment): string {
+  const pattern = garment.pattern === 'solid' || garment.pattern === 'other' ? '' : `${garment.pattern} `;
+  return `${garment.color} ${pattern}${garment.type}`;
+}
@@ -0,0 +1,104 @@
+import { z } from 'zod';
+
+/**
+ * Occasions a user can dress for. Like the category catalogue, the
+ * prompts and the app's picker are generated from this list.
+ *
+ * Ids are stored with every analysis; never rename or remove one.
+ */
+export interface OccasionDefinition {
+  id: string;
+  label: string;
+  // The dress code the outfit is judged against
+  dressCode: string;
+  // What the suggestion image should show
+  suggestion: string;
+  // Material icon name used by the app
+  icon: string;
+  // Range of garment formality the dress code expects, 1-5 like categories
+  formality: [number, number];
+}
+
+export const occasionCatalog: OccasionDefinition[] = [
+  {
+    id: 'JobInterview',
+    label: 'Job Interview',
+    dressCode: 'Polished and conservative: tailored suit or blazer with trousers or skirt, pressed shirt or blouse, clean leather shoes, minimal accessories',
+    suggestion: 'a well-fitted navy or charcoal suit, crisp light shirt or blouse, understated accessories and polished leather shoes',
+    icon: 'work-outline',
+    formality: [4, 5],
+  },
+  {
+    id: 'Office',
+    label: 'Office',
+    dressCode: 'Business casual: chinos or tailored trousers, shirts, knitwear, blazers optional, loafers or clean minimal sneakers',
+    suggestion: 'smart business casual with tailored chinos, a collared shirt or fine knit, an optional blazer and loafers',
+    icon: 'business',
+    formality: [3, 4],
+  },
+  {
+    id: 'WeddingGuest',
+    label: 'Wedding Guest',
+    dressCode: 'Dressy and festive without upstaging the couple: suit or cocktail dress, no white, no jeans or sneakers',
+    suggestion: 'an elegant wedding guest outfit such as a light suit with a tie or a colourful midi dress, dress shoes and refined accessories',
+    icon: 'celebration',
+    formality: [4, 5],
+  },
+  {
+    id: 'FirstDate',
+    label: 'First Date',
+    dressCode: 'Effortlessly put together: well-fitting pieces, one statement item, clean shoes, nothing too formal or sloppy',
+    suggestion: 'a relaxed but put-together date outfit with dark jeans or a slip skirt, a fitted top or shirt, a light jacket and clean boots',
+    icon: 'favorite-border',
+    formality: [2, 4],
+  },
+  {
+    id: 'Gym',
+    label: 'Gym',
+    dressCode: 'Functional athletic wear: moisture-wicking top, shorts or leggings, training shoes; no jeans or casual footwear',
+    suggestion: 'a functional gym outfit with a breathable training top, shorts or leggings and supportive training shoes',
+    icon: 'fitness-center',
+    formality: [1, 1],
+  },
+  {
+    id: 'CocktailParty',
+    label: 'Cocktail Party',
+    dressCode: 'Semi-formal evening: dark suit or sharp separates, cocktail dress, dress shoes or heels',
+    suggestion: 'a sharp cocktail outfit with a dark slim suit or a knee-length cocktail dress, dress shoes or heels and a statement accessory',
+    icon: 'local-bar',
+    formality: [4, 5],
+  },
+  {
+    id: 'Weekend',
+    label: 'Weekend Brunch',
+    dressCode: 'Relaxed smart casual: comfortable but intentional pieces, clean sneakers or sandals',
+    suggestion: 'an easy weekend brunch outfit with relaxed trousers or a sundress, a casual knit or tee and clean sneakers',
+    icon: 'brunch-dining',
+    formality: [2, 3],
+  },
+];
+
+export const occasionIds = occasionCatalog.map((occasion) => occasion.id);
+
+export function getOccasionDefinition(id: string): OccasionDefinition | undefined {
+  return occasionCatalog.find((occasion) => occasion.id === id);
+}
+
+// Returned by the classifier when a target occasion was given
+export const occasionMatchSchema = z.object({
+  score: z.number().describe('0 (completely wrong) to 100 (perfect fit)'),
+  gaps: z.array(z.string()).describe('What is missing or wrong for the occasion'),
+});
+
+export type OccasionMatch = z.infer<typeof occasionMatchSchema>;
+
+/**
+ * Round the score into 0..100 and drop empty gap descriptions
+ */
+export function normalizeOccasionMatch(match: OccasionMatch): OccasionMatch {
+  const score = Number.isFinite(match.score) ? Math.min(100, Math.max(0, match.score)) : 0;
+  return {
+    score: Math.round(score),
+    gaps: match.gaps.map((gap) => gap.trim()).filter(Boolean),
+  };
+}
@@ -0,0 +1,403 @@
+import { randomUUID } from 'node:crypto';
+import { z } from 'zod';
+import { outfitAnalyses } from '../db/schema.js';
+import { runWithFallback } from '../providers/registry.js';
+import { renderClassificationPrompt } from '../prompts/registry.js';
+import { getCategoryDefinition, outfitCategoryIds } from './categories.js';
+import { confidenceLabel, normalizeConfidence } from './confidence.js';
+import {
+  describeGarment,
+  detectedGarmentSchema,
+  normalizeGarments,
+  type DetectedGarment,
+} from './garments.js';
+import type { ColorPalette } from './palette.js';
+import { sortTips, stylingTipSchema } from './tips.js';
+import {
+  getOccasionDefinition,
+  normalizeOccasionMatch,
+  occasionMatchSchema,
+  type OccasionMatch,
+} from './occasions.js';
+import { assessWeather, describeWeather, type WeatherAssessment } from './weather.js';
+import {
+  directionsForVariants,
+  type StyleDirectionDefinition,
+  type SuggestionImage,
+} from './style-directions.js';
+import type { AnalysisOptions } from '../utils/analysis-options.js';
+import type { App } from '../index.js';
+
+// File extensions for the original upload, keyed by the multipart mimetype
+export const uploadExtensions: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/heic': 'heic',
+};
+
+// Schema for the outfit analysis response
+export const outfitAnalysisSchema = z.object({
+  category: z.enum(outfitCategoryIds),
+  // One score per catalogue category; structured output needs fixed keys
+  scores: z.object(
+    Object.fromEntries(outfitCategoryIds.map((id) => [id, z.number()]))
+  ),
+  garments: z.array(detectedGarmentSchema),
+  tips: z.array(stylingTipSchema),
+  explanation: z.string(),
+  // 0..1; mapped to a fixed label set before it reaches clients
+  confidence: z.number(),
+});
+
+// Used instead when the user picked a target occasion
+const occasionAnalysisSchema = outfitAnalysisSchema.extend({
+  occasionMatch: occasionMatchSchema,
+});
+
+type ModelAnalysis = z.infer<typeof outfitAnalysisSchema> & { occasionMatch?: OccasionMatch };
+
+export type OutfitAnalysis = z.infer<typeof outfitAnalysisSchema> & {
+  // Set only when the analysis targeted an occasion
+  occasionMatch: OccasionMatch | null;
+  // Set only when weather conditions were given
+  weather: WeatherAssessment | null;
+};
+
+/**
+ * Keep the user's photo under a key derived from the analysis id,
+ * so history and comparison views can show it next to the suggestion.
+ */
+export async function storeOriginalImage(
+  app: App,
+  analysisId: string,
+  image: Buffer,
+  mimetype: string
+): Promise<string> {
+  const imageKey = `outfit-uploads/${analysisId}.${uploadExtensions[mimetype] ?? 'jpg'}`;
+  await app.storage.upload(imageKey, image);
+  return imageKey;
+}
+
+/**
+ * Remove stored photos and suggestion images again when the analysis they
+ * were stored for failed, so no upload outlives it. Best effort.
+ */
+export async function discardStoredImages(app: App, imageKeys: string[]): Promise<void> {
+  for (const imageKey of imageKeys) {
+    try {
+      await app.storage.delete(imageKey);
+    } catch (error) {
+      app.logger.warn({ err: error, imageKey }, 'Failed to delete unsaved image');
+    }
+  }
+}
+
+// Signed URLs point at the storage bucket; a slow bucket should not hold up a regeneration
+const ORIGINAL_DOWNLOAD_TIMEOUT_MS = 15_000;
+
+/**
+ * Read a stored original photo back through its signed URL.
+ * Returns null when it cannot be downloaded, so callers can fall back.
+ */
+export async function loadOriginalImage(app: App, imageKey: string | null): Promise<Buffer | null> {
+  if (!imageKey) return null;
+  try {
+    const { url } = await app.storage.getSignedUrl(imageKey);
+    const response = await fetch(url, { signal: AbortSignal.timeout(ORIGINAL_DOWNLOAD_TIMEOUT_MS) });
+    if (!response.ok) {
+      throw new Error(`Download failed with status ${response.status}`);
+    }
+    return Buffer.from(await response.arrayBuffer());
+  } catch (error) {
+    app.logger.warn({ err: error, imageKey }, 'Failed to load original photo');
+    return null;
+  }
+}
+
+/**
+ * Rebuild the analysis from a stored row, so suggestions can be generated
+ * again without another classification.
+ */
+export function analysisFromRow(row: typeof outfitAnalyses.$inferSelect): OutfitAnalysis {
+  return {
+    category: row.category as OutfitAnalysis['category'],
+    scores: row.scores ?? {},
+    garments: row.garments ?? [],
+    tips: row.tips ?? [],
+    explanation: row.explanation,
+    confidence: row.confidenceScore ?? 0,
+    occasionMatch: row.occasionMatch,
+    weather: row.weather,
+  };
+}
+
+function buildClassificationPrompt(options: AnalysisOptions, promptVersion: string): string {
+  const sections = [renderClassificationPrompt(promptVersion)];
+
+  const occasion = options.targetOccasion ? getOccasionDefinition(options.targetOccasion) : undefined;
+  if (occasion) {
+    sections.push(`The user wants to wear this outfit to: ${occasion.label}. Dress code: ${occasion.dressCode}.
+7. occasionMatch: how well the outfit suits this occasion, with:
+   - score: 0 (completely wrong) to 100 (perfect fit)
+   - gaps: short phrases naming what is missing or wrong for the occasion; empty for a perfect fit
+Write the tips to close these gaps rather than to fit the detected category.`);
+  }
+
+  if (options.weather) {
+    sections.push(`The user is dressing for this weather: ${describeWeather(options.weather)}.
+Mention in the explanation whether the outfit suits it, and include a high-priority tip for anything that does not (e.g. add a coat when it is cold, swap suede or open shoes in the rain).`);
+  }
+
+  return sections.join('\n\n');
+}
+
+/**
+ * Classify the outfit in the photo using the configured vision models and
+ * the given version of the base prompt (see src/prompts/).
+ * Returns the analysis and the spec of the model that produced it.
+ */
+export async function classifyOutfit(
+  app: App,
+  image: Buffer,
+  options: AnalysisOptions,
+  promptVersion: string
+): Promise<{ analysis: OutfitAnalysis; model: string }> {
+  const schema = (
+    options.targetOccasion ? occasionAnalysisSchema : outfitAnalysisSchema
+  ) as z.ZodType<ModelAnalysis>;
+
+  const { result, model } = await runWithFallback(app, 'classification', (provider, modelId, abortSignal) =>
+    provider.classifyImage({
+      modelId,
+      image,
+      prompt: buildClassificationPrompt(options, promptVersion),
+      schema,
+      schemaName: 'OutfitAnalysis',
+      schemaDescription: 'Outfit analysis with category, explanation, and confidence level',
+      abortSignal,
+    })
+  );
+
+  const garments = normalizeGarments(result.garments);
+
+  return {
+    analysis: {
+      ...result,
+      scores: normalizeScores(result.scores),
+      garments,
+      tips: sortTips(result.tips),
+      confidence: normalizeConfidence(result.confidence),
+      occasionMatch: result.occasionMatch ? normalizeOccasionMatch(result.occasionMatch) : null,
+      weather: options.weather ? assessWeather(garments, options.weather) : null,
+    },
+    model,
+  };
+}
+
+/**
+ * Clamp model scores into 0..1 and round them, dropping unknown ids
+ */
+function normalizeScores(scores: Record<string, number>): Record<string, number> {
+  return Object.fromEntries(
+    outfitCategoryIds.map((id) => {
+      const score = Number.isFinite(scores[id]) ? Math.min(1, Math.max(0, scores[id])) : 0;
+      return [id, Math.round(score * 100) / 100];
+    })
+  );
+}
+
+// Garments no swap/remove tip touches stay in the suggestion unchanged
+function garmentsToKeep(analysis: OutfitAnalysis): DetectedGarment[] {
+  const replaced = analysis.tips
+    .filter((tip) => tip.action !== 'add')
+    .map((tip) => tip.garment);
+  return analysis.garments.filter(
+    (garment) => !replaced.some((name) => garment.type.includes(name) || name.includes(garment.type))
+  );
+}
+
+function buildSuggestionPrompt(
+  analysis: OutfitAnalysis,
+  options: AnalysisOptions,
+  direction: StyleDirectionDefinition | null,
+  personalized: boolean,
+  instruction: string | null
+): string {
+  const occasion = options.targetOccasion ? getOccasionDefinition(options.targetOccasion) : undefined;
+  const definition = getCategoryDefinition(analysis.category);
+  const target = occasion
+    ? `a ${occasion.label.toLowerCase()} (dress code: ${occasion.dressCode})`
+    : `the "${definition?.label ?? analysis.category}" category`;
+
+  const lines: string[] = [];
+  if (personalized) {
+    const kept = garmentsToKeep(analysis);
+    lines.push(
+      `Edit the attached photo so the person's outfit becomes a better fit for ${target}.`,
+      'Keep the same person, pose, body shape and background.'
+    );
+    if (kept.length > 0) {
+      lines.push(`Keep these items exactly as they are: ${kept.map(describeGarment).join(', ')}.`);
+    }
+    if (analysis.tips.length > 0) {
+      lines.push('Make these changes:', ...analysis.tips.map((tip) => `- ${tip.suggestion}`));
+    } else {
+      lines.push(
+        `Change only what is needed to suit it, drawing on: ${occasion?.suggestion ?? definition?.suggestion ?? analysis.category}.`
+      );
+    }
+  } else if (occasion) {
+    lines.push(
+      `Generate a high-quality fashion illustration of a complete outfit for a ${occasion.label.toLowerCase()}.`,
+      `The outfit should follow the dress code (${occasion.dressCode}) and look like: ${occasion.suggestion}.`
+    );
+  } else {
+    lines.push(
+      `Generate a high-quality fashion illustration of a complete outfit styled for ${target}.`,
+      `The outfit should showcase typical pieces and styling for this category: ${definition?.suggestion ?? analysis.category}.`
+    );
+  }
+  if (direction) {
+    lines.push(`${direction.prompt}.`);
+  }
+  if (instruction) {
+    lines.push(`The user asked for this, follow it unless it conflicts with the weather: "${instruction}".`);
+  }
+  if (options.weather) {
+    lines.push(`Dress the person for the weather (${describeWeather(options.weather)}) with suitable layers and shoes.`);
+  }
+  lines.push(
+    personalized
+      ? 'The result should look like a realistic photo of the same person wearing the improved outfit.'
+      : 'Create a detailed, professional-looking outfit illustration with a person wearing the suggested clothing.'
+  );
+
+  return lines.join('\n');
+}
+
+/**
+ * Generate `options.variants` outfit suggestion images in parallel, one per
+ * styling direction, and upload them. When garments were detected the
+ * model edits the user's own photo, keeping what works and applying the
+ * tips; otherwise it draws a generic outfit. The suggestion is for the
+ * target occasion when one was given, otherwise for the category, and
+ * dressed for the weather when conditions were given.
+ *
+ * Variants the model answered without an image are left out; the call only
+ * fails when every variant failed. `onImage` is called as each one lands.
+ * `instruction` steers every variant, e.g. when regenerating. Images of
+ * variants that failed after their upload are deleted again; the returned
+ * ones are the caller's to discard if it cannot save them.
+ */
+export async function generateSuggestionImages(
+  app: App,
+  analysis: OutfitAnalysis,
+  // Null when the original photo is not available
+  photo: Buffer | null,
+  options: AnalysisOptions,
+  {
+    instruction = null,
+    onImage,
+  }: {
+    // Free-text steering from the user, e.g. "more colourful"
+    instruction?: string | null;
+    onImage?: (image: SuggestionImage) => void | Promise<void>;
+  } = {}
+): Promise<{ images: SuggestionImage[]; model: string }> {
+  // Random part so concurrent calls never share a key, even within a millisecond
+  const prefix = `${Date.now()}-${randomUUID()}`;
+  const baseName = (options.targetOccasion ?? analysis.category).toLowerCase();
+  // Nothing detected usually means the photo is unusable as a starting point
+  const referenceImage = photo && analysis.garments.length > 0 ? photo : undefined;
+  const uploadedKeys: string[] = [];
+
+  const results = await Promise.allSettled(
+    directionsForVariants(options.variants).map(async (direction) => {
+      const prompt = buildSuggestionPrompt(analysis, options, direction, !!referenceImage, instruction);
+      const { result: image, model } = await runWithFallback(app, 'generation', (provider, modelId, abortSignal) =>
+        provider.generateImage({ modelId, prompt, referenceImage, abortSignal })
+      );
+      if (!image) {
+        return { image: null, model };
+      }
+
+      // Convert image to buffer and upload to storage
+      const key = `outfit-suggestions/${prefix}-${baseName}${direction ? `-${direction.id}` : ''}.png`;
+      await app.storage.upload(key, Buffer.from(image.data));
+      uploadedKeys.push(key);
+      const suggestion: SuggestionImage = { key, direction: direction?.id ?? null, instruction };
+      await onImage?.(suggestion);
+      return { image: suggestion, model };
+    })
+  );
+
+  const fulfilled = results.flatMap((result) => (result.status === 'fulfilled' ? [result.value] : []));
+  const failures = results.flatMap((result) => (result.status === 'rejected' ? [result.reason] : []));
+  const images = fulfilled.flatMap(({ image }) => (image ? [image] : []));
+  await discardStoredImages(
+    app,
+    uploadedKeys.filter((key) => !images.some((image) => image.key === key))
+  );
+  if (fulfilled.length === 0) {
+    throw failures[0];
+  }
+  for (const failure of failures) {
+    app.logger.warn({ err: failure }, 'Suggestion variant failed');
+  }
+
+  return {
+    images,
+    model: fulfilled[0].model,
+  };
+}
+
+/**
+ * Persist a completed analysis so it shows up in the history
+ */
+export async function saveAnalysis(
+  app: App,
+  values: {
+    id: string;
+    ownerId: string;
+    imageKey: string;
+    analysis: OutfitAnalysis;
+    targetOccasion: string | null;
+    palette: ColorPalette | null;
+    suggestionImages: SuggestionImage[];
+    // Base prompt version the classification ran with
+    promptVersion: string;
+    // Model specs that actually served each step
+    classificationModel: string;
+    generationModel: string;
+  }
+) {
+  const [row] = await app.db
+    .insert(outfitAnalyses)
+    .values({
+      id: values.id,
+      ownerId: values.ownerId,
+      imageKey: values.imageKey,
+      category: values.analysis.category,
+      predictedCategory: values.analysis.category,
+      scores: values.analysis.scores,
+      garments: values.analysis.garments,
+      tips: values.analysis.tips,
+      palette: values.palette,
+      targetOccasion: values.targetOccasion,
+      occasionMatch: values.analysis.occasionMatch,
+      weather: values.analysis.weather,
+      explanation: values.analysis.explanation,
+      confidence: confidenceLabel(values.analysis.confidence),
+      confidenceScore: values.analysis.confidence,
+      // The first variant doubles as the single suggestion older clients show
+      suggestionImageKey: values.suggestionImages[0]?.key ?? null,
+      suggestionImages: values.suggestionImages,
+      promptVersion: values.promptVersion,
+      classificationModel: values.classificationModel,
+      generationModel: values.generationModel,
+    })
+    .returning();
+
+  return row as typeof outfitAnalyses.$inferSelect;
+}
@@ -0,0 +1,95 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { wardrobeItems } from '../db/schema.js';
+import { proposeOutfits, scoreOutfit, slotOf } from './outfit-builder.js';
+
+let nextId = 0;
+
+function item(type: string, colors: string[], pattern: 'solid' | 'striped' = 'solid') {
+  nextId++;
+  return {
+    id: `item-${nextId}`,
+    ownerId: 'owner',
+    imageKey: null,
+    type,
+    colors,
+    pattern,
+    material: null,
+    seasons: [],
+    brand: null,
+    tags: [],
+    purchaseDate: null,
+    purchasePrice: null,
+    sourceAnalysisId: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  } satisfies typeof wardrobeItems.$inferSelect;
+}
+
+const professional = {
+  label: 'a professional look',
+  description: 'Business attire',
+  formality: [4, 5] as [number, number],
+};
+
+describe('outfit builder', () => {
+  it('sorts garment types into slots', () => {
+    assert.deepEqual(
+      ['dress shirt', 'shirt dress', 'dress shoes', 'denim jacket', 'chinos', 'watch'].map(slotOf),
+      ['top', 'onePiece', 'shoes', 'outerwear', 'bottom', 'accessory']
+    );
+  });
+
+  it('scores formality against the target and colour harmony', () => {
+    const suited = scoreOutfit(
+      [item('dress shirt', ['white']), item('slacks', ['charcoal']), item('oxfords', ['black'])],
+      professional.formality
+    );
+    assert.deepEqual(suited, {
+      score: 1,
+      harmony: null,
+      reasons: ['Neutral colours go with each other', 'Every piece suits the dress code'],
+    });
+
+    const gym = scoreOutfit(
+      [item('hoodie', ['red']), item('joggers', ['green'], 'striped'), item('sneakers', ['white'])],
+      professional.formality
+    );
+    assert.equal(gym.harmony, 'clashing');
+    assert.equal(gym.score, 0.28);
+    assert.deepEqual(gym.reasons, [
+      'Colours clash',
+      'The hoodie is too casual',
+      'The joggers are too casual',
+      'The sneakers are too casual',
+    ]);
+  });
+
+  it('proposes distinct complete outfits and reports what is missing', () => {
+    const wardrobe = [
+      item('t-shirt', ['white']),
+      item('jeans', ['blue']),
+      item('sneakers', ['white']),
+      item('blazer', ['navy']),
+      item('dress shirt', ['light blue']),
+      item('slacks', ['grey']),
+      item('oxfords', ['brown']),
+    ];
+
+    const { proposals, missing } = proposeOutfits(wardrobe, professional, 2);
+
+    assert.deepEqual(missing, []);
+    assert.deepEqual(
+      proposals.map((proposal) => proposal.items.map((entry) => entry.type)),
+      [
+        ['dress shirt', 'slacks', 'oxfords'],
+        // Shares no more than half its items with the first
+        ['dress shirt', 'slacks', 'blazer', 'sneakers'],
+      ]
+    );
+
+    const shoeless = proposeOutfits(wardrobe.slice(0, 2), professional, 1);
+    assert.deepEqual(shoeless.missing, ['shoes']);
+    assert.equal(shoeless.proposals.length, 1);
+  });
+});
@@ -0,0 +1,295 @@
+import { z } from 'zod';
+import type { wardrobeItems } from '../db/schema.js';
+import { runWithFallback } from '../providers/registry.js';
+import { classifyHueHarmony, type ColorHarmony } from './palette.js';
+import type { App } from '../index.js';
+
+type WardrobeItemRow = typeof wardrobeItems.$inferSelect;
+
+/**
+ * What proposals are put together for: a category or an occasion
+ */
+export interface OutfitTarget {
+  label: string;
+  // Category description or occasion dress code, for the ranking prompt
+  description: string;
+  // 1 (athletic, lounge) to 5 (black tie)
+  formality: [number, number];
+}
+
+export const garmentSlots = ['onePiece', 'top', 'bottom', 'outerwear', 'shoes', 'accessory'] as const;
+
+export type GarmentSlot = (typeof garmentSlots)[number];
+
+export interface OutfitScore {
+  // 0..1
+  score: number;
+  // Null when every colour is a neutral
+  harmony: ColorHarmony | null;
+  reasons: string[];
+}
+
+export interface OutfitProposal extends OutfitScore {
+  items: WardrobeItemRow[];
+  // Set when a model re-ranked the proposals
+  rankingReason: string | null;
+}
+
+// Matched against the lowercase item type; first match wins, so
+// more specific keywords come before the ones they contain
+const slotKeywords: [GarmentSlot, string[]][] = [
+  ['shoes', ['sneakers', 'trainers', 'shoes', 'boots', 'loafers', 'heels', 'pumps', 'sandals', 'flats', 'oxfords', 'brogues', 'derbies', 'espadrilles', 'slides', 'mules', 'flip-flops', 'flip flops']],
+  ['bottom', ['jeans', 'trousers', 'pants', 'chinos', 'shorts', 'skirt', 'joggers', 'leggings', 'slacks', 'cargos']],
+  ['top', ['dress shirt']],
+  ['onePiece', ['dress', 'gown', 'jumpsuit', 'romper', 'playsuit', 'overalls', 'tuxedo']],
+  ['outerwear', ['coat', 'jacket', 'blazer', 'parka', 'trench', 'puffer', 'anorak', 'cardigan', 'gilet', 'vest', 'poncho']],
+  ['top', ['shirt', 'tee', 'top', 'blouse', 'sweater', 'jumper', 'hoodie', 'polo', 'knit', 'turtleneck', 'tank', 'camisole', 'bodysuit', 'fleece']],
+];
+
+const formalityKeywords: [string, number][] = [
+  ['tuxedo', 5], ['gown', 5], ['bow tie', 5], ['tailcoat', 5],
+  ['sweatshirt', 1], ['sweatpants', 1], ['tracksuit', 1], ['track', 1], ['joggers', 1], ['leggings', 1],
+  ['hoodie', 1], ['running', 1], ['slides', 1], ['flip-flops', 1], ['flip flops', 1], ['tank', 1],
+  ['swim', 1], ['sports bra', 1], ['fleece', 1],
+  ['jumpsuit', 3], ['dress shirt', 4], ['suit', 4], ['blazer', 4], ['oxfords', 4], ['derbies', 4],
+  ['brogues', 4], ['heels', 4], ['pumps', 4], ['slacks', 4], ['overcoat', 4], ['trench', 4], ['cocktail', 4],
+  ['denim jacket', 2], ['t-shirt', 2], ['tee', 2], ['polo', 2], ['jeans', 2], ['sneakers', 2],
+  ['trainers', 2], ['shorts', 2], ['sandals', 2], ['cargo', 2], ['bomber', 2], ['hiking', 2], ['puffer', 2],
+];
+// Shirts, knitwear, chinos, skirts, dresses, coats, boots and anything unknown
+const DEFAULT_FORMALITY = 3;
+
+// Neutrals go with anything and are left out of the harmony check
+const neutralColors = [
+  'black', 'white', 'grey', 'gray', 'charcoal', 'navy', 'beige', 'cream', 'ivory', 'tan', 'camel',
+  'khaki', 'brown', 'denim', 'taupe', 'silver', 'gold', 'nude', 'stone', 'ecru',
+];
+const colorHues: [string, number][] = [
+  ['burgundy', 345], ['maroon', 345], ['wine', 345], ['coral', 16], ['terracotta', 18], ['rust', 20],
+  ['orange', 30], ['mustard', 45], ['yellow', 55], ['olive', 75], ['lime', 90], ['mint', 150],
+  ['green', 120], ['turquoise', 175], ['teal', 180], ['aqua', 185], ['sky', 200], ['cobalt', 215],
+  ['blue', 220], ['indigo', 240], ['lavender', 270], ['violet', 270], ['purple', 275], ['lilac', 280],
+  ['magenta', 310], ['fuchsia', 315], ['pink', 330], ['red', 0],
+];
+
+const harmonyScores: Record<ColorHarmony, { score: number; reason: string }> = {
+  monochrome: { score: 1, reason: 'Colours stay in one family' },
+  analogous: { score: 0.9, reason: 'Neighbouring colours work together' },
+  complementary: { score: 0.85, reason: 'Complementary colours' },
+  clashing: { score: 0.4, reason: 'Colours clash' },
+};
+
+// Only this many items per slot, the best fits for the target, are combined
+const SLOT_CANDIDATES = 6;
+const FORMALITY_WEIGHT = 0.6;
+
+export function slotOf(type: string): GarmentSlot {
+  return slotKeywords.find(([, keywords]) => keywords.some((keyword) => type.includes(keyword)))?.[0] ?? 'accessory';
+}
+
+export function formalityOf(type: string): number {
+  return formalityKeywords.find(([keyword]) => type.includes(keyword))?.[1] ?? DEFAULT_FORMALITY;
+}
+
+// Hue in degrees, or null for neutrals and names we do not know
+function hueOf(color: string): number | null {
+  if (neutralColors.some((name) => color.includes(name))) return null;
+  return colorHues.find(([name]) => color.includes(name))?.[1] ?? null;
+}
+
+// How far outside the target range a formality level is, 0 inside it
+function formalityDistance(level: number, [min, max]: [number, number]): number {
+  return level < min ? min - level : level > max ? level - max : 0;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// "The jeans are", "The dress is"
+function theItem(type: string): string {
+  return `The ${type} ${type.endsWith('s') && !type.endsWith('ss') ? 'are' : 'is'}`;
+}
+
+/**
+ * Rule-based compatibility of a set of items: their formality against the
+ * target range and how their colours and patterns work together.
+ */
+export function scoreOutfit(items: WardrobeItemRow[], formality: [number, number]): OutfitScore {
+  const reasons: string[] = [];
+
+  const hues = items.flatMap((item) => item.colors.map(hueOf)).filter((hue) => hue !== null);
+  const harmony = hues.length > 0 ? classifyHueHarmony(hues) : null;
+  let colorScore = harmony ? harmonyScores[harmony].score : 1;
+  reasons.push(harmony ? harmonyScores[harmony].reason : 'Neutral colours go with each other');
+
+  const patterned = items.filter((item) => item.pattern && item.pattern !== 'solid');
+  if (patterned.length > 1) {
+    colorScore *= 0.7;
+    reasons.push('Several patterns compete');
+  }
+
+  // Accessories do not set the dress code
+  const levels = items
+    .filter((item) => slotOf(item.type) !== 'accessory')
+    .map((item) => ({ item, level: formalityOf(item.type) }));
+  let formalityScore = 1;
+  if (levels.length > 0) {
+    const distances = levels.map(({ level }) => formalityDistance(level, formality));
+    const meanDistance = distances.reduce((sum, distance) => sum + distance, 0) / distances.length;
+    formalityScore = Math.max(0, 1 - 0.3 * meanDistance);
+
+    for (const { item, level } of levels) {
+      if (level < formality[0]) reasons.push(`${theItem(item.type)} too casual`);
+      if (level > formality[1]) reasons.push(`${theItem(item.type)} too dressy`);
+    }
+    if (distances.every((distance) => distance === 0)) {
+      reasons.push('Every piece suits the dress code');
+    }
+
+    const spread = Math.max(...levels.map(({ level }) => level)) - Math.min(...levels.map(({ level }) => level));
+    if (spread >= 3) {
+      formalityScore *= 0.8;
+      reasons.push('Mixes very casual and very dressy pieces');
+    }
+  }
+
+  return {
+    score: round2(FORMALITY_WEIGHT * formalityScore + (1 - FORMALITY_WEIGHT) * colorScore),
+    harmony,
+    reasons,
+  };
+}
+
+/**
+ * Put complete outfits together from a wardrobe: a top and a bottom or a
+ * one-piece, with shoes and optionally a layer on top, scored with
+ * scoreOutfit. Proposals share as few items as the wardrobe allows.
+ *
+ * @returns The best `count` proposals, and the slots the wardrobe lacks
+ *   for a complete outfit
+ */
+export function proposeOutfits(
+  items: WardrobeItemRow[],
+  target: OutfitTarget,
+  count: number
+): { proposals: OutfitProposal[]; missing: GarmentSlot[] } {
+  const bySlot = new Map<GarmentSlot, WardrobeItemRow[]>(garmentSlots.map((slot) => [slot, []]));
+  for (const item of items) {
+    bySlot.get(slotOf(item.type))!.push(item);
+  }
+  // Stable sort, so ties keep the newest items first
+  for (const [slot, slotItems] of bySlot) {
+    const best = slotItems
+      .map((item) => ({ item, distance: formalityDistance(formalityOf(item.type), target.formality) }))
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, SLOT_CANDIDATES)
+      .map(({ item }) => item);
+    bySlot.set(slot, best);
+  }
+
+  const [tops, bottoms, onePieces, shoes, outerwear] = (
+    ['top', 'bottom', 'onePiece', 'shoes', 'outerwear'] as const
+  ).map((slot) => bySlot.get(slot)!);
+
+  const missing: GarmentSlot[] = [];
+  if (onePieces.length === 0) {
+    if (tops.length === 0) missing.push('top');
+    if (bottoms.length === 0) missing.push('bottom');
+  }
+  if (shoes.length === 0) missing.push('shoes');
+
+  const bases = [
+    ...tops.flatMap((top) => bottoms.map((bottom) => [top, bottom])),
+    ...onePieces.map((onePiece) => [onePiece]),
+  ];
+  const candidates: OutfitProposal[] = [];
+  for (const base of bases) {
+    for (const shoe of shoes.length > 0 ? shoes : [null]) {
+      for (const layer of [null, ...outerwear]) {
+        const outfit = [...base, layer, shoe].filter((item) => item !== null);
+        candidates.push({ items: outfit, ...scoreOutfit(outfit, target.formality), rankingReason: null });
+      }
+    }
+  }
+  candidates.sort((a, b) => b.score - a.score);
+
+  // Prefer proposals that share at most half their items with a better one
+  const proposals: OutfitProposal[] = [];
+  for (const candidate of candidates) {
+    if (proposals.length >= count) break;
+    const overlaps = proposals.some(
+      (proposal) =>
+        candidate.items.filter((item) => proposal.items.includes(item)).length > candidate.items.length / 2
+    );
+    if (!overlaps) proposals.push(candidate);
+  }
+  for (const candidate of candidates) {
+    if (proposals.length >= count) break;
+    if (!proposals.includes(candidate)) proposals.push(candidate);
+  }
+
+  return { proposals, missing };
+}
+
+const rankingSchema = z.object({
+  ranking: z
+    .array(
+      z.object({
+        candidate: z.number().int().describe('Number of the outfit in the list'),
+        reason: z.string().describe('One short sentence on why it works'),
+      })
+    )
+    .describe('Outfits from best to worst; leave out the ones that do not work at all'),
+});
+
+// e.g. "navy/white striped cotton shirt"
+function describeItem(item: WardrobeItemRow): string {
+  const pattern = item.pattern && item.pattern !== 'solid' && item.pattern !== 'other' ? item.pattern : null;
+  return [item.colors.join('/'), pattern, item.material, item.type].filter(Boolean).join(' ');
+}
+
+/**
+ * Let the ranking model reorder rule-based proposals. Outfits it leaves
+ * out keep their rule-based order after the ones it ranked.
+ *
+ * @returns The reordered proposals and the spec of the model that ranked them
+ */
+export async function rankProposals(
+  app: App,
+  proposals: OutfitProposal[],
+  target: OutfitTarget
+): Promise<{ proposals: OutfitProposal[]; model: string }> {
+  const prompt = [
+    `You are a personal stylist. These outfits were put together from the user's own wardrobe for ${target.label} (${target.description}).`,
+    '',
+    ...proposals.map((proposal, index) => `${index + 1}. ${proposal.items.map(describeItem).join('; ')}`),
+    '',
+    'Rank them from best to worst on how well the pieces go together and suit the occasion, with one short reason each.',
+  ].join('\n');
+
+  const { result, model } = await runWithFallback(app, 'ranking', (provider, modelId, abortSignal) =>
+    provider.completeText({
+      modelId,
+      prompt,
+      schema: rankingSchema,
+      schemaName: 'OutfitRanking',
+      schemaDescription: 'Outfit candidates ordered from best to worst',
+      abortSignal,
+    })
+  );
+
+  const ranked = new Map<number, string>();
+  for (const { candidate, reason } of result.ranking) {
+    const index = candidate - 1;
+    if (index >= 0 && index < proposals.length && !ranked.has(index)) {
+      ranked.set(index, reason.trim());
+    }
+  }
+
+  return {
+    proposals: [
+      ...[...ranked].map(([index, reason]) => ({ ...proposals[index], rankingReason: reason || null })),
+      ...proposals.filter((_, index) => !ranked.has(index)),
+    ],
+    model,
+  };
+}
@@ -0,0 +1,184 @@
+import sharp from 'sharp';
+
+export const colorHarmonies = ['monochrome', 'complementary', 'analogous', 'clashing'] as const;
+
+export type ColorHarmony = (typeof colorHarmonies)[number];
+
+export interface PaletteColor {
+  hex: string;
+  // Fraction of the photo covered by this colour, 0..1
+  share: number;
+}
+
+export interface ColorPalette {
+  colors: PaletteColor[];
+  harmony: ColorHarmony;
+}
+
+type Rgb = [number, number, number];
+
+// The photo is shrunk to at most this many pixels per side before clustering
+const SAMPLE_SIZE = 64;
+const PALETTE_SIZE = 5;
+const KMEANS_ITERATIONS = 12;
+// Colours covering less of the photo than this are noise, not palette
+const MIN_SHARE = 0.04;
+// Only colours at least this prominent take part in the harmony check
+const HARMONY_MIN_SHARE = 0.1;
+
+/**
+ * Extract the dominant colours of a photo and classify how they work
+ * together. Pure image processing, no model call. Returns null when the
+ * image format cannot be decoded (e.g. HEIC), so the analysis can go on.
+ */
+export async function extractPalette(image: Buffer): Promise<ColorPalette | null> {
+  let pixels: Buffer;
+  try {
+    pixels = await sharp(image)
+      .rotate()
+      .resize(SAMPLE_SIZE, SAMPLE_SIZE, { fit: 'inside' })
+      .removeAlpha()
+      .raw()
+      .toBuffer();
+  } catch {
+    return null;
+  }
+
+  const samples: Rgb[] = [];
+  for (let i = 0; i + 2 < pixels.length; i += 3) {
+    samples.push([pixels[i], pixels[i + 1], pixels[i + 2]]);
+  }
+  if (samples.length === 0) return null;
+
+  const colors = clusterColors(samples)
+    .filter((color) => color.share >= MIN_SHARE)
+    .sort((a, b) => b.share - a.share);
+
+  return { colors, harmony: classifyHarmony(colors) };
+}
+
+function distanceSquared(a: Rgb, b: Rgb): number {
+  return (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2;
+}
+
+/**
+ * k-means over RGB samples. Seeds are chosen farthest-first from the
+ * first sample, which keeps the result deterministic for a given photo.
+ */
+function clusterColors(samples: Rgb[]): PaletteColor[] {
+  const centroids: Rgb[] = [samples[0]];
+  while (centroids.length < Math.min(PALETTE_SIZE, samples.length)) {
+    let farthest = samples[0];
+    let farthestDistance = -1;
+    for (const sample of samples) {
+      const nearest = Math.min(...centroids.map((centroid) => distanceSquared(sample, centroid)));
+      if (nearest > farthestDistance) {
+        farthest = sample;
+        farthestDistance = nearest;
+      }
+    }
+    // Fewer distinct colours than clusters
+    if (farthestDistance === 0) break;
+    centroids.push(farthest);
+  }
+
+  const assignments = new Array<number>(samples.length).fill(0);
+  for (let iteration = 0; iteration < KMEANS_ITERATIONS; iteration++) {
+    samples.forEach((sample, index) => {
+      let best = 0;
+      for (let c = 1; c < centroids.length; c++) {
+        if (distanceSquared(sample, centroids[c]) < distanceSquared(sample, centroids[best])) {
+          best = c;
+        }
+      }
+      assignments[index] = best;
+    });
+
+    const sums = centroids.map(() => [0, 0, 0, 0]);
+    samples.forEach((sample, index) => {
+      const sum = sums[assignments[index]];
+      sum[0] += sample[0];
+      sum[1] += sample[1];
+      sum[2] += sample[2];
+      sum[3]++;
+    });
+    sums.forEach((sum, c) => {
+      if (sum[3] > 0) {
+        centroids[c] = [sum[0] / sum[3], sum[1] / sum[3], sum[2] / sum[3]];
+      }
+    });
+  }
+
+  const counts = centroids.map(() => 0);
+  assignments.forEach((c) => counts[c]++);
+
+  return centroids
+    .map((centroid, c) => ({
+      hex: toHex(centroid),
+      share: Math.round((counts[c] / samples.length) * 100) / 100,
+    }))
+    .filter((color) => color.share > 0);
+}
+
+function toHex(rgb: Rgb): string {
+  return `#${rgb.map((channel) => Math.round(channel).toString(16).padStart(2, '0')).join('')}`;
+}
+
+function toHsl(hex: string): { hue: number; saturation: number; lightness: number } {
+  const [r, g, b] = [1, 3, 5].map((offset) => parseInt(hex.slice(offset, offset + 2), 16) / 255);
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const lightness = (max + min) / 2;
+  const delta = max - min;
+  if (delta === 0) return { hue: 0, saturation: 0, lightness };
+
+  const saturation = delta / (1 - Math.abs(2 * lightness - 1));
+  let hue: number;
+  if (max === r) hue = ((g - b) / delta) % 6;
+  else if (max === g) hue = (b - r) / delta + 2;
+  else hue = (r - g) / delta + 4;
+
+  return { hue: (hue * 60 + 360) % 360, saturation, lightness };
+}
+
+function hueDistance(a: number, b: number): number {
+  const difference = Math.abs(a - b) % 360;
+  return Math.min(difference, 360 - difference);
+}
+
+/**
+ * Classify the relationship between the prominent chromatic colours.
+ * Neutrals (greys, near-black, near-white, washed-out tones) go with
+ * anything and are left out.
+ */
+function classifyHarmony(colors: PaletteColor[]): ColorHarmony {
+  const hues = colors
+    .filter((color) => color.share >= HARMONY_MIN_SHARE)
+    .map((color) => toHsl(color.hex))
+    .filter(({ saturation, lightness }) => saturation >= 0.2 && lightness > 0.12 && lightness < 0.9)
+    .map(({ hue }) => hue);
+
+  return classifyHueHarmony(hues);
+}
+
+/**
+ * Classify how a set of chromatic hues (degrees on the colour wheel)
+ * work together. Fewer than two hues count as monochrome.
+ */
+export function classifyHueHarmony(hues: number[]): ColorHarmony {
+  if (hues.length <= 1) return 'monochrome';
+
+  const spread = Math.max(...hues.flatMap((a) => hues.map((b) => hueDistance(a, b))));
+  if (spread <= 20) return 'monochrome';
+  if (spread <= 60) return 'analogous';
+
+  // Two hue families roughly opposite each other on the colour wheel
+  const anchor = hues[0];
+  const opposite = hues.find((hue) => hueDistance(anchor, hue) > 60);
+  const isComplementary =
+    opposite !== undefined &&
+    hueDistance(anchor, opposite) >= 150 &&
+    hues.every((hue) => hueDistance(hue, anchor) <= 30 || hueDistance(hue, opposite) <= 30);
+
+  return isComplementary ? 'complementary' : 'clashing';
+}
@@ -0,0 +1,52 @@
+/**
+ * Styling directions for suggestion variants. When several suggestion
+ * images are requested, each one follows the next direction in this list.
+ *
+ * Ids are stored with every variant; never rename or remove one.
+ */
+export const styleDirections = [
+  {
+    id: 'minimal',
+    label: 'Minimal',
+    prompt: 'Keep it minimal: a few clean, well-fitted pieces in a restrained neutral palette, no busy patterns',
+  },
+  {
+    id: 'bold',
+    label: 'Bold',
+    prompt: 'Make it bold: a statement piece, confident colour or pattern mixing and eye-catching accessories',
+  },
+  {
+    id: 'budget',
+    label: 'Budget',
+    prompt: 'Keep it affordable: high-street basics and versatile pieces most people already own',
+  },
+  {
+    id: 'premium',
+    label: 'Premium',
+    prompt: 'Make it premium: luxurious fabrics, impeccable tailoring and refined designer-level details',
+  },
+] as const;
+
+export type StyleDirectionDefinition = (typeof styleDirections)[number];
+
+export type StyleDirection = StyleDirectionDefinition['id'];
+
+// One generated suggestion image; direction is null for a single plain suggestion
+export interface SuggestionImage {
+  key: string;
+  direction: StyleDirection | null;
+  // User steering for regenerated images; missing on older images
+  instruction?: string | null;
+}
+
+export const styleDirectionIds = styleDirections.map((direction) => direction.id);
+
+export const MAX_VARIANTS = styleDirections.length;
+
+/**
+ * Directions for the requested number of variants. A single variant keeps
+ * the plain suggestion, so it gets no direction.
+ */
+export function directionsForVariants(variants: number): (StyleDirectionDefinition | null)[] {
+  return variants <= 1 ? [null] : styleDirections.slice(0, variants);
+}
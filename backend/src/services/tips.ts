@@ -0,0 +1,40 @@
+import { z } from 'zod';
+
+export const tipActions = ['swap', 'add', 'remove'] as const;
+export const tipPriorities = ['high', 'medium', 'low'] as const;
+
+export const stylingTipSchema = z.object({
+  action: z.enum(tipActions),
+  garment: z.string().describe('Garment the tip applies to, e.g. sneakers; for "add", the item to add'),
+  suggestion: z.string().describe('One short imperative sentence'),
+  priority: z.enum(tipPriorities),
+});
+
+export type StylingTip = z.infer<typeof stylingTipSchema>;
+
+/**
+ * Order tips by priority, most important first, keeping the model's
+ * order within a priority
+ */
+export function sortTips(tips: StylingTip[]): StylingTip[] {
+  return tips
+    .map((tip, index) => ({ tip, index }))
+    .sort(
+      (a, b) =>
+        tipPriorities.indexOf(a.tip.priority) - tipPriorities.indexOf(b.tip.priority) ||
+        a.index - b.index
+    )
+    .map(({ tip }) => ({ ...tip, garment: tip.garment.trim().toLowerCase() }));
+}
+
+// JSON schema for a styling tip in API responses
+export const tipResponseSchema = {
+  type: 'object',
+  properties: {
+    action: { type: 'string', enum: tipActions },
+    garment: { type: 'string', description: 'Garment the tip applies to' },
+    suggestion: { type: 'string', description: 'What to do, as one short sentence' },
+    priority: { type: 'string', enum: tipPriorities },
+  },
+  required: ['action', 'garment', 'suggestion', 'priority'],
+} as const;
@@ -0,0 +1,73 @@
+import sharp from 'sharp';
+import type { wardrobeItems } from '../db/schema.js';
+import type { DetectedGarment } from './garments.js';
+import { uploadExtensions } from './outfit-analysis.js';
+import type { App } from '../index.js';
+
+type WardrobeItemInsert = typeof wardrobeItems.$inferInsert;
+
+// Crops get a margin around the model's rough box, as a fraction of the box size
+const CROP_MARGIN = 0.1;
+const CROP_MAX_SIZE = 800;
+
+/**
+ * Keep an item photo uploaded on its own under a key derived from the item id
+ */
+export async function storeItemPhoto(
+  app: App,
+  itemId: string,
+  image: Buffer,
+  mimetype: string
+): Promise<string> {
+  const imageKey = `wardrobe-items/${itemId}.${uploadExtensions[mimetype] ?? 'jpg'}`;
+  await app.storage.upload(imageKey, image);
+  return imageKey;
+}
+
+/**
+ * Cut a detected garment out of the analysis photo, with a small margin
+ * since the boxes are rough. Returns null when the photo cannot be
+ * decoded (e.g. HEIC), so the item is still saved without a photo.
+ */
+export async function cropGarment(image: Buffer, garment: DetectedGarment): Promise<Buffer | null> {
+  try {
+    // Boxes are relative to the photo as displayed, so apply the EXIF orientation first
+    const { data, info } = await sharp(image).rotate().toBuffer({ resolveWithObject: true });
+    const { x, y, width, height } = garment.boundingBox;
+    const left = Math.max(0, x - width * CROP_MARGIN);
+    const top = Math.max(0, y - height * CROP_MARGIN);
+    const right = Math.min(1, x + width * (1 + CROP_MARGIN));
+    const bottom = Math.min(1, y + height * (1 + CROP_MARGIN));
+
+    const region = {
+      left: Math.floor(left * info.width),
+      top: Math.floor(top * info.height),
+      width: Math.max(1, Math.round((right - left) * info.width)),
+      height: Math.max(1, Math.round((bottom - top) * info.height)),
+    };
+    region.width = Math.min(region.width, info.width - region.left);
+    region.height = Math.min(region.height, info.height - region.top);
+
+    return await sharp(data)
+      .extract(region)
+      .resize(CROP_MAX_SIZE, CROP_MAX_SIZE, { fit: 'inside', withoutEnlargement: true })
+      .jpeg({ quality: 85 })
+      .toBuffer();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Wardrobe item fields for a garment detected in an analysis
+ */
+export function itemFromGarment(
+  garment: DetectedGarment
+): Pick<WardrobeItemInsert, 'type' | 'colors' | 'pattern' | 'material'> {
+  return {
+    type: garment.type,
+    colors: garment.color ? [garment.color] : [],
+    pattern: garment.pattern,
+    material: garment.material || null,
+  };
+}
@@ -0,0 +1,51 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { DetectedGarment } from './garments.js';
+import { assessWeather } from './weather.js';
+
+function garment(type: string, material = 'cotton'): DetectedGarment {
+  return {
+    type,
+    color: 'black',
+    pattern: 'solid',
+    material,
+    boundingBox: { x: 0, y: 0, width: 1, height: 1 },
+  };
+}
+
+const calm = { location: null, precipitation: null, windKph: null };
+
+describe('assessWeather', () => {
+  it('warns about shorts and a missing coat when it is freezing', () => {
+    const { warnings } = assessWeather([garment('t-shirt'), garment('shorts')], {
+      ...calm,
+      temperatureC: 2,
+    });
+
+    assert.deepEqual(warnings, ['Shorts will be too cold at 2°C', 'No coat or warm layer for 2°C']);
+  });
+
+  it('warns about suede and a missing rain layer in the rain', () => {
+    const { warnings } = assessWeather([garment('jacket', 'denim'), garment('boots', 'suede')], {
+      ...calm,
+      temperatureC: 12,
+      precipitation: 'rain',
+    });
+
+    assert.deepEqual(warnings, [
+      'Suede boots will be ruined by the rain',
+      'Nothing to keep the rain off; take a raincoat or umbrella',
+    ]);
+  });
+
+  it('has no warnings when the outfit suits the conditions', () => {
+    const { warnings } = assessWeather([garment('linen shirt'), garment('shorts'), garment('sandals')], {
+      ...calm,
+      temperatureC: 30,
+      precipitation: 'none',
+      windKph: 10,
+    });
+
+    assert.deepEqual(warnings, []);
+  });
+});
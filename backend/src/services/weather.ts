@@ -0,0 +1,125 @@
+import type { DetectedGarment } from './garments.js';
+import type { Precipitation } from '../weather/registry.js';
+
+/**
+ * Conditions the user is dressing for. Either typed in directly or looked
+ * up for a location; any field the user left out is null.
+ */
+export interface WeatherConditions {
+  // Set when the conditions came from a weather provider
+  location: string | null;
+  temperatureC: number | null;
+  precipitation: Precipitation | null;
+  windKph: number | null;
+}
+
+export interface WeatherAssessment extends WeatherConditions {
+  // Why the outfit does not suit the conditions; empty when it does
+  warnings: string[];
+}
+
+const COLD_C = 10;
+const FREEZING_C = 3;
+const HOT_C = 27;
+const WINDY_KPH = 40;
+
+// Matched against the normalised garment type
+const warmLayers = ['coat', 'jacket', 'parka', 'puffer', 'anorak', 'sweater', 'jumper', 'hoodie', 'cardigan', 'fleece', 'blazer'];
+const rainLayers = ['raincoat', 'trench', 'parka', 'anorak', 'shell', 'poncho'];
+const coldWeatherPieces = ['shorts', 'sandals', 'flip-flops', 'flip flops', 'tank top', 'crop top', 'slides'];
+const heavyPieces = ['coat', 'parka', 'puffer', 'turtleneck', 'sweater', 'jumper', 'fleece', 'scarf'];
+const openShoes = ['sandals', 'flip-flops', 'flip flops', 'slides', 'espadrilles'];
+const snowUnfitShoes = [...openShoes, 'sneakers', 'trainers', 'loafers', 'heels', 'pumps', 'flats'];
+const windBlownPieces = ['skirt', 'dress'];
+
+function matches(garment: DetectedGarment, keywords: string[]): boolean {
+  return keywords.some((keyword) => garment.type.includes(keyword));
+}
+
+function findGarment(garments: DetectedGarment[], keywords: string[]): DetectedGarment | undefined {
+  return garments.find((garment) => matches(garment, keywords));
+}
+
+/**
+ * One-line description of the conditions for the model prompts,
+ * e.g. "2°C, rain, wind 30 km/h in Oslo, Norway"
+ */
+export function describeWeather(conditions: WeatherConditions): string {
+  const parts: string[] = [];
+  if (conditions.temperatureC !== null) parts.push(`${Math.round(conditions.temperatureC)}°C`);
+  if (conditions.precipitation !== null) {
+    parts.push(conditions.precipitation === 'none' ? 'dry' : conditions.precipitation);
+  }
+  if (conditions.windKph !== null) parts.push(`wind ${Math.round(conditions.windKph)} km/h`);
+
+  const description = parts.join(', ');
+  return conditions.location ? `${description} in ${conditions.location}` : description;
+}
+
+/**
+ * Rule-based check of the detected garments against the conditions.
+ * Garment types are free text from the model, so this only catches the
+ * obvious mismatches (shorts at 2°C, suede in the rain).
+ */
+export function assessWeather(
+  garments: DetectedGarment[],
+  conditions: WeatherConditions
+): WeatherAssessment {
+  const warnings: string[] = [];
+  const { temperatureC, precipitation, windKph } = conditions;
+  const hasWarmLayer = !!findGarment(garments, warmLayers);
+
+  if (temperatureC !== null && temperatureC <= COLD_C) {
+    const temperature = `${Math.round(temperatureC)}°C`;
+    for (const garment of garments.filter((item) => matches(item, coldWeatherPieces))) {
+      warnings.push(`${capitalize(garment.type)} will be too cold at ${temperature}`);
+    }
+    if (!hasWarmLayer) {
+      warnings.push(
+        temperatureC <= FREEZING_C
+          ? `No coat or warm layer for ${temperature}`
+          : `Add a warm layer for ${temperature}`
+      );
+    }
+  }
+
+  if (temperatureC !== null && temperatureC >= HOT_C) {
+    for (const garment of garments.filter((item) => matches(item, heavyPieces))) {
+      warnings.push(`${capitalize(garment.type)} will be too warm at ${Math.round(temperatureC)}°C`);
+    }
+  }
+
+  if (precipitation === 'rain') {
+    for (const garment of garments) {
+      if (garment.material.includes('suede')) {
+        warnings.push(`Suede ${garment.type} will be ruined by the rain`);
+      } else if (matches(garment, openShoes)) {
+        warnings.push(`${capitalize(garment.type)} will leave your feet wet in the rain`);
+      }
+    }
+    if (!findGarment(garments, rainLayers)) {
+      warnings.push('Nothing to keep the rain off; take a raincoat or umbrella');
+    }
+  }
+
+  if (precipitation === 'snow') {
+    for (const garment of garments.filter((item) => matches(item, snowUnfitShoes))) {
+      warnings.push(`${capitalize(garment.type)} are not made for snow; wear boots`);
+    }
+  }
+
+  if (windKph !== null && windKph >= WINDY_KPH) {
+    for (const garment of garments.filter((item) => matches(item, windBlownPieces))) {
+      warnings.push(`A ${garment.type} will blow around in ${Math.round(windKph)} km/h wind`);
+    }
+    if (!hasWarmLayer) {
+      warnings.push('Add a jacket against the wind');
+    }
+  }
+
+  return { ...conditions, warnings };
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
@@ -0,0 +1,295 @@
+import assert from 'node:assert/strict';
+import { fileURLToPath } from 'node:url';
+import Fastify, { type FastifyInstance } from 'fastify';
+import multipart from '@fastify/multipart';
+import { PGlite } from '@electric-sql/pglite';
+import { drizzle } from 'drizzle-orm/pglite';
+import { migrate } from 'drizzle-orm/pglite/migrator';
+import * as schema from '../db/schema.js';
+import {
+  registerProvider,
+  type ImageGenerationRequest,
+  type ModelProvider,
+} from '../providers/registry.js';
+import { outfitCategoryIds } from '../services/categories.js';
+import { encodeGradientPng } from '../utils/png.js';
+import type { AnalysisResponse } from '../utils/analyses.js';
+import { buildApp, type App } from '../index.js';
+
+const migrationsFolder = fileURLToPath(new URL('../../drizzle', import.meta.url));
+
+export const TEST_OWNER_ID = 'test-device-0001';
+
+/**
+ * Controls for the `stub` model provider. Set `failure` to make every
+ * model call reject with it, or `pause` to hold classification until it settles.
+ */
+export interface StubModels {
+  analysis: Record<string, unknown>;
+  // Answer to text prompts, e.g. an outfit ranking
+  text: Record<string, unknown>;
+  failure: Error | null;
+  pause: Promise<void> | null;
+  calls: { classification: number; generation: number; text: number };
+  // Every image generation request, in call order
+  generationRequests: ImageGenerationRequest[];
+}
+
+export interface TestApp {
+  app: App;
+  fastify: FastifyInstance;
+  // Everything written through app.storage, keyed by storage key
+  storage: Map<string, Buffer>;
+  models: StubModels;
+  // Restore the default stub analysis and clear failures and recorded calls
+  resetModels(): void;
+  close(): Promise<void>;
+}
+
+function zeroScores(): Record<string, number> {
+  return Object.fromEntries(outfitCategoryIds.map((id) => [id, 0]));
+}
+
+function defaultStubAnalysis(): Record<string, unknown> {
+  return {
+    category: 'Casual',
+    scores: { ...zeroScores(), Casual: 0.8, Sport: 0.55 },
+    garments: [
+      {
+        type: 'jacket',
+        color: 'blue',
+        pattern: 'solid',
+        material: 'denim',
+        boundingBox: { x: 0.2, y: 0.15, width: 0.6, height: 0.4 },
+      },
+      {
+        type: 'sneakers',
+        color: 'white',
+        pattern: 'solid',
+        material: 'leather',
+        // Runs past the bottom edge; the service clamps it to the photo
+        boundingBox: { x: 0.3, y: 0.85, width: 0.4, height: 0.3 },
+      },
+    ],
+    tips: [
+      { action: 'add', garment: 'Watch', suggestion: 'Add a simple watch', priority: 'low' },
+      {
+        action: 'swap',
+        garment: 'sneakers',
+        suggestion: 'Swap the white sneakers for suede desert boots',
+        priority: 'high',
+      },
+    ],
+    explanation: 'Denim jacket over a plain tee with white sneakers.',
+    confidence: 0.9,
+    // Only kept by the schema when a target occasion was requested
+    occasionMatch: { score: 41.6, gaps: ['No tailored jacket', ' '] },
+  };
+}
+
+function createStubModels(): { models: StubModels; provider: ModelProvider } {
+  const models: StubModels = {
+    analysis: defaultStubAnalysis(),
+    text: { ranking: [] },
+    failure: null,
+    pause: null,
+    calls: { classification: 0, generation: 0, text: 0 },
+    generationRequests: [],
+  };
+
+  const provider: ModelProvider = {
+    async classifyImage({ schema }) {
+      models.calls.classification++;
+      await models.pause;
+      if (models.failure) throw models.failure;
+      return schema.parse(models.analysis);
+    },
+    async completeText({ schema }) {
+      models.calls.text++;
+      if (models.failure) throw models.failure;
+      return schema.parse(models.text);
+    },
+    async generateImage(request) {
+      models.calls.generation++;
+      models.generationRequests.push(request);
+      if (models.failure) throw models.failure;
+      return { data: encodeGradientPng(4, 4, [0, 0, 0], [255, 255, 255]), mediaType: 'image/png' };
+    },
+  };
+
+  return { models, provider };
+}
+
+/**
+ * Build the app through `buildApp` from `src/index.ts`, but backed by an
+ * in-memory PGlite database, in-memory storage and the `stub` model provider.
+ */
+export async function createTestApp(): Promise<TestApp> {
+  const client = new PGlite();
+  const db = drizzle(client, { schema });
+  await migrate(db, { migrationsFolder });
+
+  const storage = new Map<string, Buffer>();
+  const fastify = Fastify({ logger: false });
+  await fastify.register(multipart);
+
+  const { models, provider } = createStubModels();
+  registerProvider('stub', provider);
+  process.env.CLASSIFICATION_MODELS = 'stub:classifier';
+  process.env.GENERATION_MODELS = 'stub:image';
+  process.env.RANKING_MODELS = 'stub:ranker';
+  process.env.WEATHER_PROVIDER = 'fixture';
+
+  const app = {
+    fastify,
+    db,
+    logger: fastify.log,
+    // Storage below is already in memory
+    withStorage() {},
+    storage: {
+      async upload(key: string, data: Buffer) {
+        storage.set(key, data);
+      },
+      async getSignedUrl(key: string) {
+        return { url: `https://storage.test/${key}` };
+      },
+      async delete(key: string) {
+        storage.delete(key);
+      },
+    },
+  } as unknown as App;
+
+  buildApp(app);
+  await fastify.ready();
+
+  return {
+    app,
+    fastify,
+    storage,
+    models,
+    resetModels() {
+      models.analysis = defaultStubAnalysis();
+      models.text = { ranking: [] };
+      models.failure = null;
+      models.pause = null;
+      models.calls = { classification: 0, generation: 0, text: 0 };
+      models.generationRequests = [];
+    },
+    async close() {
+      await fastify.close();
+      await client.close();
+    },
+  };
+}
+
+/**
+ * Encode a multipart/form-data body for `fastify.inject`
+ */
+export function multipartPayload(
+  parts: Array<
+    | { name: string; value: string }
+    | { name: string; filename: string; contentType: string; data: Buffer }
+  >
+): { payload: Buffer; headers: Record<string, string> } {
+  const boundary = '----outfit-ai-test-boundary';
+  const chunks: Buffer[] = [];
+
+  for (const part of parts) {
+    const disposition =
+      'filename' in part
+        ? `form-data; name="${part.name}"; filename="${part.filename}"\r\nContent-Type: ${part.contentType}`
+        : `form-data; name="${part.name}"`;
+    chunks.push(Buffer.from(`--${boundary}\r\nContent-Disposition: ${disposition}\r\n\r\n`));
+    chunks.push('data' in part ? part.data : Buffer.from(part.value));
+    chunks.push(Buffer.from('\r\n'));
+  }
+  chunks.push(Buffer.from(`--${boundary}--\r\n`));
+
+  return {
+    payload: Buffer.concat(chunks),
+    headers: { 'content-type': `multipart/form-data; boundary=${boundary}` },
+  };
+}
+
+// The parts of a JSON schema assertMatchesSchema checks; other keywords are ignored
+export interface JsonSchema {
+  type?: string | readonly string[];
+  format?: string;
+  enum?: readonly unknown[];
+  anyOf?: readonly JsonSchema[];
+  properties?: Readonly<Record<string, JsonSchema>>;
+  required?: readonly string[];
+  items?: JsonSchema;
+}
+
+/**
+ * Analyze a photo through POST /api/analyze-outfit and return the stored analysis
+ */
+export async function createAnalysis(
+  testApp: TestApp,
+  photo: Buffer = encodeGradientPng(8, 8, [90, 30, 30], [240, 220, 200]),
+  deviceId = TEST_OWNER_ID
+): Promise<AnalysisResponse> {
+  const { payload, headers } = multipartPayload([
+    { name: 'image', filename: 'outfit.png', contentType: 'image/png', data: photo },
+  ]);
+  const response = await testApp.fastify.inject({
+    method: 'POST',
+    url: '/api/analyze-outfit',
+    headers: { ...headers, 'x-device-id': deviceId },
+    payload,
+  });
+  assert.equal(response.statusCode, 200, response.body);
+  return response.json();
+}
+
+/**
+ * Assert that a value satisfies a route's JSON schema. Covers the subset
+ * the route schemas use: object/array/scalar types, required keys,
+ * enums, `anyOf` and the `date-time` format.
+ */
+export function assertMatchesSchema(value: unknown, schema: JsonSchema, path = '$'): void {
+  if (schema.anyOf) {
+    const matches = schema.anyOf.some((option) => {
+      try {
+        assertMatchesSchema(value, option, path);
+        return true;
+      } catch {
+        return false;
+      }
+    });
+    assert.ok(matches, `${path} matches none of the anyOf schemas`);
+    return;
+  }
+
+  if (schema.enum) {
+    assert.ok(schema.enum.includes(value), `${path} is not one of ${schema.enum.join(', ')}`);
+  }
+
+  const types = typeof schema.type === 'string' ? [schema.type] : (schema.type ?? []);
+  if (types.length > 0) {
+    const actual =
+      value === null ? 'null' : Array.isArray(value) ? 'array' : Number.isInteger(value) ? 'integer' : typeof value;
+    const ok = types.some((type) => type === actual || (type === 'number' && actual === 'integer'));
+    assert.ok(ok, `${path} should be ${types.join(' | ')}, got ${actual}`);
+  }
+
+  if (typeof value === 'string' && schema.format === 'date-time') {
+    assert.ok(!Number.isNaN(Date.parse(value)), `${path} is not a date-time`);
+  }
+
+  if (value && typeof value === 'object' && !Array.isArray(value) && schema.properties) {
+    for (const key of schema.required ?? []) {
+      assert.ok(key in value, `${path}.${key} is required`);
+    }
+    for (const [key, propertySchema] of Object.entries(schema.properties)) {
+      if (key in value) {
+        assertMatchesSchema((value as Record<string, unknown>)[key], propertySchema, `${path}.${key}`);
+      }
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => assertMatchesSchema(item, schema.items, `${path}[${index}]`));
+  }
+}
@@ -0,0 +1,25 @@
+import { timingSafeEqual } from 'node:crypto';
+import type { FastifyRequest, FastifyReply } from 'fastify';
+
+/**
+ * Check the admin bearer token against ADMIN_TOKEN. Sends a 503 when no
+ * token is configured (admin routes are off) or a 401 when it does not
+ * match, and returns false, so handlers can simply `if (!requireAdmin(...)) return;`.
+ */
+export function requireAdmin(request: FastifyRequest, reply: FastifyReply): boolean {
+  const expected = process.env.ADMIN_TOKEN;
+  if (!expected) {
+    reply.status(503).send({ error: 'Admin API is not configured' });
+    return false;
+  }
+
+  const token = Buffer.from(request.headers.authorization?.match(/^Bearer (.+)$/)?.[1] ?? '');
+  const matches =
+    token.length === Buffer.byteLength(expected) && timingSafeEqual(token, Buffer.from(expected));
+  if (!matches) {
+    reply.status(401).send({ error: 'Invalid admin token' });
+    return false;
+  }
+
+  return true;
+}
@@ -0,0 +1,322 @@
+import type { App } from '../index.js';
+import type { outfitAnalyses } from '../db/schema.js';
+import { outfitCategoryIds } from '../services/categories.js';
+import { confidenceLabels, isLowConfidence } from '../services/confidence.js';
+import { garmentResponseSchema, type DetectedGarment } from '../services/garments.js';
+import { getOccasionDefinition, occasionIds, type OccasionMatch } from '../services/occasions.js';
+import { colorHarmonies, type ColorPalette } from '../services/palette.js';
+import type { WeatherAssessment } from '../services/weather.js';
+import { precipitationKinds } from '../weather/registry.js';
+import {
+  styleDirectionIds,
+  type StyleDirection,
+  type SuggestionImage,
+} from '../services/style-directions.js';
+import { tipResponseSchema, type StylingTip } from '../services/tips.js';
+
+type OutfitAnalysisRow = typeof outfitAnalyses.$inferSelect;
+
+// JSON schema shared by every route that returns a stored analysis
+export const analysisResponseSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', description: 'Analysis id' },
+    category: {
+      type: 'string',
+      enum: outfitCategoryIds,
+      description: 'Category id from GET /api/categories (same as primaryCategory)',
+    },
+    primaryCategory: {
+      type: 'string',
+      enum: outfitCategoryIds,
+      description: 'Best-fitting category id',
+    },
+    scores: {
+      type: 'object',
+      additionalProperties: { type: 'number', minimum: 0, maximum: 1 },
+      description: 'How well the outfit fits each category id, 0-1; empty for older analyses',
+    },
+    garments: {
+      type: 'array',
+      items: garmentResponseSchema,
+      description: 'Clothing items detected in the photo; empty for older analyses',
+    },
+    tips: {
+      type: 'array',
+      items: tipResponseSchema,
+      description: 'Styling changes for the category, most important first; empty for older analyses',
+    },
+    palette: {
+      anyOf: [
+        {
+          type: 'object',
+          properties: {
+            colors: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  hex: { type: 'string', description: 'Colour as #rrggbb' },
+                  share: { type: 'number', description: 'Fraction of the photo, 0-1' },
+                },
+                required: ['hex', 'share'],
+              },
+              description: 'Dominant colours of the photo, most prominent first',
+            },
+            harmony: { type: 'string', enum: colorHarmonies },
+          },
+          required: ['colors', 'harmony'],
+        },
+        { type: 'null' },
+      ],
+      description: 'Colour palette; null for older analyses or photos that could not be decoded',
+    },
+    targetOccasion: {
+      type: ['string', 'null'],
+      enum: [...occasionIds, null],
+      description: 'Occasion id the outfit was rated against, null when none was given',
+    },
+    occasionMatch: {
+      anyOf: [
+        {
+          type: 'object',
+          properties: {
+            occasion: { type: 'string', enum: occasionIds },
+            label: { type: 'string' },
+            score: { type: 'integer', minimum: 0, maximum: 100 },
+            gaps: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'What is missing or wrong for the occasion; empty for a perfect fit',
+            },
+          },
+          required: ['occasion', 'label', 'score', 'gaps'],
+        },
+        { type: 'null' },
+      ],
+      description: 'How well the outfit suits the target occasion, 0-100; null without one',
+    },
+    weather: {
+      anyOf: [
+        {
+          type: 'object',
+          properties: {
+            location: {
+              type: ['string', 'null'],
+              description: 'Resolved place name when the conditions were looked up',
+            },
+            temperatureC: { type: ['number', 'null'] },
+            precipitation: { type: ['string', 'null'], enum: [...precipitationKinds, null] },
+            windKph: { type: ['number', 'null'] },
+            warnings: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Why the outfit does not suit the conditions; empty when it does',
+            },
+          },
+          required: ['location', 'temperatureC', 'precipitation', 'windKph', 'warnings'],
+        },
+        { type: 'null' },
+      ],
+      description: 'Weather the outfit was checked against; null when none was given',
+    },
+    explanation: {
+      type: 'string',
+      description: 'Brief explanation of the categorization (2-3 sentences)',
+    },
+    confidence: {
+      type: 'string',
+      description: `Confidence label (${confidenceLabels.join(', ')}); free text for older analyses`,
+    },
+    confidenceScore: {
+      type: ['number', 'null'],
+      minimum: 0,
+      maximum: 1,
+      description: 'Model confidence in the category, 0-1; null for older analyses',
+    },
+    lowConfidence: {
+      type: 'boolean',
+      description:
+        'True when the category is uncertain and has not been confirmed by the user; ' +
+        'clients should offer a retake or a manual pick',
+    },
+    categoryConfirmed: {
+      type: 'boolean',
+      description: 'Whether the user confirmed or corrected the category',
+    },
+    suggestionImageUrl: {
+      type: 'string',
+      description: 'Signed URL to the favourite suggestion image, or the first one',
+    },
+    suggestionImages: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          url: { type: 'string', description: 'Signed URL to the suggestion image' },
+          direction: {
+            type: ['string', 'null'],
+            enum: [...styleDirectionIds, null],
+            description: 'Styling direction of the variant; null for a single plain suggestion',
+          },
+          instruction: {
+            type: ['string', 'null'],
+            description: 'Steering instruction the image was regenerated with',
+          },
+          favorite: { type: 'boolean' },
+        },
+        required: ['url', 'direction', 'instruction', 'favorite'],
+      },
+      description:
+        'Every generated suggestion, oldest first: the original variants in styling-direction ' +
+        'order, then any regenerated versions',
+    },
+    originalImageUrl: {
+      type: 'string',
+      description: 'Signed URL to the photo the user uploaded, empty for older analyses',
+    },
+    createdAt: { type: 'string', format: 'date-time' },
+  },
+  required: [
+    'id',
+    'category',
+    'primaryCategory',
+    'scores',
+    'garments',
+    'tips',
+    'palette',
+    'targetOccasion',
+    'occasionMatch',
+    'weather',
+    'explanation',
+    'confidence',
+    'confidenceScore',
+    'lowConfidence',
+    'categoryConfirmed',
+    'suggestionImageUrl',
+    'suggestionImages',
+    'originalImageUrl',
+    'createdAt',
+  ],
+} as const;
+
+export interface AnalysisResponse {
+  id: string;
+  category: string;
+  primaryCategory: string;
+  scores: Record<string, number>;
+  garments: DetectedGarment[];
+  tips: StylingTip[];
+  palette: ColorPalette | null;
+  targetOccasion: string | null;
+  occasionMatch: OccasionMatchResponse | null;
+  weather: WeatherAssessment | null;
+  explanation: string;
+  confidence: string;
+  confidenceScore: number | null;
+  lowConfidence: boolean;
+  categoryConfirmed: boolean;
+  suggestionImageUrl: string;
+  suggestionImages: SuggestionImageResponse[];
+  originalImageUrl: string;
+  createdAt: string;
+}
+
+export interface SuggestionImageResponse {
+  url: string;
+  direction: StyleDirection | null;
+  instruction: string | null;
+  favorite: boolean;
+}
+
+export interface OccasionMatchResponse extends OccasionMatch {
+  occasion: string;
+  label: string;
+}
+
+export function toOccasionMatchResponse(
+  targetOccasion: string | null,
+  match: OccasionMatch | null
+): OccasionMatchResponse | null {
+  if (!targetOccasion || !match) return null;
+  return {
+    occasion: targetOccasion,
+    label: getOccasionDefinition(targetOccasion)?.label ?? targetOccasion,
+    ...match,
+  };
+}
+
+/**
+ * Suggestion images of a stored analysis. Analyses from before variants
+ * existed only have the single suggestionImageKey.
+ */
+export function storedSuggestionImages(row: OutfitAnalysisRow): SuggestionImage[] {
+  if (row.suggestionImages) return row.suggestionImages;
+  return row.suggestionImageKey ? [{ key: row.suggestionImageKey, direction: null }] : [];
+}
+
+/**
+ * Resolve a signed URL for a storage key, or an empty string when the
+ * object was never uploaded (e.g. the model returned no image).
+ */
+export async function signedUrlOrEmpty(app: App, key: string | null): Promise<string> {
+  if (!key) return '';
+  const { url } = await app.storage.getSignedUrl(key);
+  return url;
+}
+
+export async function toAnalysisResponse(
+  app: App,
+  row: OutfitAnalysisRow
+): Promise<AnalysisResponse> {
+  const suggestionImages = await Promise.all(
+    storedSuggestionImages(row).map(async (image, index) => ({
+      url: await signedUrlOrEmpty(app, image.key),
+      direction: image.direction,
+      instruction: image.instruction ?? null,
+      favorite: index === row.favoriteSuggestion,
+    }))
+  );
+  const preferred = suggestionImages.find((image) => image.favorite) ?? suggestionImages[0];
+
+  return {
+    id: row.id,
+    category: row.category,
+    primaryCategory: row.category,
+    scores: row.scores ?? {},
+    garments: row.garments ?? [],
+    tips: row.tips ?? [],
+    palette: row.palette,
+    targetOccasion: row.targetOccasion,
+    occasionMatch: toOccasionMatchResponse(row.targetOccasion, row.occasionMatch),
+    weather: row.weather,
+    explanation: row.explanation,
+    confidence: row.confidence,
+    confidenceScore: row.confidenceScore,
+    lowConfidence:
+      row.confidenceScore !== null && !row.categoryConfirmedAt && isLowConfidence(row.confidenceScore),
+    categoryConfirmed: !!row.categoryConfirmedAt,
+    suggestionImageUrl: preferred?.url ?? '',
+    suggestionImages,
+    originalImageUrl: await signedUrlOrEmpty(app, row.imageKey),
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Cursors are opaque to clients: base64url of the last row's
+ * `createdAt` and `id`, which together give a stable sort order.
+ */
+export function encodeCursor(row: Pick<OutfitAnalysisRow, 'createdAt' | 'id'>): string {
+  return Buffer.from(`${row.createdAt.toISOString()}|${row.id}`).toString('base64url');
+}
+
+// Both halves reach Postgres, so a malformed id must be rejected here, not by the uuid column
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function decodeCursor(cursor: string): { createdAt: Date; id: string } | null {
+  const [iso, id] = Buffer.from(cursor, 'base64url').toString('utf8').split('|');
+  const createdAt = new Date(iso);
+  if (!id || !UUID_PATTERN.test(id) || Number.isNaN(createdAt.getTime())) return null;
+  return { createdAt, id };
+}
@@ -0,0 +1,113 @@
+import type { FastifyReply } from 'fastify';
+import { getOccasionDefinition, occasionIds } from '../services/occasions.js';
+import type { WeatherConditions } from '../services/weather.js';
+import { MAX_VARIANTS, styleDirectionIds } from '../services/style-directions.js';
+import { lookupWeather, precipitationKinds, type Precipitation } from '../weather/registry.js';
+import type { ImageUpload } from './upload.js';
+import type { App } from '../index.js';
+
+// Optional settings sent as multipart text fields next to the photo
+export interface AnalysisOptions {
+  // Occasion id from GET /api/occasions, or null to just classify
+  targetOccasion: string | null;
+  // Conditions the user is dressing for, or null when none were given
+  weather: WeatherConditions | null;
+  // How many suggestion images to generate, 1..MAX_VARIANTS
+  variants: number;
+}
+
+function parseNumberField(value: string | undefined, min: number, max: number): number | null | undefined {
+  if (value === undefined || value.trim() === '') return null;
+  const number = Number(value);
+  return Number.isFinite(number) && number >= min && number <= max ? number : undefined;
+}
+
+/**
+ * Read analysis options from the upload's text fields, looking up the
+ * weather when a location was sent. Typed-in conditions win over the
+ * looked-up ones. Sends a 400 (invalid value) or 502 (weather lookup
+ * failed) and returns null on failure.
+ */
+export async function parseAnalysisOptions(
+  app: App,
+  upload: ImageUpload,
+  reply: FastifyReply
+): Promise<AnalysisOptions | null> {
+  const { fields } = upload;
+
+  const targetOccasion = fields.targetOccasion?.trim() || null;
+  if (targetOccasion && !getOccasionDefinition(targetOccasion)) {
+    reply.status(400).send({
+      error: `Unknown targetOccasion, expected one of: ${occasionIds.join(', ')}`,
+    });
+    return null;
+  }
+
+  const temperatureC = parseNumberField(fields.temperature, -60, 60);
+  if (temperatureC === undefined) {
+    reply.status(400).send({ error: 'temperature must be a number of °C between -60 and 60' });
+    return null;
+  }
+
+  const variants = parseNumberField(fields.variants, 1, MAX_VARIANTS);
+  if (variants === undefined || (variants !== null && !Number.isInteger(variants))) {
+    reply.status(400).send({ error: `variants must be a whole number from 1 to ${MAX_VARIANTS}` });
+    return null;
+  }
+
+  const windKph = parseNumberField(fields.wind, 0, 400);
+  if (windKph === undefined) {
+    reply.status(400).send({ error: 'wind must be a speed in km/h between 0 and 400' });
+    return null;
+  }
+
+  const precipitationField = fields.precipitation?.trim().toLowerCase() || null;
+  if (precipitationField && !precipitationKinds.includes(precipitationField as Precipitation)) {
+    reply.status(400).send({
+      error: `Unknown precipitation, expected one of: ${precipitationKinds.join(', ')}`,
+    });
+    return null;
+  }
+  const precipitation = precipitationField as Precipitation | null;
+
+  const location = fields.location?.trim() || null;
+  let report = null;
+  if (location) {
+    try {
+      report = await lookupWeather(location);
+    } catch (error) {
+      app.logger.error({ err: error, location }, 'Error looking up weather');
+      reply.status(502).send({ error: 'Failed to look up the weather' });
+      return null;
+    }
+    if (!report) {
+      reply.status(400).send({ error: `Unknown location: ${location}` });
+      return null;
+    }
+  }
+
+  const weather: WeatherConditions = {
+    location: report?.location ?? null,
+    temperatureC: temperatureC ?? report?.temperatureC ?? null,
+    precipitation: precipitation ?? report?.precipitation ?? null,
+    windKph: windKph ?? report?.windKph ?? null,
+  };
+  const hasWeather =
+    weather.location !== null ||
+    weather.temperatureC !== null ||
+    weather.precipitation !== null ||
+    weather.windKph !== null;
+
+  return { targetOccasion, weather: hasWeather ? weather : null, variants: variants ?? 1 };
+}
+
+// Field descriptions for route docs
+export const analysisOptionsDescription =
+  'Optional multipart text fields, sent before the `image` file part: ' +
+  '`targetOccasion` (an id from GET /api/occasions) rates the outfit against that ' +
+  'occasion and generates the suggestion for it; `temperature` (°C), `precipitation` ' +
+  `(${precipitationKinds.join(' | ')}), \`wind\` (km/h) and/or \`location\` (looked up ` +
+  'with the configured weather provider) make the tips and suggestion weather-aware and ' +
+  'add warnings when the outfit does not suit the conditions; `variants` (1-' +
+  `${MAX_VARIANTS}, default 1) generates that many suggestions, one per styling direction ` +
+  `(${styleDirectionIds.join(', ')}).`;
@@ -0,0 +1,108 @@
+import { and, asc, eq, inArray } from 'drizzle-orm';
+import { outfitItems, wardrobeItems, type outfits } from '../db/schema.js';
+import { outfitCategoryIds } from '../services/categories.js';
+import { occasionIds } from '../services/occasions.js';
+import { toWardrobeItemResponse, wardrobeItemResponseSchema } from './wardrobe.js';
+import type { App } from '../index.js';
+
+type OutfitRow = typeof outfits.$inferSelect;
+type WardrobeItemRow = typeof wardrobeItems.$inferSelect;
+
+export const MAX_OUTFIT_ITEMS = 12;
+
+// Outfit fields, as sent by clients
+export interface OutfitInput {
+  name?: string | null;
+  category?: string | null;
+  occasion?: string | null;
+  // Wardrobe item ids in the order they are arranged
+  itemIds?: string[];
+}
+
+// JSON schema properties for OutfitInput, shared by request bodies
+export const outfitInputProperties = {
+  name: { type: ['string', 'null'], maxLength: 100 },
+  category: {
+    type: ['string', 'null'],
+    enum: [...outfitCategoryIds, null],
+    description: 'Category id from GET /api/categories the look is for',
+  },
+  occasion: {
+    type: ['string', 'null'],
+    enum: [...occasionIds, null],
+    description: 'Occasion id from GET /api/occasions the look is for',
+  },
+  itemIds: {
+    type: 'array',
+    items: { type: 'string', format: 'uuid' },
+    minItems: 1,
+    maxItems: MAX_OUTFIT_ITEMS,
+    uniqueItems: true,
+    description: 'Wardrobe item ids, in the order they are arranged',
+  },
+} as const;
+
+// JSON schema shared by every route that returns an outfit
+export const outfitResponseSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    name: { type: ['string', 'null'] },
+    category: { type: ['string', 'null'] },
+    occasion: { type: ['string', 'null'] },
+    items: {
+      type: 'array',
+      items: wardrobeItemResponseSchema,
+      description: 'Items in order; deleted wardrobe items drop out',
+    },
+    createdAt: { type: 'string', format: 'date-time' },
+    updatedAt: { type: 'string', format: 'date-time' },
+  },
+  required: ['id', 'name', 'category', 'occasion', 'items', 'createdAt', 'updatedAt'],
+} as const;
+
+/**
+ * Load the wardrobe items of the given outfits, in their arranged order
+ */
+export async function loadOutfitItems(
+  app: App,
+  outfitIds: string[]
+): Promise<Map<string, WardrobeItemRow[]>> {
+  const byOutfit = new Map<string, WardrobeItemRow[]>(outfitIds.map((id) => [id, []]));
+  if (outfitIds.length === 0) return byOutfit;
+
+  const rows = await app.db
+    .select({ outfitId: outfitItems.outfitId, item: wardrobeItems })
+    .from(outfitItems)
+    .innerJoin(wardrobeItems, eq(outfitItems.itemId, wardrobeItems.id))
+    .where(inArray(outfitItems.outfitId, outfitIds))
+    .orderBy(asc(outfitItems.position));
+
+  for (const row of rows) {
+    byOutfit.get(row.outfitId)?.push(row.item);
+  }
+  return byOutfit;
+}
+
+/**
+ * Whether every id is a wardrobe item of the owner
+ */
+export async function ownsWardrobeItems(app: App, ownerId: string, itemIds: string[]): Promise<boolean> {
+  const rows = await app.db
+    .select({ id: wardrobeItems.id })
+    .from(wardrobeItems)
+    .where(and(eq(wardrobeItems.ownerId, ownerId), inArray(wardrobeItems.id, itemIds)));
+  return rows.length === new Set(itemIds).size;
+}
+
+export async function toOutfitResponse(app: App, row: OutfitRow, items: WardrobeItemRow[]) {
+  return {
+    id: row.id,
+    name: row.name,
+    category: row.category,
+    occasion: row.occasion,
+    items: await Promise.all(items.map((item) => toWardrobeItemResponse(app, item))),
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
@@ -0,0 +1,26 @@
+import type { FastifyRequest, FastifyReply } from 'fastify';
+
+// Header carrying the anonymous per-install identifier generated by the app
+export const OWNER_HEADER = 'x-device-id';
+
+const ownerIdPattern = /^[A-Za-z0-9_-]{8,128}$/;
+
+/**
+ * Resolve the owner of the current request from the device id header.
+ * Sends a 401 and returns null when the header is missing or malformed,
+ * so handlers can simply `if (!ownerId) return;`.
+ */
+export function requireOwnerId(
+  request: FastifyRequest,
+  reply: FastifyReply
+): string | null {
+  const header = request.headers[OWNER_HEADER];
+  const ownerId = Array.isArray(header) ? header[0] : header;
+
+  if (!ownerId || !ownerIdPattern.test(ownerId)) {
+    reply.status(401).send({ error: `Missing or invalid ${OWNER_HEADER} header` });
+    return null;
+  }
+
+  return ownerId;
+}
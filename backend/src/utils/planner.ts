@@ -0,0 +1,184 @@
+import { and, asc, eq, gte, inArray, lte } from 'drizzle-orm';
+import { outfitAnalyses, outfits, plannerEntries } from '../db/schema.js';
+import { signedUrlOrEmpty } from './analyses.js';
+import { loadOutfitItems, outfitResponseSchema, toOutfitResponse } from './outfits.js';
+import type { App } from '../index.js';
+
+type PlannerEntryRow = typeof plannerEntries.$inferSelect;
+
+export interface PlannerEntryResponse {
+  date: string;
+  outfit: Awaited<ReturnType<typeof toOutfitResponse>> | null;
+  analysis: { id: string; category: string; originalImageUrl: string; createdAt: string } | null;
+  worn: boolean;
+  wornAt: string | null;
+  repeatOf: string | null;
+}
+
+export interface PlanResponse {
+  entries: PlannerEntryResponse[];
+  repeatDays: number;
+}
+
+// Longest from..to span one request reads or replaces, enough for a month view
+export const MAX_PLANNER_RANGE_DAYS = 92;
+export const DEFAULT_REPEAT_DAYS = 7;
+export const MAX_REPEAT_DAYS = 90;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Calendar dates are YYYY-MM-DD strings; arithmetic is done in UTC so DST never shifts a day
+export function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+export function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+}
+
+/**
+ * For each entry, the latest earlier date within `repeatDays` days that
+ * planned the same outfit or analysis.
+ *
+ * @returns Date of the entry -> date it repeats
+ */
+export function findRepeats(
+  entries: Pick<PlannerEntryRow, 'date' | 'outfitId' | 'analysisId'>[],
+  repeatDays: number
+): Map<string, string> {
+  const repeats = new Map<string, string>();
+  const lastPlanned = new Map<string, string>();
+  for (const entry of [...entries].sort((a, b) => a.date.localeCompare(b.date))) {
+    const key = entry.outfitId ? `outfit:${entry.outfitId}` : `analysis:${entry.analysisId}`;
+    const previous = lastPlanned.get(key);
+    if (previous && daysBetween(previous, entry.date) <= repeatDays) {
+      repeats.set(entry.date, previous);
+    }
+    lastPlanned.set(key, entry.date);
+  }
+  return repeats;
+}
+
+// JSON schema for one planned day
+export const plannerEntryResponseSchema = {
+  type: 'object',
+  properties: {
+    date: { type: 'string', format: 'date' },
+    outfit: { anyOf: [outfitResponseSchema, { type: 'null' }] },
+    analysis: {
+      anyOf: [
+        {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            category: { type: 'string' },
+            originalImageUrl: { type: 'string' },
+            createdAt: { type: 'string', format: 'date-time' },
+          },
+          required: ['id', 'category', 'originalImageUrl', 'createdAt'],
+        },
+        { type: 'null' },
+      ],
+    },
+    worn: { type: 'boolean' },
+    wornAt: { type: ['string', 'null'], format: 'date-time' },
+    repeatOf: {
+      type: ['string', 'null'],
+      format: 'date',
+      description: 'Earlier date within the repeat window that planned the same outfit or analysis',
+    },
+  },
+  required: ['date', 'outfit', 'analysis', 'worn', 'wornAt', 'repeatOf'],
+} as const;
+
+export const planResponseSchema = {
+  type: 'object',
+  properties: {
+    entries: { type: 'array', items: plannerEntryResponseSchema },
+    repeatDays: { type: 'integer' },
+  },
+  required: ['entries', 'repeatDays'],
+} as const;
+
+/**
+ * Load the planned days from..to (inclusive), flagging repeats against
+ * entries up to `repeatDays` days before `from` as well.
+ */
+export async function loadPlan(
+  app: App,
+  ownerId: string,
+  from: string,
+  to: string,
+  repeatDays: number
+): Promise<PlanResponse> {
+  const rows: PlannerEntryRow[] = await app.db
+    .select()
+    .from(plannerEntries)
+    .where(
+      and(
+        eq(plannerEntries.ownerId, ownerId),
+        gte(plannerEntries.date, addDays(from, -repeatDays)),
+        lte(plannerEntries.date, to)
+      )
+    )
+    .orderBy(asc(plannerEntries.date));
+
+  const repeats = findRepeats(rows, repeatDays);
+  const inRange = rows.filter((row) => row.date >= from);
+
+  const outfitIds = [...new Set(inRange.map((row) => row.outfitId).filter((id) => id !== null))];
+  const analysisIds = [
+    ...new Set(inRange.map((row) => row.analysisId).filter((id) => id !== null)),
+  ];
+  const [outfitRows, outfitItems, analysisRows] = await Promise.all([
+    outfitIds.length > 0 ? app.db.select().from(outfits).where(inArray(outfits.id, outfitIds)) : [],
+    loadOutfitItems(app, outfitIds),
+    analysisIds.length > 0
+      ? app.db
+          .select({
+            id: outfitAnalyses.id,
+            category: outfitAnalyses.category,
+            imageKey: outfitAnalyses.imageKey,
+            createdAt: outfitAnalyses.createdAt,
+          })
+          .from(outfitAnalyses)
+          .where(inArray(outfitAnalyses.id, analysisIds))
+      : [],
+  ]);
+
+  const outfitResponses = new Map<string, PlannerEntryResponse['outfit']>(
+    await Promise.all(
+      outfitRows.map(
+        async (row) => [row.id, await toOutfitResponse(app, row, outfitItems.get(row.id)!)] as const
+      )
+    )
+  );
+  const analysisResponses = new Map<string, PlannerEntryResponse['analysis']>(
+    await Promise.all(
+      analysisRows.map(
+        async (row) =>
+          [
+            row.id,
+            {
+              id: row.id,
+              category: row.category,
+              originalImageUrl: await signedUrlOrEmpty(app, row.imageKey),
+              createdAt: row.createdAt.toISOString(),
+            },
+          ] as const
+      )
+    )
+  );
+
+  return {
+    entries: inRange.map((row) => ({
+      date: row.date,
+      outfit: row.outfitId ? (outfitResponses.get(row.outfitId) ?? null) : null,
+      analysis: row.analysisId ? (analysisResponses.get(row.analysisId) ?? null) : null,
+      worn: row.wornAt !== null,
+      wornAt: row.wornAt?.toISOString() ?? null,
+      repeatOf: repeats.get(row.date) ?? null,
+    })),
+    repeatDays,
+  };
+}
@@ -0,0 +1,53 @@
+// Rates are 0..1, rounded to three decimals; null when nothing was counted
+const rate = { type: ['number', 'null'] } as const;
+
+// JSON schema for the prompt version comparison
+export const promptComparisonResponseSchema = {
+  type: 'object',
+  properties: {
+    split: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          version: { type: 'string' },
+          share: rate,
+        },
+        required: ['version', 'share'],
+      },
+    },
+    versions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          version: {
+            type: ['string', 'null'],
+            description: 'Null for analyses stored before prompts were versioned',
+          },
+          description: { type: ['string', 'null'] },
+          analyses: { type: 'integer' },
+          averageConfidence: rate,
+          lowConfidenceRate: rate,
+          feedback: { type: 'integer' },
+          thumbsUpRate: rate,
+          correctionRate: {
+            ...rate,
+            description: 'Share of rated analyses whose category was corrected',
+          },
+        },
+        required: [
+          'version',
+          'description',
+          'analyses',
+          'averageConfidence',
+          'lowConfidenceRate',
+          'feedback',
+          'thumbsUpRate',
+          'correctionRate',
+        ],
+      },
+    },
+  },
+  required: ['split', 'versions'],
+} as const;
@@ -0,0 +1,44 @@
+import type { OutgoingHttpHeaders } from 'node:http';
+import type { FastifyReply } from 'fastify';
+
+export interface EventStream {
+  send(event: string, data: unknown): void;
+  close(): void;
+}
+
+/**
+ * Take over the raw response and start a Server-Sent Events stream.
+ * Headers already set on the reply (e.g. CORS) are carried over, since
+ * hijacked replies skip Fastify's own header handling.
+ */
+export function openEventStream(reply: FastifyReply): EventStream {
+  reply.hijack();
+
+  const raw = reply.raw;
+  raw.writeHead(200, {
+    ...(reply.getHeaders() as OutgoingHttpHeaders),
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    // Disable proxy buffering so events reach the client as they are sent
+    'X-Accel-Buffering': 'no',
+  });
+
+  // Writes after the client has gone away are dropped
+  let closed = false;
+  raw.on('close', () => {
+    closed = true;
+  });
+
+  return {
+    send(event, data) {
+      if (closed) return;
+      raw.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    },
+    close() {
+      if (closed) return;
+      closed = true;
+      raw.end();
+    },
+  };
+}
@@ -0,0 +1,44 @@
+import type { FastifyRequest, FastifyReply } from 'fastify';
+
+export const MAX_UPLOAD_BYTES = 10 * 1024 * 1024; // 10MB limit
+
+export interface ImageUpload {
+  buffer: Buffer;
+  mimetype: string;
+  // Text fields sent before the file part; later ones are not read
+  fields: Record<string, string>;
+}
+
+/**
+ * Read the uploaded outfit photo from a multipart request.
+ * Sends a 400 (no file) or 413 (too large) and returns null on failure,
+ * so handlers can simply `if (!upload) return;`.
+ */
+export async function readImageUpload(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<ImageUpload | null> {
+  // Get the uploaded file with size limit
+  const data = await request.file({ limits: { fileSize: MAX_UPLOAD_BYTES } });
+  if (!data) {
+    reply.status(400).send({ error: 'No file provided' });
+    return null;
+  }
+
+  const fields: Record<string, string> = {};
+  for (const [name, field] of Object.entries(data.fields)) {
+    const first = Array.isArray(field) ? field[0] : field;
+    if (first?.type === 'field' && typeof first.value === 'string') {
+      fields[name] = first.value;
+    }
+  }
+
+  // Convert file to buffer
+  try {
+    const buffer = await data.toBuffer();
+    return { buffer, mimetype: data.mimetype, fields };
+  } catch (err) {
+    reply.status(413).send({ error: 'File size limit exceeded (max 10MB)' });
+    return null;
+  }
+}
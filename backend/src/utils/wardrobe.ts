@@ -0,0 +1,211 @@
+import type { FastifyReply } from 'fastify';
+import { wardrobeSeasons, type wardrobeItems } from '../db/schema.js';
+import { garmentPatterns, type GarmentPattern } from '../services/garments.js';
+import { signedUrlOrEmpty } from './analyses.js';
+import type { App } from '../index.js';
+
+type WardrobeItemRow = typeof wardrobeItems.$inferSelect;
+
+export type WardrobeSeason = (typeof wardrobeSeasons)[number];
+
+const MAX_COLORS = 5;
+const MAX_TAGS = 20;
+const MAX_PRICE = 99_999_999.99;
+
+// Editable item fields, as sent by clients
+export interface WardrobeItemInput {
+  type?: string;
+  colors?: string[];
+  pattern?: GarmentPattern | null;
+  material?: string | null;
+  seasons?: WardrobeSeason[];
+  brand?: string | null;
+  tags?: string[];
+  // YYYY-MM-DD
+  purchaseDate?: string | null;
+  purchasePrice?: number | null;
+}
+
+const shortList = (maxItems: number, description: string) => ({
+  type: 'array',
+  items: { type: 'string', minLength: 1, maxLength: 30 },
+  maxItems,
+  description,
+});
+
+// JSON schema properties for WardrobeItemInput, shared by request bodies
+export const wardrobeItemInputProperties = {
+  type: {
+    type: 'string',
+    minLength: 1,
+    maxLength: 50,
+    description: 'Garment type, e.g. blazer, jeans, sneakers',
+  },
+  colors: shortList(MAX_COLORS, 'Colour names, main colour first'),
+  pattern: { type: ['string', 'null'], enum: [...garmentPatterns, null] },
+  material: { type: ['string', 'null'], maxLength: 50 },
+  seasons: {
+    type: 'array',
+    items: { type: 'string', enum: wardrobeSeasons },
+    uniqueItems: true,
+    description: 'Seasons the item is worn in; empty for all year round',
+  },
+  brand: { type: ['string', 'null'], maxLength: 100 },
+  tags: shortList(MAX_TAGS, 'Free-form labels, e.g. "work" or "gift"'),
+  purchaseDate: { type: ['string', 'null'], format: 'date' },
+  purchasePrice: { type: ['number', 'null'], minimum: 0, maximum: MAX_PRICE },
+} as const;
+
+// JSON schema shared by every route that returns a wardrobe item
+export const wardrobeItemResponseSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    imageUrl: { type: 'string', description: 'Signed photo URL, empty when the item has no photo' },
+    type: { type: 'string' },
+    colors: { type: 'array', items: { type: 'string' } },
+    pattern: { type: ['string', 'null'], enum: [...garmentPatterns, null] },
+    material: { type: ['string', 'null'] },
+    seasons: { type: 'array', items: { type: 'string', enum: wardrobeSeasons } },
+    brand: { type: ['string', 'null'] },
+    tags: { type: 'array', items: { type: 'string' } },
+    purchaseDate: { type: ['string', 'null'], format: 'date' },
+    purchasePrice: { type: ['number', 'null'] },
+    sourceAnalysisId: {
+      type: ['string', 'null'],
+      description: 'Analysis the item was detected in, if it was added from one',
+    },
+    createdAt: { type: 'string', format: 'date-time' },
+  },
+  required: [
+    'id',
+    'imageUrl',
+    'type',
+    'colors',
+    'pattern',
+    'material',
+    'seasons',
+    'brand',
+    'tags',
+    'purchaseDate',
+    'purchasePrice',
+    'sourceAnalysisId',
+    'createdAt',
+  ],
+} as const;
+
+export async function toWardrobeItemResponse(app: App, row: WardrobeItemRow) {
+  return {
+    id: row.id,
+    imageUrl: await signedUrlOrEmpty(app, row.imageKey),
+    type: row.type,
+    colors: row.colors,
+    pattern: row.pattern,
+    material: row.material,
+    seasons: row.seasons,
+    brand: row.brand,
+    tags: row.tags,
+    purchaseDate: row.purchaseDate,
+    purchasePrice: row.purchasePrice,
+    sourceAnalysisId: row.sourceAnalysisId,
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+// Lowercase, trimmed and without duplicates, so filters match however it was typed
+function normalizeList(values: string[]): string[] {
+  return [...new Set(values.map((value) => value.trim().toLowerCase()).filter(Boolean))];
+}
+
+/**
+ * Trim and lowercase the searchable fields of an input; blank optional
+ * text becomes null. Fields that were not sent stay undefined.
+ */
+export function normalizeWardrobeInput(input: WardrobeItemInput): WardrobeItemInput {
+  const text = (value: string | null | undefined) =>
+    value === undefined ? undefined : value?.trim() || null;
+
+  return {
+    type: input.type?.trim().toLowerCase(),
+    colors: input.colors && normalizeList(input.colors),
+    pattern: input.pattern,
+    material: text(input.material?.toLowerCase()),
+    seasons: input.seasons && [...new Set(input.seasons)],
+    brand: text(input.brand),
+    tags: input.tags && normalizeList(input.tags),
+    purchaseDate: input.purchaseDate,
+    purchasePrice:
+      input.purchasePrice === undefined || input.purchasePrice === null
+        ? input.purchasePrice
+        : Math.round(input.purchasePrice * 100) / 100,
+  };
+}
+
+const splitList = (value: string | undefined) => (value === undefined ? undefined : value.split(','));
+
+/**
+ * Read item fields sent as multipart text fields next to a photo. Lists
+ * are comma separated. Sends a 400 and returns null on an invalid value.
+ */
+export function parseWardrobeFields(
+  fields: Record<string, string>,
+  reply: FastifyReply
+): WardrobeItemInput | null {
+  const input = normalizeWardrobeInput({
+    type: fields.type,
+    colors: splitList(fields.colors),
+    material: fields.material,
+    brand: fields.brand,
+    tags: splitList(fields.tags),
+  });
+
+  if (!input.type || input.type.length > wardrobeItemInputProperties.type.maxLength) {
+    reply.status(400).send({ error: 'type is required, e.g. "blazer"' });
+    return null;
+  }
+  if ((input.colors?.length ?? 0) > MAX_COLORS || (input.tags?.length ?? 0) > MAX_TAGS) {
+    reply.status(400).send({ error: `At most ${MAX_COLORS} colours and ${MAX_TAGS} tags` });
+    return null;
+  }
+
+  const pattern = fields.pattern?.trim().toLowerCase() || null;
+  if (pattern && !garmentPatterns.includes(pattern as GarmentPattern)) {
+    reply.status(400).send({
+      error: `Unknown pattern, expected one of: ${garmentPatterns.join(', ')}`,
+    });
+    return null;
+  }
+  input.pattern = pattern as GarmentPattern | null;
+
+  const seasons = normalizeList(splitList(fields.seasons) ?? []);
+  if (seasons.some((season) => !wardrobeSeasons.includes(season as WardrobeSeason))) {
+    reply.status(400).send({
+      error: `Unknown season, expected any of: ${wardrobeSeasons.join(', ')}`,
+    });
+    return null;
+  }
+  input.seasons = seasons as WardrobeSeason[];
+
+  const purchaseDate = fields.purchaseDate?.trim() || null;
+  if (purchaseDate && !isCalendarDate(purchaseDate)) {
+    reply.status(400).send({ error: 'purchaseDate must be a date as YYYY-MM-DD' });
+    return null;
+  }
+  input.purchaseDate = purchaseDate;
+
+  const priceField = fields.purchasePrice?.trim();
+  const purchasePrice = priceField ? Number(priceField) : null;
+  if (purchasePrice !== null && !(purchasePrice >= 0 && purchasePrice <= MAX_PRICE)) {
+    reply.status(400).send({ error: 'purchasePrice must be a positive amount' });
+    return null;
+  }
+  input.purchasePrice = purchasePrice === null ? null : Math.round(purchasePrice * 100) / 100;
+
+  return input;
+}
+
+export function isCalendarDate(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
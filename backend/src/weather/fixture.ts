@@ -0,0 +1,20 @@
+import type { WeatherProvider, WeatherReport } from './registry.js';
+
+// A handful of fixed conditions covering cold, hot, wet, snowy and windy days
+const fixtures: Record<string, WeatherReport> = {
+  oslo: { location: 'Oslo, Norway', temperatureC: -4, precipitation: 'snow', windKph: 12 },
+  london: { location: 'London, United Kingdom', temperatureC: 9, precipitation: 'rain', windKph: 22 },
+  dubai: { location: 'Dubai, United Arab Emirates', temperatureC: 34, precipitation: 'none', windKph: 10 },
+  wellington: { location: 'Wellington, New Zealand', temperatureC: 14, precipitation: 'none', windKph: 55 },
+  barcelona: { location: 'Barcelona, Spain', temperatureC: 21, precipitation: 'none', windKph: 8 },
+};
+
+/**
+ * Offline weather for development and tests. Set WEATHER_PROVIDER=fixture
+ * and send one of the fixture city names as `location`.
+ */
+export const fixtureWeatherProvider: WeatherProvider = {
+  async lookup(location) {
+    return fixtures[location.trim().toLowerCase()] ?? null;
+  },
+};
@@ -0,0 +1,58 @@
+import type { Precipitation, WeatherProvider } from './registry.js';
+
+const GEOCODING_URL = 'https://geocoding-api.open-meteo.com/v1/search';
+const FORECAST_URL = 'https://api.open-meteo.com/v1/forecast';
+
+interface GeocodingResponse {
+  results?: { name: string; country?: string; latitude: number; longitude: number }[];
+}
+
+interface ForecastResponse {
+  current: {
+    temperature_2m: number;
+    rain: number;
+    showers: number;
+    snowfall: number;
+    wind_speed_10m: number;
+  };
+}
+
+async function getJson<T>(url: URL, abortSignal: AbortSignal): Promise<T> {
+  const response = await fetch(url, { signal: abortSignal });
+  if (!response.ok) {
+    throw new Error(`Open-Meteo request failed with status ${response.status}`);
+  }
+  return (await response.json()) as T;
+}
+
+/**
+ * Current conditions from Open-Meteo (no API key needed): the location is
+ * geocoded first, then the current forecast is read for its coordinates.
+ */
+export const openMeteoWeatherProvider: WeatherProvider = {
+  async lookup(location, abortSignal) {
+    const geocodingUrl = new URL(GEOCODING_URL);
+    geocodingUrl.searchParams.set('name', location);
+    geocodingUrl.searchParams.set('count', '1');
+    const { results } = await getJson<GeocodingResponse>(geocodingUrl, abortSignal);
+    const place = results?.[0];
+    if (!place) return null;
+
+    const forecastUrl = new URL(FORECAST_URL);
+    forecastUrl.searchParams.set('latitude', String(place.latitude));
+    forecastUrl.searchParams.set('longitude', String(place.longitude));
+    forecastUrl.searchParams.set('current', 'temperature_2m,rain,showers,snowfall,wind_speed_10m');
+    const { current } = await getJson<ForecastResponse>(forecastUrl, abortSignal);
+
+    let precipitation: Precipitation = 'none';
+    if (current.snowfall > 0) precipitation = 'snow';
+    else if (current.rain > 0 || current.showers > 0) precipitation = 'rain';
+
+    return {
+      location: place.country ? `${place.name}, ${place.country}` : place.name,
+      temperatureC: current.temperature_2m,
+      precipitation,
+      windKph: current.wind_speed_10m,
+    };
+  },
+};
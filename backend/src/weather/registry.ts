@@ -0,0 +1,53 @@
+import { fixtureWeatherProvider } from './fixture.js';
+import { openMeteoWeatherProvider } from './open-meteo.js';
+
+export const precipitationKinds = ['none', 'rain', 'snow'] as const;
+
+export type Precipitation = (typeof precipitationKinds)[number];
+
+// Current conditions at a location, as reported by a weather provider
+export interface WeatherReport {
+  // Resolved place name, e.g. "Oslo, Norway"
+  location: string;
+  temperatureC: number;
+  precipitation: Precipitation;
+  windKph: number;
+}
+
+/**
+ * A source of current weather for a free-text location.
+ * Resolves to null when the location cannot be found.
+ */
+export interface WeatherProvider {
+  lookup(location: string, abortSignal: AbortSignal): Promise<WeatherReport | null>;
+}
+
+const DEFAULT_WEATHER_PROVIDER = 'open-meteo';
+const DEFAULT_TIMEOUT_MS = 5_000;
+
+const providers = new Map<string, WeatherProvider>([
+  ['open-meteo', openMeteoWeatherProvider],
+  ['fixture', fixtureWeatherProvider],
+]);
+
+/**
+ * Make a weather provider selectable through WEATHER_PROVIDER
+ */
+export function registerWeatherProvider(name: string, provider: WeatherProvider) {
+  providers.set(name, provider);
+}
+
+/**
+ * Look up the current weather with the provider named by WEATHER_PROVIDER
+ * (default open-meteo). Throws when the provider is unknown or fails.
+ */
+export async function lookupWeather(location: string): Promise<WeatherReport | null> {
+  const name = process.env.WEATHER_PROVIDER || DEFAULT_WEATHER_PROVIDER;
+  const provider = providers.get(name);
+  if (!provider) {
+    throw new Error(`Unknown weather provider "${name}"`);
+  }
+
+  const timeoutMs = Number(process.env.WEATHER_TIMEOUT_MS) || DEFAULT_TIMEOUT_MS;
+  return provider.lookup(location, AbortSignal.timeout(timeoutMs));
+}
@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { IconSymbol } from '@/components/IconSymbol';
+import { DetectedGarment } from '@/utils/analyses';
+
+interface AddToWardrobeProps {
+  garments: DetectedGarment[];
+  // Resolves with the number of items added
+  onAdd: (indexes: number[]) => Promise<number>;
+  onOpenWardrobe: () => void;
+}
+
+/**
+ * Pick garments detected in an analysis and add them to the wardrobe.
+ * Every garment starts selected.
+ */
+export function AddToWardrobe({ garments, onAdd, onOpenWardrobe }: AddToWardrobeProps) {
+  const [selected, setSelected] = useState<number[]>(() => garments.map((_, index) => index));
+  const [adding, setAdding] = useState(false);
+  const [added, setAdded] = useState<number | null>(null);
+
+  const toggle = (index: number) =>
+    setSelected((current) =>
+      current.includes(index) ? current.filter((entry) => entry !== index) : [...current, index]
+    );
+
+  const add = async () => {
+    setAdding(true);
+    try {
+      setAdded(await onAdd([...selected].sort((a, b) => a - b)));
+    } catch {
+      // The screen reports the error; keep the selection so the user can retry
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  if (added !== null) {
+    return (
+      <TouchableOpacity style={[styles.container, styles.header]} onPress={onOpenWardrobe}>
+        <IconSymbol
+          ios_icon_name="checkmark.circle.fill"
+          android_material_icon_name="check-circle"
+          size={20}
+          color="#4ECDC4"
+        />
+        <Text style={styles.title}>
+          Added {added} {added === 1 ? 'item' : 'items'} to your wardrobe
+        </Text>
+        <IconSymbol
+          ios_icon_name="chevron.right"
+          android_material_icon_name="chevron-right"
+          size={20}
+          color="#999"
+        />
+      </TouchableOpacity>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>Add to your wardrobe</Text>
+      <View style={styles.chipRow}>
+        {garments.map((garment, index) => (
+          <TouchableOpacity
+            key={index}
+            style={[styles.chip, selected.includes(index) && styles.chipSelected]}
+            onPress={() => toggle(index)}
+            disabled={adding}
+          >
+            <Text style={styles.chipText}>
+              {garment.color} {garment.type}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+      <TouchableOpacity
+        style={[styles.button, (adding || selected.length === 0) && styles.buttonDisabled]}
+        onPress={add}
+        disabled={adding || selected.length === 0}
+      >
+        {adding ? (
+          <ActivityIndicator color="#fff" size="small" />
+        ) : (
+          <Text style={styles.buttonText}>Add Selected</Text>
+        )}
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#2a2438',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+    gap: 12,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  title: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: '#1a1a2e',
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  chipSelected: {
+    borderColor: '#4ECDC4',
+  },
+  chipText: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: '600',
+    textTransform: 'capitalize',
+  },
+  button: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    borderRadius: 12,
+    backgroundColor: '#4ECDC4',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
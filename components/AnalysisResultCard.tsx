@@ -0,0 +1,456 @@
+import React from 'react';
+import { View, Text, StyleSheet, ActivityIndicator } from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { IconSymbol } from '@/components/IconSymbol';
+import { SuggestionCarousel } from '@/components/SuggestionCarousel';
+import { useCategories } from '@/contexts/CategoriesContext';
+import { AnalysisResult, ColorHarmony, Precipitation, WeatherAssessment } from '@/utils/analyses';
+
+// The fields the card renders; a freshly streamed result may not be stored yet
+export type AnalysisCardResult = Pick<
+  AnalysisResult,
+  | 'category'
+  | 'scores'
+  | 'palette'
+  | 'occasionMatch'
+  | 'weather'
+  | 'explanation'
+  | 'confidence'
+  | 'confidenceScore'
+  | 'suggestionImages'
+>;
+
+// Categories shown in the score breakdown, highest first
+const MAX_SCORE_BARS = 4;
+
+// Match score colours: good fit, could work, wrong for the occasion
+const occasionScoreColor = (score: number) =>
+  score >= 75 ? '#4ECDC4' : score >= 50 ? '#FFD166' : '#FF6B6B';
+
+const precipitationLabels: Record<Precipitation, string> = {
+  none: 'Dry',
+  rain: 'Rain',
+  snow: 'Snow',
+};
+
+// e.g. "2°C · Snow · 12 km/h wind in Oslo, Norway"
+const describeWeather = (weather: WeatherAssessment) => {
+  const parts = [
+    weather.temperatureC !== null && `${Math.round(weather.temperatureC)}°C`,
+    weather.precipitation && precipitationLabels[weather.precipitation],
+    weather.windKph !== null && `${Math.round(weather.windKph)} km/h wind`,
+  ].filter(Boolean);
+  const conditions = parts.join(' · ') || 'Weather';
+  return weather.location ? `${conditions} in ${weather.location}` : conditions;
+};
+
+const harmonyDescriptions: Record<ColorHarmony, string> = {
+  monochrome: 'Monochrome: one colour family, always safe',
+  complementary: 'Complementary: opposite colours that make each other pop',
+  analogous: 'Analogous: neighbouring colours that blend smoothly',
+  clashing: 'Clashing: these colours fight each other',
+};
+
+interface AnalysisResultCardProps {
+  result: AnalysisCardResult;
+  // Show a placeholder while suggestion images are still being generated
+  generatingImage?: boolean;
+  // Shows a favourite button on each suggestion when set
+  onFavoriteSuggestion?: (index: number | null) => void;
+}
+
+/**
+ * Suggested outfit image plus the category card for a single analysis.
+ * Shared by the camera screen and the history detail screen.
+ */
+export function AnalysisResultCard({
+  result,
+  generatingImage = false,
+  onFavoriteSuggestion,
+}: AnalysisResultCardProps) {
+  const { getCategory } = useCategories();
+  const category = getCategory(result.category);
+  const topScores = Object.entries(result.scores ?? {})
+    .filter(([, score]) => score > 0)
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, MAX_SCORE_BARS);
+
+  return (
+    <>
+      {/* Generated Outfit Images */}
+      {generatingImage && result.suggestionImages.length === 0 ? (
+        <View style={styles.generatedImageContainer}>
+          <Text style={styles.generatedImageTitle}>✨ Suggested Outfit</Text>
+          <View style={[styles.generatedImage, styles.generatedImagePlaceholder]}>
+            <ActivityIndicator color="#fff" size="large" />
+            <Text style={styles.placeholderText}>Generating your suggestion...</Text>
+          </View>
+        </View>
+      ) : result.suggestionImages.length > 0 ? (
+        <View style={styles.generatedImageContainer}>
+          <Text style={styles.generatedImageTitle}>
+            ✨ {result.suggestionImages.length > 1 ? 'Suggested Outfits' : 'Suggested Outfit'}
+          </Text>
+          <SuggestionCarousel images={result.suggestionImages} onFavorite={onFavoriteSuggestion} />
+          <View style={styles.generatedImageBadge}>
+            <LinearGradient
+              colors={category.colors}
+              style={styles.badgeGradient}
+              start={{ x: 0, y: 0 }}
+              end={{ x: 1, y: 1 }}
+            >
+              <IconSymbol
+                ios_icon_name="sparkles"
+                android_material_icon_name={category.icon}
+                size={20}
+                color="#fff"
+              />
+              <Text style={styles.badgeText}>{category.label}</Text>
+            </LinearGradient>
+          </View>
+          {generatingImage && (
+            <View style={styles.moreComing}>
+              <ActivityIndicator color="#fff" size="small" />
+              <Text style={styles.placeholderText}>More suggestions on the way...</Text>
+            </View>
+          )}
+        </View>
+      ) : null}
+
+      <LinearGradient
+        colors={category.colors}
+        style={styles.resultGradient}
+        start={{ x: 0, y: 0 }}
+        end={{ x: 1, y: 1 }}
+      >
+        <View style={styles.resultHeader}>
+          <IconSymbol
+            ios_icon_name="checkmark.circle.fill"
+            android_material_icon_name={category.icon}
+            size={48}
+            color="#fff"
+          />
+          <Text style={styles.resultCategory}>{category.label}</Text>
+
+          {result.palette && result.palette.colors.length > 0 && (
+            <View style={styles.paletteContainer}>
+              <View style={styles.swatchRow}>
+                {result.palette.colors.map((color) => (
+                  <View
+                    key={color.hex}
+                    style={[styles.swatch, { backgroundColor: color.hex, flex: color.share }]}
+                  />
+                ))}
+              </View>
+              <Text style={styles.harmonyText}>{harmonyDescriptions[result.palette.harmony]}</Text>
+            </View>
+          )}
+        </View>
+
+        {result.occasionMatch && (
+          <View style={styles.occasionContainer}>
+            <View style={styles.occasionHeader}>
+              <Text style={styles.occasionTitle}>For {result.occasionMatch.label}</Text>
+              <Text
+                style={[
+                  styles.occasionScore,
+                  { color: occasionScoreColor(result.occasionMatch.score) },
+                ]}
+              >
+                {result.occasionMatch.score}/100
+              </Text>
+            </View>
+            {result.occasionMatch.gaps.length > 0 ? (
+              result.occasionMatch.gaps.map((gap) => (
+                <View key={gap} style={styles.gapRow}>
+                  <IconSymbol
+                    ios_icon_name="exclamationmark.circle"
+                    android_material_icon_name="error-outline"
+                    size={16}
+                    color="#fff"
+                  />
+                  <Text style={styles.gapText}>{gap}</Text>
+                </View>
+              ))
+            ) : (
+              <Text style={styles.gapText}>Nothing missing, this outfit fits the occasion.</Text>
+            )}
+          </View>
+        )}
+
+        {result.weather && (
+          <View style={styles.weatherContainer}>
+            <Text style={styles.occasionTitle}>{describeWeather(result.weather)}</Text>
+            {result.weather.warnings.length > 0 ? (
+              result.weather.warnings.map((warning) => (
+                <View key={warning} style={styles.gapRow}>
+                  <IconSymbol
+                    ios_icon_name="exclamationmark.triangle.fill"
+                    android_material_icon_name="warning"
+                    size={16}
+                    color="#FFD166"
+                  />
+                  <Text style={styles.gapText}>{warning}</Text>
+                </View>
+              ))
+            ) : (
+              <Text style={styles.gapText}>Dressed right for the weather.</Text>
+            )}
+          </View>
+        )}
+
+        <View style={styles.resultBody}>
+          <Text style={styles.resultLabel}>Analysis:</Text>
+          <Text style={styles.resultExplanation}>{result.explanation}</Text>
+
+          {topScores.length > 0 && (
+            <View style={styles.scoresContainer}>
+              <Text style={styles.resultLabel}>Style mix:</Text>
+              {topScores.map(([id, score]) => {
+                const scored = getCategory(id);
+                return (
+                  <View key={id} style={styles.scoreRow}>
+                    <Text style={styles.scoreLabel} numberOfLines={1}>
+                      {scored.label}
+                    </Text>
+                    <View style={styles.scoreTrack}>
+                      <LinearGradient
+                        colors={scored.colors}
+                        style={[styles.scoreFill, { width: `${Math.round(score * 100)}%` }]}
+                        start={{ x: 0, y: 0 }}
+                        end={{ x: 1, y: 0 }}
+                      />
+                    </View>
+                    <Text style={styles.scoreValue}>{Math.round(score * 100)}%</Text>
+                  </View>
+                );
+              })}
+            </View>
+          )}
+
+          <View style={styles.confidenceContainer}>
+            <Text style={styles.confidenceLabel}>Confidence:</Text>
+            <Text style={styles.confidenceValue}>
+              {result.confidence}
+              {result.confidenceScore != null && ` (${Math.round(result.confidenceScore * 100)}%)`}
+            </Text>
+          </View>
+        </View>
+      </LinearGradient>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  resultGradient: {
+    borderRadius: 20,
+    padding: 24,
+    marginBottom: 16,
+  },
+  resultHeader: {
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  resultCategory: {
+    fontSize: 32,
+    fontWeight: 'bold',
+    color: '#fff',
+    marginTop: 12,
+  },
+  paletteContainer: {
+    width: '100%',
+    marginTop: 16,
+    alignItems: 'center',
+  },
+  swatchRow: {
+    flexDirection: 'row',
+    width: '100%',
+    height: 24,
+    borderRadius: 12,
+    overflow: 'hidden',
+    borderWidth: 2,
+    borderColor: 'rgba(255, 255, 255, 0.6)',
+  },
+  swatch: {
+    height: '100%',
+  },
+  harmonyText: {
+    fontSize: 13,
+    color: '#fff',
+    marginTop: 8,
+    textAlign: 'center',
+    opacity: 0.9,
+  },
+  occasionContainer: {
+    backgroundColor: 'rgba(15, 15, 30, 0.35)',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+  },
+  weatherContainer: {
+    backgroundColor: 'rgba(15, 15, 30, 0.35)',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    gap: 4,
+  },
+  occasionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  occasionTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#fff',
+  },
+  occasionScore: {
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  gapRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 6,
+    marginTop: 4,
+  },
+  gapText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#fff',
+    lineHeight: 20,
+  },
+  resultBody: {
+    backgroundColor: 'rgba(255, 255, 255, 0.15)',
+    borderRadius: 12,
+    padding: 16,
+  },
+  resultLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#fff',
+    opacity: 0.8,
+    marginBottom: 8,
+  },
+  resultExplanation: {
+    fontSize: 16,
+    color: '#fff',
+    lineHeight: 24,
+  },
+  scoresContainer: {
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  scoreRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+    gap: 8,
+  },
+  scoreLabel: {
+    width: 110,
+    fontSize: 13,
+    color: '#fff',
+  },
+  scoreTrack: {
+    flex: 1,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    overflow: 'hidden',
+  },
+  scoreFill: {
+    height: '100%',
+    borderRadius: 4,
+  },
+  scoreValue: {
+    width: 40,
+    fontSize: 13,
+    color: '#fff',
+    fontWeight: 'bold',
+    textAlign: 'right',
+  },
+  confidenceContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  confidenceLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#fff',
+    opacity: 0.8,
+    marginRight: 8,
+  },
+  confidenceValue: {
+    fontSize: 14,
+    color: '#fff',
+    fontWeight: 'bold',
+  },
+  generatedImageContainer: {
+    width: '100%',
+    marginBottom: 20,
+    borderRadius: 20,
+    overflow: 'hidden',
+    backgroundColor: '#1a1a2e',
+    position: 'relative',
+  },
+  generatedImageTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#fff',
+    textAlign: 'center',
+    paddingVertical: 16,
+    backgroundColor: '#1a1a2e',
+  },
+  generatedImage: {
+    width: '100%',
+    aspectRatio: 3 / 4,
+  },
+  generatedImagePlaceholder: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 12,
+  },
+  moreComing: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+    paddingBottom: 12,
+  },
+  placeholderText: {
+    fontSize: 14,
+    color: '#999',
+  },
+  generatedImageBadge: {
+    position: 'absolute',
+    top: 60,
+    right: 16,
+    borderRadius: 20,
+    overflow: 'hidden',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.3,
+    shadowRadius: 8,
+    elevation: 8,
+  },
+  badgeGradient: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    gap: 8,
+  },
+  badgeText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
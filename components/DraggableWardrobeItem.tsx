@@ -0,0 +1,116 @@
+import React from 'react';
+import { View, Text, StyleSheet, Image } from 'react-native';
+import { Gesture, GestureDetector } from 'react-native-gesture-handler';
+import { runOnJS, SharedValue } from 'react-native-reanimated';
+import { IconSymbol } from '@/components/IconSymbol';
+import { colors } from '@/styles/commonStyles';
+import { WardrobeItem } from '@/utils/wardrobe';
+
+// Hold this long before a drag starts, so a quick swipe still scrolls the strip
+const LONG_PRESS_MS = 200;
+
+interface DraggableWardrobeItemProps {
+  item: WardrobeItem;
+  // Finger position in window coordinates while dragging, for the drag preview
+  dragX: SharedValue<number>;
+  dragY: SharedValue<number>;
+  onDragStart: (item: WardrobeItem) => void;
+  // Called with the window coordinates the item was let go at
+  onDrop: (item: WardrobeItem, x: number, y: number) => void;
+  onDragEnd: () => void;
+  onPress: (item: WardrobeItem) => void;
+  selected?: boolean;
+}
+
+export function WardrobeThumbnail({ item, size }: { item: WardrobeItem; size: number }) {
+  return item.imageUrl ? (
+    <Image source={{ uri: item.imageUrl }} style={[styles.image, { width: size, height: size }]} />
+  ) : (
+    <View style={[styles.image, styles.placeholder, { width: size, height: size }]}>
+      <IconSymbol
+        ios_icon_name="tshirt"
+        android_material_icon_name="checkroom"
+        size={size / 2.5}
+        color={colors.grey}
+      />
+    </View>
+  );
+}
+
+/**
+ * A wardrobe item that can be held and dragged out of a list, or tapped.
+ * The item stays in place; the screen draws the preview that follows the finger.
+ */
+export function DraggableWardrobeItem({
+  item,
+  dragX,
+  dragY,
+  onDragStart,
+  onDrop,
+  onDragEnd,
+  onPress,
+  selected = false,
+}: DraggableWardrobeItemProps) {
+  const pan = Gesture.Pan()
+    .activateAfterLongPress(LONG_PRESS_MS)
+    .onStart((event) => {
+      dragX.value = event.absoluteX;
+      dragY.value = event.absoluteY;
+      runOnJS(onDragStart)(item);
+    })
+    .onUpdate((event) => {
+      dragX.value = event.absoluteX;
+      dragY.value = event.absoluteY;
+    })
+    .onEnd((event) => {
+      runOnJS(onDrop)(item, event.absoluteX, event.absoluteY);
+    })
+    .onFinalize(() => {
+      runOnJS(onDragEnd)();
+    });
+
+  const tap = Gesture.Tap().onEnd(() => {
+    runOnJS(onPress)(item);
+  });
+
+  return (
+    <GestureDetector gesture={Gesture.Exclusive(pan, tap)}>
+      <View style={[styles.container, selected && styles.selected]}>
+        <WardrobeThumbnail item={item} size={72} />
+        <Text style={styles.title} numberOfLines={1}>
+          {item.type}
+        </Text>
+      </View>
+    </GestureDetector>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    width: 84,
+    padding: 6,
+    borderRadius: 12,
+    backgroundColor: colors.card,
+    borderWidth: 2,
+    borderColor: 'transparent',
+    alignItems: 'center',
+    gap: 4,
+  },
+  selected: {
+    borderColor: colors.accent,
+  },
+  image: {
+    borderRadius: 8,
+  },
+  placeholder: {
+    backgroundColor: colors.background,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: colors.text,
+    textTransform: 'capitalize',
+  },
+});
@@ -0,0 +1,213 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, ActivityIndicator } from 'react-native';
+import { IconSymbol } from '@/components/IconSymbol';
+import { useCategories } from '@/contexts/CategoriesContext';
+import { OutfitCategory } from '@/constants/OutfitCategories';
+import { FeedbackRating } from '@/utils/analyses';
+
+interface FeedbackControlProps {
+  // Category the analysis was given, preselected when correcting it
+  category: OutfitCategory;
+  // Resolves once the feedback is saved
+  onSubmit: (feedback: {
+    rating: FeedbackRating;
+    correctedCategory?: OutfitCategory;
+    comment?: string;
+  }) => Promise<void>;
+}
+
+const MAX_COMMENT_LENGTH = 1000;
+
+/**
+ * "Was this right?" thumbs under a result. Thumbs up is sent straight
+ * away; thumbs down opens the category chips and a comment box first.
+ */
+export function FeedbackControl({ category, onSubmit }: FeedbackControlProps) {
+  const { categories } = useCategories();
+  const [rating, setRating] = useState<FeedbackRating | null>(null);
+  const [correctedCategory, setCorrectedCategory] = useState<OutfitCategory>(category);
+  const [comment, setComment] = useState('');
+  const [sending, setSending] = useState(false);
+  const [sent, setSent] = useState(false);
+
+  const send = async (feedback: Parameters<FeedbackControlProps['onSubmit']>[0]) => {
+    setSending(true);
+    try {
+      await onSubmit(feedback);
+      setSent(true);
+    } catch {
+      // The screen reports the error; keep the form so the user can retry
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const thumbsUp = () => {
+    setRating('up');
+    send({ rating: 'up' });
+  };
+
+  const sendCorrection = () =>
+    send({
+      rating: 'down',
+      correctedCategory: correctedCategory !== category ? correctedCategory : undefined,
+      comment: comment.trim() || undefined,
+    });
+
+  if (sent) {
+    return (
+      <View style={[styles.container, styles.header]}>
+        <IconSymbol
+          ios_icon_name="checkmark.circle.fill"
+          android_material_icon_name="check-circle"
+          size={20}
+          color="#4ECDC4"
+        />
+        <Text style={styles.title}>Thanks for the feedback!</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Was this analysis right?</Text>
+        {sending && rating === 'up' ? (
+          <ActivityIndicator color="#fff" size="small" />
+        ) : (
+          <>
+            <TouchableOpacity onPress={thumbsUp} disabled={sending} hitSlop={8}>
+              <IconSymbol
+                ios_icon_name="hand.thumbsup.fill"
+                android_material_icon_name="thumb-up"
+                size={22}
+                color="#fff"
+              />
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => setRating('down')} disabled={sending} hitSlop={8}>
+              <IconSymbol
+                ios_icon_name="hand.thumbsdown.fill"
+                android_material_icon_name="thumb-down"
+                size={22}
+                color={rating === 'down' ? '#FF6B6B' : '#fff'}
+              />
+            </TouchableOpacity>
+          </>
+        )}
+      </View>
+
+      {rating === 'down' && (
+        <View style={styles.body}>
+          <Text style={styles.hint}>Which style is it?</Text>
+          <View style={styles.chipRow}>
+            {categories.map((item) => (
+              <TouchableOpacity
+                key={item.id}
+                style={[styles.chip, correctedCategory === item.id && styles.chipSelected]}
+                onPress={() => setCorrectedCategory(item.id)}
+                disabled={sending}
+              >
+                <Text style={styles.chipText}>{item.label}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <TextInput
+            style={styles.input}
+            placeholder="What did we get wrong? (optional)"
+            placeholderTextColor="#666"
+            value={comment}
+            onChangeText={setComment}
+            maxLength={MAX_COMMENT_LENGTH}
+            editable={!sending}
+            multiline
+          />
+          <TouchableOpacity
+            style={[styles.button, sending && styles.buttonDisabled]}
+            onPress={sendCorrection}
+            disabled={sending}
+          >
+            {sending ? (
+              <ActivityIndicator color="#fff" size="small" />
+            ) : (
+              <Text style={styles.buttonText}>Send Feedback</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#2a2438',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+  },
+  title: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  body: {
+    marginTop: 12,
+    gap: 10,
+  },
+  hint: {
+    fontSize: 13,
+    color: '#999',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: '#1a1a2e',
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  chipSelected: {
+    borderColor: '#4ECDC4',
+  },
+  chipText: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  input: {
+    backgroundColor: '#1a1a2e',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    color: '#fff',
+    fontSize: 14,
+    minHeight: 60,
+    textAlignVertical: 'top',
+  },
+  button: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    borderRadius: 12,
+    backgroundColor: '#4ECDC4',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
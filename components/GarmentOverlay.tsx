@@ -0,0 +1,126 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { DetectedGarment } from '@/utils/analyses';
+
+interface GarmentOverlayProps {
+  garments: DetectedGarment[];
+}
+
+const MARKER_SIZE = 28;
+
+const percent = (value: number) => `${value * 100}%` as const;
+
+/**
+ * Tappable markers for detected garments, laid over the photo they were
+ * detected in. Place it inside the image container so boxes line up.
+ */
+export function GarmentOverlay({ garments }: GarmentOverlayProps) {
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+
+  // A new analysis means a new set of markers
+  useEffect(() => {
+    setSelectedIndex(null);
+  }, [garments]);
+
+  const selected = selectedIndex !== null ? garments[selectedIndex] : null;
+
+  return (
+    <View style={StyleSheet.absoluteFill} pointerEvents="box-none">
+      {selected && (
+        <View
+          pointerEvents="none"
+          style={[
+            styles.box,
+            {
+              left: percent(selected.boundingBox.x),
+              top: percent(selected.boundingBox.y),
+              width: percent(selected.boundingBox.width),
+              height: percent(selected.boundingBox.height),
+            },
+          ]}
+        />
+      )}
+
+      {garments.map((garment, index) => {
+        const { x, y, width, height } = garment.boundingBox;
+        return (
+          <TouchableOpacity
+            key={`${garment.type}-${index}`}
+            style={[
+              styles.marker,
+              selectedIndex === index && styles.markerSelected,
+              { left: percent(x + width / 2), top: percent(y + height / 2) },
+            ]}
+            onPress={() => setSelectedIndex((current) => (current === index ? null : index))}
+            hitSlop={8}
+          >
+            <Text style={styles.markerText}>{index + 1}</Text>
+          </TouchableOpacity>
+        );
+      })}
+
+      {selected && (
+        <View style={styles.details} pointerEvents="none">
+          <Text style={styles.detailsTitle}>
+            {selected.color} {selected.pattern !== 'solid' ? `${selected.pattern} ` : ''}
+            {selected.type}
+          </Text>
+          <Text style={styles.detailsText}>{selected.material}</Text>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  box: {
+    position: 'absolute',
+    borderWidth: 2,
+    borderColor: '#fff',
+    borderRadius: 8,
+    backgroundColor: 'rgba(255, 255, 255, 0.12)',
+  },
+  marker: {
+    position: 'absolute',
+    width: MARKER_SIZE,
+    height: MARKER_SIZE,
+    marginLeft: -MARKER_SIZE / 2,
+    marginTop: -MARKER_SIZE / 2,
+    borderRadius: MARKER_SIZE / 2,
+    backgroundColor: 'rgba(15, 15, 30, 0.75)',
+    borderWidth: 2,
+    borderColor: '#fff',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  markerSelected: {
+    backgroundColor: '#4ECDC4',
+  },
+  markerText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
+  details: {
+    position: 'absolute',
+    left: 12,
+    right: 12,
+    bottom: 12,
+    backgroundColor: 'rgba(15, 15, 30, 0.85)',
+    borderRadius: 12,
+    paddingVertical: 10,
+    paddingHorizontal: 14,
+  },
+  detailsTitle: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+    textTransform: 'capitalize',
+  },
+  detailsText: {
+    color: '#bbb',
+    fontSize: 13,
+    marginTop: 2,
+    textTransform: 'capitalize',
+  },
+});
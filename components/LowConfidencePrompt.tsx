@@ -0,0 +1,181 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { IconSymbol } from '@/components/IconSymbol';
+import { useCategories } from '@/contexts/CategoriesContext';
+import { OutfitCategory } from '@/constants/OutfitCategories';
+
+interface LowConfidencePromptProps {
+  // Category the model picked, highlighted in the picker
+  category: OutfitCategory;
+  onRetake: () => void;
+  onConfirm: (category: OutfitCategory) => Promise<void>;
+}
+
+/**
+ * Shown under a low-confidence result: lets the user retake the photo
+ * or pick the right category themselves.
+ */
+export function LowConfidencePrompt({ category, onRetake, onConfirm }: LowConfidencePromptProps) {
+  const { categories } = useCategories();
+  const [picking, setPicking] = useState(false);
+  const [saving, setSaving] = useState<OutfitCategory | null>(null);
+
+  const confirm = async (id: OutfitCategory) => {
+    setSaving(id);
+    try {
+      await onConfirm(id);
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <IconSymbol
+          ios_icon_name="exclamationmark.triangle.fill"
+          android_material_icon_name="warning"
+          size={22}
+          color="#FFD166"
+        />
+        <Text style={styles.title}>Not quite sure about this one</Text>
+      </View>
+      <Text style={styles.text}>
+        The photo was hard to read. Retake it with the whole outfit in good light, or tell us
+        which style it is.
+      </Text>
+
+      <View style={styles.buttonRow}>
+        <TouchableOpacity style={[styles.button, styles.retakeButton]} onPress={onRetake}>
+          <IconSymbol
+            ios_icon_name="camera.fill"
+            android_material_icon_name="photo-camera"
+            size={18}
+            color="#fff"
+          />
+          <Text style={styles.buttonText}>Retake Photo</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.button, styles.pickButton]}
+          onPress={() => setPicking((current) => !current)}
+        >
+          <IconSymbol
+            ios_icon_name="checkmark.circle"
+            android_material_icon_name="check-circle"
+            size={18}
+            color="#fff"
+          />
+          <Text style={styles.buttonText}>Choose Style</Text>
+        </TouchableOpacity>
+      </View>
+
+      {picking && (
+        <View style={styles.categoryGrid}>
+          {categories.map((item) => (
+            <TouchableOpacity
+              key={item.id}
+              onPress={() => confirm(item.id)}
+              disabled={saving !== null}
+              activeOpacity={0.8}
+            >
+              <LinearGradient
+                colors={item.colors}
+                style={[styles.categoryChip, item.id === category && styles.categoryChipSelected]}
+                start={{ x: 0, y: 0 }}
+                end={{ x: 1, y: 1 }}
+              >
+                {saving === item.id ? (
+                  <ActivityIndicator color="#fff" size="small" />
+                ) : (
+                  <IconSymbol
+                    ios_icon_name="tag.fill"
+                    android_material_icon_name={item.icon}
+                    size={14}
+                    color="#fff"
+                  />
+                )}
+                <Text style={styles.categoryText}>{item.label}</Text>
+              </LinearGradient>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#2a2438',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 209, 102, 0.4)',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#fff',
+  },
+  text: {
+    fontSize: 14,
+    color: '#ccc',
+    lineHeight: 20,
+    marginBottom: 12,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  button: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    borderRadius: 12,
+    gap: 6,
+  },
+  retakeButton: {
+    backgroundColor: '#FF6B6B',
+  },
+  pickButton: {
+    backgroundColor: '#4ECDC4',
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  categoryGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 12,
+  },
+  categoryChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    gap: 6,
+  },
+  categoryChipSelected: {
+    borderWidth: 2,
+    borderColor: '#fff',
+  },
+  categoryText: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,108 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView } from 'react-native';
+import { IconSymbol } from '@/components/IconSymbol';
+import { fetchOccasions, OccasionInfo } from '@/utils/occasions';
+
+interface OccasionPickerProps {
+  // Selected occasion id, or null for a plain analysis
+  value: string | null;
+  onChange: (occasion: string | null) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Optional "what are you dressing for?" chips shown before analyzing.
+ * Hidden when the occasion list cannot be loaded.
+ */
+export function OccasionPicker({ value, onChange, disabled = false }: OccasionPickerProps) {
+  const [occasions, setOccasions] = useState<OccasionInfo[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchOccasions()
+      .then((items) => {
+        if (!cancelled) setOccasions(items);
+      })
+      .catch((error) => {
+        console.error('[OccasionPicker] Error loading occasions:', error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (occasions.length === 0) return null;
+
+  const selected = occasions.find((occasion) => occasion.id === value);
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>Dressing for an occasion?</Text>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+        <TouchableOpacity
+          style={[styles.chip, value === null && styles.chipSelected]}
+          onPress={() => onChange(null)}
+          disabled={disabled}
+        >
+          <Text style={styles.chipText}>Any</Text>
+        </TouchableOpacity>
+        {occasions.map((occasion) => (
+          <TouchableOpacity
+            key={occasion.id}
+            style={[styles.chip, value === occasion.id && styles.chipSelected]}
+            onPress={() => onChange(occasion.id)}
+            disabled={disabled}
+          >
+            <IconSymbol
+              ios_icon_name="calendar"
+              android_material_icon_name={occasion.icon}
+              size={14}
+              color="#fff"
+            />
+            <Text style={styles.chipText}>{occasion.label}</Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+      {selected && <Text style={styles.dressCode}>Dress code: {selected.dressCode}</Text>}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#fff',
+    marginBottom: 10,
+  },
+  chipRow: {
+    gap: 8,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: '#2a2438',
+    borderWidth: 2,
+    borderColor: 'transparent',
+    gap: 6,
+  },
+  chipSelected: {
+    borderColor: '#4ECDC4',
+  },
+  chipText: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  dressCode: {
+    fontSize: 13,
+    color: '#999',
+    marginTop: 8,
+  },
+});
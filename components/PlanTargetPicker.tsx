@@ -0,0 +1,235 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  FlatList,
+  Image,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import { IconSymbol } from '@/components/IconSymbol';
+import { WardrobeThumbnail } from '@/components/DraggableWardrobeItem';
+import { useCategories } from '@/contexts/CategoriesContext';
+import { colors } from '@/styles/commonStyles';
+import { AnalysisResult, fetchAnalyses } from '@/utils/analyses';
+import { Outfit, fetchOutfits } from '@/utils/outfits';
+import { PlanTarget } from '@/utils/planner';
+
+// Enough to pick from without paging
+const PAGE_SIZE = 50;
+
+interface PlanTargetPickerProps {
+  visible: boolean;
+  // Shown in the title, e.g. "Mon 2 Nov"
+  dateLabel: string;
+  onSelect: (target: PlanTarget) => void;
+  onClose: () => void;
+}
+
+/**
+ * Bottom sheet for choosing what to plan for a day: a saved outfit or a
+ * past analysis. Lists load each time the sheet opens.
+ */
+export function PlanTargetPicker({ visible, dateLabel, onSelect, onClose }: PlanTargetPickerProps) {
+  const { getCategory } = useCategories();
+  const [tab, setTab] = useState<'outfits' | 'analyses'>('outfits');
+  const [outfits, setOutfits] = useState<Outfit[]>([]);
+  const [analyses, setAnalyses] = useState<AnalysisResult[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+
+    let cancelled = false;
+    setLoading(true);
+    Promise.all([fetchOutfits(null, PAGE_SIZE), fetchAnalyses(null, PAGE_SIZE)])
+      .then(([outfitPage, analysisPage]) => {
+        if (cancelled) return;
+        setOutfits(outfitPage.items);
+        setAnalyses(analysisPage.items);
+      })
+      .catch((error) => {
+        console.error('[PlanTargetPicker] Error loading outfits and analyses:', error);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [visible]);
+
+  const renderOutfit = ({ item: outfit }: { item: Outfit }) => (
+    <TouchableOpacity style={styles.row} onPress={() => onSelect({ outfitId: outfit.id })}>
+      <View style={styles.rowImages}>
+        {outfit.items.slice(0, 4).map((item) => (
+          <WardrobeThumbnail key={item.id} item={item} size={40} />
+        ))}
+      </View>
+      <Text style={styles.rowTitle} numberOfLines={1}>
+        {outfit.name ?? 'Untitled look'}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  const renderAnalysis = ({ item: analysis }: { item: AnalysisResult }) => (
+    <TouchableOpacity style={styles.row} onPress={() => onSelect({ analysisId: analysis.id })}>
+      {analysis.originalImageUrl ? (
+        <Image source={{ uri: analysis.originalImageUrl }} style={styles.analysisImage} />
+      ) : null}
+      <View style={styles.rowText}>
+        <Text style={styles.rowTitle} numberOfLines={1}>
+          {getCategory(analysis.category).label}
+        </Text>
+        <Text style={styles.rowSubtitle}>{new Date(analysis.createdAt).toLocaleDateString()}</Text>
+      </View>
+    </TouchableOpacity>
+  );
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+      <View style={styles.backdrop}>
+        <View style={styles.sheet}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Plan {dateLabel}</Text>
+            <TouchableOpacity onPress={onClose} accessibilityLabel="Close">
+              <IconSymbol
+                ios_icon_name="xmark"
+                android_material_icon_name="close"
+                size={24}
+                color={colors.text}
+              />
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.tabs}>
+            {(['outfits', 'analyses'] as const).map((option) => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.tab, tab === option && styles.tabSelected]}
+                onPress={() => setTab(option)}
+              >
+                <Text style={styles.tabText}>{option === 'outfits' ? 'Saved Looks' : 'Analyses'}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {loading ? (
+            <ActivityIndicator style={styles.loading} size="large" color={colors.primary} />
+          ) : tab === 'outfits' ? (
+            <FlatList
+              data={outfits}
+              renderItem={renderOutfit}
+              keyExtractor={(outfit) => outfit.id}
+              contentContainerStyle={styles.list}
+              ListEmptyComponent={
+                <Text style={styles.emptyText}>No saved looks yet. Build one in the Wardrobe tab.</Text>
+              }
+            />
+          ) : (
+            <FlatList
+              data={analyses}
+              renderItem={renderAnalysis}
+              keyExtractor={(analysis) => analysis.id}
+              contentContainerStyle={styles.list}
+              ListEmptyComponent={<Text style={styles.emptyText}>No analyses yet.</Text>}
+            />
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+  },
+  sheet: {
+    maxHeight: '75%',
+    minHeight: '50%',
+    backgroundColor: colors.background,
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 16,
+    gap: 12,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  tabs: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  tab: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderRadius: 12,
+    backgroundColor: colors.card,
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  tabSelected: {
+    borderColor: colors.accent,
+  },
+  tabText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  loading: {
+    paddingVertical: 40,
+  },
+  list: {
+    gap: 8,
+    paddingBottom: 24,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.card,
+    borderRadius: 12,
+    padding: 10,
+    gap: 10,
+  },
+  rowImages: {
+    flexDirection: 'row',
+    gap: 4,
+  },
+  rowText: {
+    flex: 1,
+  },
+  rowTitle: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  rowSubtitle: {
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+  analysisImage: {
+    width: 40,
+    height: 53,
+    borderRadius: 6,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    paddingVertical: 40,
+  },
+});
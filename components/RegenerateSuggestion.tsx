@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, ActivityIndicator } from 'react-native';
+import { IconSymbol } from '@/components/IconSymbol';
+
+interface RegenerateSuggestionProps {
+  // Resolves once the new image has been added to the analysis
+  onRegenerate: (instruction: string) => Promise<void>;
+}
+
+const MAX_INSTRUCTION_LENGTH = 200;
+
+/**
+ * "Not your style?" box under the suggestions: asks for another image,
+ * optionally steered with a short instruction. Earlier images are kept.
+ */
+export function RegenerateSuggestion({ onRegenerate }: RegenerateSuggestionProps) {
+  const [instruction, setInstruction] = useState('');
+  const [regenerating, setRegenerating] = useState(false);
+
+  const regenerate = async () => {
+    setRegenerating(true);
+    try {
+      await onRegenerate(instruction.trim());
+      setInstruction('');
+    } finally {
+      setRegenerating(false);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>Not your style?</Text>
+      <TextInput
+        style={styles.input}
+        placeholder='e.g. "more colourful" or "no heels"'
+        placeholderTextColor="#666"
+        value={instruction}
+        onChangeText={setInstruction}
+        maxLength={MAX_INSTRUCTION_LENGTH}
+        editable={!regenerating}
+        onSubmitEditing={regenerate}
+        returnKeyType="go"
+      />
+      <TouchableOpacity
+        style={[styles.button, regenerating && styles.buttonDisabled]}
+        onPress={regenerate}
+        disabled={regenerating}
+      >
+        {regenerating ? (
+          <ActivityIndicator color="#fff" size="small" />
+        ) : (
+          <IconSymbol
+            ios_icon_name="arrow.clockwise"
+            android_material_icon_name="refresh"
+            size={18}
+            color="#fff"
+          />
+        )}
+        <Text style={styles.buttonText}>
+          {regenerating ? 'Generating...' : 'Generate Another'}
+        </Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#2a2438',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+    gap: 10,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#fff',
+  },
+  input: {
+    backgroundColor: '#1a1a2e',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    color: '#fff',
+    fontSize: 14,
+  },
+  button: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    borderRadius: 12,
+    backgroundColor: '#4ECDC4',
+    gap: 6,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
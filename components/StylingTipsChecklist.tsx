@@ -0,0 +1,140 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import MaterialIcons from '@expo/vector-icons/MaterialIcons';
+import { IconSymbol } from '@/components/IconSymbol';
+import { StylingTip } from '@/utils/analyses';
+
+interface StylingTipsChecklistProps {
+  tips: StylingTip[];
+}
+
+const actionIcons: Record<StylingTip['action'], keyof typeof MaterialIcons.glyphMap> = {
+  swap: 'swap-horiz',
+  add: 'add-circle-outline',
+  remove: 'remove-circle-outline',
+};
+
+const priorityColors: Record<StylingTip['priority'], string> = {
+  high: '#FF6B6B',
+  medium: '#FFD166',
+  low: '#4ECDC4',
+};
+
+/**
+ * Styling tips as a checklist the user can tick off while changing.
+ * Ticks are local to the screen and not saved.
+ */
+export function StylingTipsChecklist({ tips }: StylingTipsChecklistProps) {
+  const [done, setDone] = useState<Set<number>>(new Set());
+
+  // Start over when a new analysis comes in
+  useEffect(() => {
+    setDone(new Set());
+  }, [tips]);
+
+  const toggle = (index: number) => {
+    setDone((current) => {
+      const next = new Set(current);
+      if (next.has(index)) {
+        next.delete(index);
+      } else {
+        next.add(index);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>💡 Styling Tips</Text>
+      {tips.map((tip, index) => {
+        const checked = done.has(index);
+        return (
+          <TouchableOpacity
+            key={`${tip.action}-${tip.garment}-${index}`}
+            style={styles.tipRow}
+            onPress={() => toggle(index)}
+            activeOpacity={0.7}
+          >
+            <IconSymbol
+              ios_icon_name={checked ? 'checkmark.square.fill' : 'square'}
+              android_material_icon_name={checked ? 'check-box' : 'check-box-outline-blank'}
+              size={22}
+              color={checked ? '#4ECDC4' : '#999'}
+            />
+            <View style={styles.tipContent}>
+              <Text style={[styles.tipText, checked && styles.tipTextDone]}>{tip.suggestion}</Text>
+              <View style={styles.tipMeta}>
+                <IconSymbol
+                  ios_icon_name="tshirt"
+                  android_material_icon_name={actionIcons[tip.action]}
+                  size={14}
+                  color="#999"
+                />
+                <Text style={styles.tipGarment}>{tip.garment}</Text>
+                <View style={[styles.priorityBadge, { backgroundColor: priorityColors[tip.priority] }]}>
+                  <Text style={styles.priorityText}>{tip.priority}</Text>
+                </View>
+              </View>
+            </View>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#1a1a2e',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#fff',
+    marginBottom: 12,
+  },
+  tipRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 12,
+    paddingVertical: 8,
+  },
+  tipContent: {
+    flex: 1,
+  },
+  tipText: {
+    fontSize: 15,
+    color: '#fff',
+    lineHeight: 21,
+  },
+  tipTextDone: {
+    color: '#777',
+    textDecorationLine: 'line-through',
+  },
+  tipMeta: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 4,
+  },
+  tipGarment: {
+    fontSize: 12,
+    color: '#999',
+    textTransform: 'capitalize',
+  },
+  priorityBadge: {
+    borderRadius: 6,
+    paddingHorizontal: 6,
+    paddingVertical: 1,
+  },
+  priorityText: {
+    fontSize: 10,
+    fontWeight: 'bold',
+    color: '#0f0f1e',
+    textTransform: 'uppercase',
+  },
+});
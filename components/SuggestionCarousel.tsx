@@ -0,0 +1,160 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Image,
+  ScrollView,
+  TouchableOpacity,
+  LayoutChangeEvent,
+  NativeSyntheticEvent,
+  NativeScrollEvent,
+} from 'react-native';
+import { IconSymbol } from '@/components/IconSymbol';
+import { StyleDirection, SuggestionImage } from '@/utils/analyses';
+
+interface SuggestionCarouselProps {
+  images: SuggestionImage[];
+  // Omit to hide the favourite button, e.g. before the analysis is stored
+  onFavorite?: (index: number | null) => void;
+}
+
+const directionLabels: Record<StyleDirection, string> = {
+  minimal: 'Minimal',
+  bold: 'Bold',
+  budget: 'Budget',
+  premium: 'Premium',
+};
+
+/**
+ * Swipeable suggestion images, one page per styling direction or
+ * regenerated version, with a heart to favourite one. A single image
+ * renders without the paging dots.
+ */
+export function SuggestionCarousel({ images, onFavorite }: SuggestionCarouselProps) {
+  const [width, setWidth] = useState(0);
+  const [page, setPage] = useState(0);
+
+  const scrollRef = useRef<ScrollView>(null);
+  const imageCount = useRef(images.length);
+
+  // Jump to an image added after the first render (a regenerated version),
+  // and stay on a page that exists when the list shrinks
+  useEffect(() => {
+    if (images.length > imageCount.current && imageCount.current > 0) {
+      scrollRef.current?.scrollToEnd();
+      setPage(images.length - 1);
+    } else {
+      setPage((current) => Math.min(current, Math.max(images.length - 1, 0)));
+    }
+    imageCount.current = images.length;
+  }, [images.length]);
+
+  const onLayout = (event: LayoutChangeEvent) => setWidth(event.nativeEvent.layout.width);
+
+  const onScrollEnd = (event: NativeSyntheticEvent<NativeScrollEvent>) => {
+    if (width > 0) {
+      setPage(Math.round(event.nativeEvent.contentOffset.x / width));
+    }
+  };
+
+  return (
+    <View onLayout={onLayout}>
+      <ScrollView
+        ref={scrollRef}
+        horizontal
+        pagingEnabled
+        showsHorizontalScrollIndicator={false}
+        onMomentumScrollEnd={onScrollEnd}
+        scrollEnabled={images.length > 1}
+      >
+        {images.map((image, index) => (
+          <View key={image.url} style={{ width }}>
+            <Image source={{ uri: image.url }} style={styles.image} resizeMode="cover" />
+            {image.instruction ? (
+              <View style={styles.directionLabel}>
+                <Text style={styles.directionText} numberOfLines={1}>
+                  “{image.instruction}”
+                </Text>
+              </View>
+            ) : image.direction ? (
+              <View style={styles.directionLabel}>
+                <Text style={styles.directionText}>{directionLabels[image.direction]}</Text>
+              </View>
+            ) : null}
+            {onFavorite && (
+              <TouchableOpacity
+                style={styles.favoriteButton}
+                onPress={() => onFavorite(image.favorite ? null : index)}
+                hitSlop={8}
+              >
+                <IconSymbol
+                  ios_icon_name={image.favorite ? 'heart.fill' : 'heart'}
+                  android_material_icon_name={image.favorite ? 'favorite' : 'favorite-border'}
+                  size={26}
+                  color={image.favorite ? '#FF6B6B' : '#fff'}
+                />
+              </TouchableOpacity>
+            )}
+          </View>
+        ))}
+      </ScrollView>
+
+      {images.length > 1 && (
+        <View style={styles.dots}>
+          {images.map((image, index) => (
+            <View key={image.url} style={[styles.dot, index === page && styles.dotActive]} />
+          ))}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  image: {
+    width: '100%',
+    aspectRatio: 3 / 4,
+  },
+  directionLabel: {
+    position: 'absolute',
+    left: 16,
+    bottom: 16,
+    maxWidth: '70%',
+    backgroundColor: 'rgba(15, 15, 30, 0.75)',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  directionText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+  favoriteButton: {
+    position: 'absolute',
+    right: 16,
+    bottom: 16,
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: 'rgba(15, 15, 30, 0.75)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  dots: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 6,
+    paddingVertical: 12,
+  },
+  dot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#555',
+  },
+  dotActive: {
+    backgroundColor: '#fff',
+  },
+});
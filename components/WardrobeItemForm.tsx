@@ -0,0 +1,297 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, ActivityIndicator } from 'react-native';
+import { GarmentPattern } from '@/utils/analyses';
+import {
+  WARDROBE_SEASONS,
+  WardrobeItem,
+  WardrobeItemInput,
+  WardrobeSeason,
+} from '@/utils/wardrobe';
+
+const PATTERNS: GarmentPattern[] = [
+  'solid',
+  'striped',
+  'checked',
+  'floral',
+  'graphic',
+  'animal',
+  'other',
+];
+
+interface WardrobeItemFormProps {
+  // Values to start from when editing an item
+  initial?: WardrobeItem;
+  submitLabel: string;
+  // Resolves once the item is saved
+  onSubmit: (input: WardrobeItemInput & { type: string }) => Promise<void>;
+}
+
+const splitList = (value: string) =>
+  value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+
+/**
+ * Fields of a wardrobe item. Colours and tags are typed comma separated;
+ * no season selected means the item is worn all year round.
+ */
+export function WardrobeItemForm({ initial, submitLabel, onSubmit }: WardrobeItemFormProps) {
+  const [type, setType] = useState(initial?.type ?? '');
+  const [colors, setColors] = useState(initial?.colors.join(', ') ?? '');
+  const [pattern, setPattern] = useState<GarmentPattern | null>(initial?.pattern ?? null);
+  const [material, setMaterial] = useState(initial?.material ?? '');
+  const [seasons, setSeasons] = useState<WardrobeSeason[]>(initial?.seasons ?? []);
+  const [brand, setBrand] = useState(initial?.brand ?? '');
+  const [tags, setTags] = useState(initial?.tags.join(', ') ?? '');
+  const [purchaseDate, setPurchaseDate] = useState(initial?.purchaseDate ?? '');
+  const [purchasePrice, setPurchasePrice] = useState(
+    initial?.purchasePrice != null ? String(initial.purchasePrice) : ''
+  );
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const toggleSeason = (season: WardrobeSeason) =>
+    setSeasons((current) =>
+      current.includes(season) ? current.filter((entry) => entry !== season) : [...current, season]
+    );
+
+  const submit = async () => {
+    if (!type.trim()) {
+      setError('What kind of item is it? e.g. blazer');
+      return;
+    }
+    if (purchaseDate.trim() && !/^\d{4}-\d{2}-\d{2}$/.test(purchaseDate.trim())) {
+      setError('Enter the purchase date as YYYY-MM-DD');
+      return;
+    }
+    const price = purchasePrice.trim() ? Number(purchasePrice.replace(',', '.')) : null;
+    if (price !== null && !(price >= 0)) {
+      setError('Enter the price as a number, e.g. 49.90');
+      return;
+    }
+
+    setError(null);
+    setSaving(true);
+    try {
+      await onSubmit({
+        type: type.trim(),
+        colors: splitList(colors),
+        pattern,
+        material: material.trim() || null,
+        seasons,
+        brand: brand.trim() || null,
+        tags: splitList(tags),
+        purchaseDate: purchaseDate.trim() || null,
+        purchasePrice: price,
+      });
+    } catch {
+      // The screen reports the error; keep the form so the user can retry
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>Type</Text>
+      <TextInput
+        style={styles.input}
+        placeholder="e.g. blazer, jeans, sneakers"
+        placeholderTextColor="#666"
+        value={type}
+        onChangeText={setType}
+        maxLength={50}
+        editable={!saving}
+      />
+
+      <Text style={styles.label}>Colours</Text>
+      <TextInput
+        style={styles.input}
+        placeholder="e.g. navy, white"
+        placeholderTextColor="#666"
+        value={colors}
+        onChangeText={setColors}
+        editable={!saving}
+      />
+
+      <Text style={styles.label}>Pattern</Text>
+      <View style={styles.chipRow}>
+        {PATTERNS.map((option) => (
+          <TouchableOpacity
+            key={option}
+            style={[styles.chip, pattern === option && styles.chipSelected]}
+            onPress={() => setPattern(pattern === option ? null : option)}
+            disabled={saving}
+          >
+            <Text style={styles.chipText}>{option}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <Text style={styles.label}>Seasons</Text>
+      <View style={styles.chipRow}>
+        {WARDROBE_SEASONS.map((season) => (
+          <TouchableOpacity
+            key={season}
+            style={[styles.chip, seasons.includes(season) && styles.chipSelected]}
+            onPress={() => toggleSeason(season)}
+            disabled={saving}
+          >
+            <Text style={styles.chipText}>{season}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+      <Text style={styles.hint}>Leave all unselected for an item worn all year round.</Text>
+
+      <Text style={styles.label}>Material</Text>
+      <TextInput
+        style={styles.input}
+        placeholder="e.g. wool"
+        placeholderTextColor="#666"
+        value={material}
+        onChangeText={setMaterial}
+        maxLength={50}
+        editable={!saving}
+      />
+
+      <Text style={styles.label}>Brand</Text>
+      <TextInput
+        style={styles.input}
+        placeholderTextColor="#666"
+        value={brand}
+        onChangeText={setBrand}
+        maxLength={100}
+        editable={!saving}
+      />
+
+      <Text style={styles.label}>Tags</Text>
+      <TextInput
+        style={styles.input}
+        placeholder="e.g. work, gift"
+        placeholderTextColor="#666"
+        value={tags}
+        onChangeText={setTags}
+        editable={!saving}
+      />
+
+      <View style={styles.row}>
+        <View style={styles.rowField}>
+          <Text style={styles.label}>Bought on</Text>
+          <TextInput
+            style={styles.input}
+            placeholder="YYYY-MM-DD"
+            placeholderTextColor="#666"
+            value={purchaseDate}
+            onChangeText={setPurchaseDate}
+            maxLength={10}
+            editable={!saving}
+          />
+        </View>
+        <View style={styles.rowField}>
+          <Text style={styles.label}>Price</Text>
+          <TextInput
+            style={styles.input}
+            placeholder="0.00"
+            placeholderTextColor="#666"
+            value={purchasePrice}
+            onChangeText={setPurchasePrice}
+            keyboardType="decimal-pad"
+            editable={!saving}
+          />
+        </View>
+      </View>
+
+      {error ? <Text style={styles.error}>{error}</Text> : null}
+
+      <TouchableOpacity
+        style={[styles.button, saving && styles.buttonDisabled]}
+        onPress={submit}
+        disabled={saving}
+      >
+        {saving ? (
+          <ActivityIndicator color="#fff" size="small" />
+        ) : (
+          <Text style={styles.buttonText}>{submitLabel}</Text>
+        )}
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#2a2438',
+    borderRadius: 16,
+    padding: 16,
+    gap: 8,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#999',
+    marginTop: 4,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#666',
+  },
+  input: {
+    backgroundColor: '#1a1a2e',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    color: '#fff',
+    fontSize: 14,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: '#1a1a2e',
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  chipSelected: {
+    borderColor: '#4ECDC4',
+  },
+  chipText: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: '600',
+    textTransform: 'capitalize',
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  rowField: {
+    flex: 1,
+    gap: 8,
+  },
+  error: {
+    color: '#FF6B6B',
+    fontSize: 13,
+  },
+  button: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: '#4ECDC4',
+    marginTop: 8,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
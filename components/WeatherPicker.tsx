@@ -0,0 +1,161 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput } from 'react-native';
+import { IconSymbol } from '@/components/IconSymbol';
+import { Precipitation } from '@/utils/analyses';
+import { hasWeatherInput, WeatherInput } from '@/utils/weather';
+
+interface WeatherPickerProps {
+  value: WeatherInput;
+  onChange: (value: WeatherInput) => void;
+  disabled?: boolean;
+}
+
+const precipitationOptions: { value: Precipitation; label: string }[] = [
+  { value: 'none', label: 'Dry' },
+  { value: 'rain', label: 'Rain' },
+  { value: 'snow', label: 'Snow' },
+];
+
+/**
+ * Optional weather the user is dressing for: a city to look up, or the
+ * conditions typed in directly. Collapsed until the user opens it.
+ */
+export function WeatherPicker({ value, onChange, disabled = false }: WeatherPickerProps) {
+  const [expanded, setExpanded] = useState(hasWeatherInput(value));
+
+  const update = (changes: Partial<WeatherInput>) => onChange({ ...value, ...changes });
+
+  return (
+    <View style={styles.container}>
+      <TouchableOpacity style={styles.header} onPress={() => setExpanded((current) => !current)}>
+        <IconSymbol
+          ios_icon_name="cloud.sun.fill"
+          android_material_icon_name="wb-cloudy"
+          size={20}
+          color="#fff"
+        />
+        <Text style={styles.title}>Dress for the weather</Text>
+        <IconSymbol
+          ios_icon_name={expanded ? 'chevron.up' : 'chevron.down'}
+          android_material_icon_name={expanded ? 'expand-less' : 'expand-more'}
+          size={20}
+          color="#999"
+        />
+      </TouchableOpacity>
+
+      {expanded && (
+        <View style={styles.body}>
+          <TextInput
+            style={styles.input}
+            placeholder="City, e.g. London"
+            placeholderTextColor="#666"
+            value={value.location}
+            onChangeText={(location) => update({ location })}
+            editable={!disabled}
+            autoCorrect={false}
+          />
+          <Text style={styles.hint}>Or set the conditions yourself:</Text>
+          <View style={styles.inputRow}>
+            <TextInput
+              style={[styles.input, styles.numberInput]}
+              placeholder="°C"
+              placeholderTextColor="#666"
+              value={value.temperature}
+              onChangeText={(temperature) => update({ temperature })}
+              keyboardType="numbers-and-punctuation"
+              editable={!disabled}
+            />
+            <TextInput
+              style={[styles.input, styles.numberInput]}
+              placeholder="Wind km/h"
+              placeholderTextColor="#666"
+              value={value.wind}
+              onChangeText={(wind) => update({ wind })}
+              keyboardType="number-pad"
+              editable={!disabled}
+            />
+          </View>
+          <View style={styles.chipRow}>
+            {precipitationOptions.map((option) => (
+              <TouchableOpacity
+                key={option.value}
+                style={[styles.chip, value.precipitation === option.value && styles.chipSelected]}
+                onPress={() =>
+                  update({
+                    precipitation: value.precipitation === option.value ? null : option.value,
+                  })
+                }
+                disabled={disabled}
+              >
+                <Text style={styles.chipText}>{option.label}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#2a2438',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  title: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  body: {
+    marginTop: 12,
+    gap: 10,
+  },
+  input: {
+    backgroundColor: '#1a1a2e',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    color: '#fff',
+    fontSize: 14,
+  },
+  hint: {
+    fontSize: 13,
+    color: '#999',
+  },
+  inputRow: {
+    flexDirection: 'row',
+    gap: 10,
+  },
+  numberInput: {
+    flex: 1,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: '#1a1a2e',
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  chipSelected: {
+    borderColor: '#4ECDC4',
+  },
+  chipText: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+});
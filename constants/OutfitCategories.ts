@@ -0,0 +1,28 @@
+import MaterialIcons from '@expo/vector-icons/MaterialIcons';
+
+// Category ids come from the backend catalogue (GET /api/categories)
+export type OutfitCategory = string;
+
+export type CategoryIcon = keyof typeof MaterialIcons.glyphMap;
+
+export interface OutfitCategoryInfo {
+  id: OutfitCategory;
+  label: string;
+  description: string;
+  colors: [string, string];
+  icon: CategoryIcon;
+}
+
+// Used for ids the catalogue does not know (yet), e.g. while it is loading
+export const fallbackCategoryColors: [string, string] = ['#4A4A68', '#2A2A40'];
+export const fallbackCategoryIcon: CategoryIcon = 'checkroom';
+
+export function fallbackCategory(id: OutfitCategory): OutfitCategoryInfo {
+  return {
+    id,
+    label: id,
+    description: '',
+    colors: fallbackCategoryColors,
+    icon: fallbackCategoryIcon,
+  };
+}
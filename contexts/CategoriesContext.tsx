@@ -0,0 +1,59 @@
+import * as React from "react";
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from "react";
+import {
+  fallbackCategory,
+  OutfitCategory,
+  OutfitCategoryInfo,
+} from "@/constants/OutfitCategories";
+import { fetchCategories } from "@/utils/categories";
+import { isBackendConfigured } from "@/utils/api";
+
+type CategoriesContextType = {
+  categories: OutfitCategoryInfo[];
+  // Always returns something renderable, even for unknown ids
+  getCategory: (id: OutfitCategory) => OutfitCategoryInfo;
+  reload: () => Promise<void>;
+};
+
+const CategoriesContext = createContext<CategoriesContextType | null>(null);
+
+export function CategoriesProvider({ children }: { children: React.ReactNode }) {
+  const [categories, setCategories] = useState<OutfitCategoryInfo[]>([]);
+
+  const reload = useCallback(async () => {
+    if (!isBackendConfigured()) return;
+    try {
+      setCategories(await fetchCategories());
+    } catch (error) {
+      console.error("[Categories] Failed to load categories:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const getCategory = useCallback(
+    (id: OutfitCategory) => categories.find((category) => category.id === id) ?? fallbackCategory(id),
+    [categories]
+  );
+
+  const value = useMemo(
+    () => ({ categories, getCategory, reload }),
+    [categories, getCategory, reload]
+  );
+
+  return (
+    <CategoriesContext.Provider value={value}>
+      {children}
+    </CategoriesContext.Provider>
+  );
+}
+
+export const useCategories = () => {
+  const context = useContext(CategoriesContext);
+  if (!context) {
+    throw new Error("useCategories must be used within a CategoriesProvider");
+  }
+  return context;
+};
@@ -0,0 +1,439 @@
+/**
+ * Outfit analysis API
+ *
+ * Typed wrappers around the backend analysis history routes.
+ * All calls go through apiCall(), so the device id header is attached automatically.
+ */
+
+import { apiCall, apiDelete, apiEventStream, apiGet, apiPatch, apiPost, apiPut } from "@/utils/api";
+import { OutfitCategory } from "@/constants/OutfitCategories";
+
+// Category id -> how well the outfit fits it, 0-1
+export type CategoryScores = Record<OutfitCategory, number>;
+
+export type GarmentPattern =
+  | "solid"
+  | "striped"
+  | "checked"
+  | "floral"
+  | "graphic"
+  | "animal"
+  | "other";
+
+export interface DetectedGarment {
+  type: string;
+  color: string;
+  pattern: GarmentPattern;
+  material: string;
+  // Fractions of the photo's width/height, measured from its top-left corner
+  boundingBox: { x: number; y: number; width: number; height: number };
+}
+
+export interface StylingTip {
+  action: "swap" | "add" | "remove";
+  // Garment the tip applies to; for "add", the item to add
+  garment: string;
+  suggestion: string;
+  priority: "high" | "medium" | "low";
+}
+
+export type ColorHarmony = "monochrome" | "complementary" | "analogous" | "clashing";
+
+export interface ColorPalette {
+  // Most prominent first; share is the fraction of the photo, 0-1
+  colors: { hex: string; share: number }[];
+  harmony: ColorHarmony;
+}
+
+export type Precipitation = "none" | "rain" | "snow";
+
+export interface WeatherAssessment {
+  // Resolved place name when the conditions were looked up
+  location: string | null;
+  temperatureC: number | null;
+  precipitation: Precipitation | null;
+  windKph: number | null;
+  // Why the outfit does not suit the conditions; empty when it does
+  warnings: string[];
+}
+
+export type StyleDirection = "minimal" | "bold" | "budget" | "premium";
+
+export interface SuggestionImage {
+  url: string;
+  // Null for a single plain suggestion
+  direction: StyleDirection | null;
+  // Steering the image was regenerated with, e.g. "more colourful"
+  instruction: string | null;
+  favorite: boolean;
+}
+
+export interface OccasionMatch {
+  // Occasion id from GET /api/occasions
+  occasion: string;
+  label: string;
+  // 0-100
+  score: number;
+  // What is missing or wrong for the occasion; empty for a perfect fit
+  gaps: string[];
+}
+
+export interface AnalysisResult {
+  id: string;
+  // Kept for older clients; same as primaryCategory
+  category: OutfitCategory;
+  primaryCategory: OutfitCategory;
+  // Empty for analyses stored before scoring existed
+  scores: CategoryScores;
+  // Empty for analyses stored before garment detection existed
+  garments: DetectedGarment[];
+  // Most important first; empty for older analyses
+  tips: StylingTip[];
+  // Null for older analyses and photos the backend could not decode
+  palette: ColorPalette | null;
+  // Set when the outfit was rated against an occasion
+  targetOccasion: string | null;
+  occasionMatch: OccasionMatch | null;
+  // Set when weather conditions were given
+  weather: WeatherAssessment | null;
+  explanation: string;
+  // High | Medium | Low (free text for older analyses)
+  confidence: string;
+  // 0-1, null for older analyses
+  confidenceScore: number | null;
+  // Uncertain and not yet confirmed; offer a retake or a manual pick
+  lowConfidence: boolean;
+  categoryConfirmed: boolean;
+  // The favourite suggestion, or the first one
+  suggestionImageUrl: string;
+  // Oldest first: the original variants, then regenerated versions
+  suggestionImages: SuggestionImage[];
+  // Empty for analyses stored before original photos were kept
+  originalImageUrl: string;
+  createdAt: string;
+}
+
+export type FeedbackRating = "up" | "down";
+
+export interface AnalysisFeedback {
+  analysisId: string;
+  rating: FeedbackRating;
+  // Category the analysis had when feedback was first given
+  predictedCategory: OutfitCategory;
+  correctedCategory: OutfitCategory | null;
+  comment: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type AnalysisJobStatus = "queued" | "classifying" | "generating" | "done" | "failed";
+
+export interface AnalysisJob {
+  id: string;
+  status: AnalysisJobStatus;
+  // Partial results, filled in once classification has finished
+  category: OutfitCategory | null;
+  explanation: string | null;
+  confidence: string | null;
+  originalImageUrl: string;
+  // The stored analysis, set once the job is done
+  analysis: AnalysisResult | null;
+  error: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Sent as soon as the vision model has categorised the outfit
+export interface AnalysisClassification {
+  id: string;
+  category: OutfitCategory;
+  primaryCategory: OutfitCategory;
+  scores: CategoryScores;
+  garments: DetectedGarment[];
+  tips: StylingTip[];
+  palette: ColorPalette | null;
+  targetOccasion: string | null;
+  occasionMatch: OccasionMatch | null;
+  weather: WeatherAssessment | null;
+  explanation: string;
+  confidence: string;
+  confidenceScore: number;
+  lowConfidence: boolean;
+  originalImageUrl: string;
+}
+
+export interface AnalysisStreamHandlers {
+  // Once the server stored the photo; the result will be stored under this id
+  onAccepted?: (analysisId: string) => void;
+  onClassification?: (classification: AnalysisClassification) => void;
+  // Once per variant, in the order they finish
+  onSuggestionImage?: (image: Pick<SuggestionImage, "url" | "direction">) => void;
+  // Only when the stream dropped and the analysis was resubmitted as a job
+  onJobProgress?: (job: AnalysisJob) => void;
+}
+
+export interface AnalysisPage {
+  items: AnalysisResult[];
+  nextCursor: string | null;
+}
+
+/**
+ * Fetch a page of past analyses, newest first
+ *
+ * @param cursor - nextCursor from the previous page, or null for the first page
+ * @param limit - Page size (max 50)
+ */
+export const fetchAnalyses = async (
+  cursor: string | null = null,
+  limit = 20
+): Promise<AnalysisPage> => {
+  const params = new URLSearchParams({ limit: String(limit) });
+  if (cursor) {
+    params.set("cursor", cursor);
+  }
+  return apiGet<AnalysisPage>(`/api/analyses?${params.toString()}`);
+};
+
+/**
+ * Fetch a single stored analysis
+ */
+export const fetchAnalysis = async (id: string): Promise<AnalysisResult> => {
+  return apiGet<AnalysisResult>(`/api/analyses/${id}`);
+};
+
+/**
+ * Confirm or correct the category of a stored analysis
+ */
+export const confirmAnalysisCategory = async (
+  id: string,
+  category: OutfitCategory
+): Promise<AnalysisResult> => {
+  return apiPatch<AnalysisResult>(`/api/analyses/${id}`, { category });
+};
+
+/**
+ * Mark one suggestion image as the favourite, or clear it with null
+ *
+ * @param index - Index into the analysis' suggestionImages
+ */
+export const favoriteSuggestionImage = async (
+  id: string,
+  index: number | null
+): Promise<AnalysisResult> => {
+  return apiPatch<AnalysisResult>(`/api/analyses/${id}`, { favoriteSuggestion: index });
+};
+
+/**
+ * Generate another suggestion image from the stored classification.
+ * Earlier images are kept; the new one is appended to suggestionImages.
+ *
+ * @param instruction - Optional steering, e.g. "no heels"
+ */
+export const regenerateSuggestion = async (
+  id: string,
+  instruction?: string
+): Promise<AnalysisResult> => {
+  return apiPost<AnalysisResult>(`/api/analyses/${id}/regenerate`, instruction ? { instruction } : {});
+};
+
+/**
+ * Rate an analysis, replacing earlier feedback on it. A corrected category
+ * is also applied to the analysis itself.
+ */
+export const submitAnalysisFeedback = async (
+  id: string,
+  feedback: { rating: FeedbackRating; correctedCategory?: OutfitCategory; comment?: string }
+): Promise<AnalysisFeedback> => {
+  return apiPut<AnalysisFeedback>(`/api/analyses/${id}/feedback`, feedback);
+};
+
+/**
+ * Delete a stored analysis and its images
+ */
+export const deleteAnalysis = async (id: string): Promise<void> => {
+  await apiDelete<void>(`/api/analyses/${id}`);
+};
+
+const POLL_INTERVAL_MS = 1500;
+// Consecutive failed polls tolerated before giving up
+const MAX_POLL_FAILURES = 3;
+// How long to wait for a streamed analysis to be stored after the connection dropped
+const MAX_STORE_WAIT_MS = 3 * 60 * 1000;
+
+const STREAM_ENDED_MESSAGE = "Analysis stream ended unexpectedly";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Thrown by fetch and apiEventStream when the connection fails, or by
+// streamOutfitAnalysis when the stream closed before `done` or `error`
+const isConnectionLost = (error: unknown) =>
+  error instanceof Error &&
+  (error.message === "Network request failed" || error.message === STREAM_ENDED_MESSAGE);
+
+/**
+ * Start analyzing an outfit photo as a background job
+ *
+ * @param image - Multipart form data with an 'image' field, after any option fields
+ */
+export const startAnalysisJob = async (image: FormData): Promise<AnalysisJob> => {
+  return apiCall<AnalysisJob>("/api/analysis-jobs", { method: "POST", body: image });
+};
+
+/**
+ * Fetch the current status and partial results of an analysis job
+ */
+export const fetchAnalysisJob = async (id: string): Promise<AnalysisJob> => {
+  return apiGet<AnalysisJob>(`/api/analysis-jobs/${id}`);
+};
+
+/**
+ * Analyze an outfit photo over Server-Sent Events.
+ * Handlers fire as each step finishes; the promise resolves with the stored
+ * analysis once the `done` event arrives.
+ *
+ * @param image - Multipart form data with an 'image' field, after any option fields
+ * @param handlers - Callbacks for the partial results
+ * @param signal - Optional AbortSignal to stop listening
+ */
+export const streamOutfitAnalysis = async (
+  image: FormData,
+  handlers: AnalysisStreamHandlers,
+  signal?: AbortSignal
+): Promise<AnalysisResult> => {
+  let result: AnalysisResult | null = null;
+  let streamError: string | null = null;
+
+  const onEvent = (event: string, data: any) => {
+    switch (event) {
+      case "accepted":
+        handlers.onAccepted?.(data.analysisId);
+        break;
+      case "classification":
+        handlers.onClassification?.(data);
+        break;
+      case "suggestion_image":
+        handlers.onSuggestionImage?.({ url: data.suggestionImageUrl, direction: data.direction });
+        break;
+      case "done":
+        result = data;
+        break;
+      case "error":
+        streamError = data.error;
+        break;
+    }
+  };
+
+  try {
+    await apiEventStream("/api/analyze-outfit/stream", { method: "POST", body: image }, onEvent, signal);
+  } catch (error) {
+    // The connection may drop after the server already reported the failure
+    if (!streamError) throw error;
+  }
+
+  if (streamError) {
+    throw new Error(streamError);
+  }
+  if (!result) {
+    throw new Error(signal?.aborted ? "Analysis cancelled" : STREAM_ENDED_MESSAGE);
+  }
+  return result;
+};
+
+/**
+ * Poll an analysis job until it is done or failed. Brief connectivity drops
+ * are tolerated; the job keeps running server-side.
+ */
+export const waitForAnalysisJob = async (
+  id: string,
+  onProgress?: (job: AnalysisJob) => void,
+  signal?: AbortSignal
+): Promise<AnalysisResult> => {
+  let failures = 0;
+  while (true) {
+    await sleep(POLL_INTERVAL_MS);
+    if (signal?.aborted) {
+      throw new Error("Analysis cancelled");
+    }
+
+    let job: AnalysisJob;
+    try {
+      job = await fetchAnalysisJob(id);
+      failures = 0;
+    } catch (error) {
+      failures++;
+      if (failures >= MAX_POLL_FAILURES) throw error;
+      continue;
+    }
+
+    onProgress?.(job);
+    if (job.status === "failed") {
+      throw new Error(job.error || "Could not analyze the outfit. Please try again.");
+    }
+    if (job.status === "done") {
+      if (!job.analysis) {
+        throw new Error("The analysis was deleted before it could be shown");
+      }
+      return job.analysis;
+    }
+  }
+};
+
+// The streaming pipeline keeps running after a disconnect and stores the
+// analysis under the id sent with `accepted`
+const waitForStoredAnalysis = async (id: string, signal?: AbortSignal): Promise<AnalysisResult> => {
+  const deadline = Date.now() + MAX_STORE_WAIT_MS;
+  while (Date.now() < deadline) {
+    await sleep(POLL_INTERVAL_MS);
+    if (signal?.aborted) {
+      throw new Error("Analysis cancelled");
+    }
+    try {
+      return await fetchAnalysis(id);
+    } catch {
+      // Not stored yet, or still offline
+    }
+  }
+  throw new Error("The connection was lost before the analysis finished. Check your history later.");
+};
+
+/**
+ * Analyze an outfit photo, streaming partial results, without losing it to a
+ * dropped connection: once the server accepted the photo, the stored analysis
+ * is polled for; before that, the photo is resubmitted to the job API and the
+ * job is polled. An `error` event ends the analysis without polling.
+ *
+ * @param image - Multipart form data with an 'image' field, after any option fields
+ * @param handlers - Callbacks for the partial results and fallback job progress
+ * @param signal - Optional AbortSignal to stop listening
+ */
+export const analyzeOutfitPhoto = async (
+  image: FormData,
+  handlers: AnalysisStreamHandlers,
+  signal?: AbortSignal
+): Promise<AnalysisResult> => {
+  let acceptedId: string | null = null;
+  try {
+    return await streamOutfitAnalysis(
+      image,
+      {
+        ...handlers,
+        onAccepted: (analysisId) => {
+          acceptedId = analysisId;
+          handlers.onAccepted?.(analysisId);
+        },
+      },
+      signal
+    );
+  } catch (error) {
+    if (signal?.aborted || !isConnectionLost(error)) throw error;
+    console.warn("[Analyses] Analysis stream dropped, resuming:", error);
+  }
+
+  if (acceptedId) {
+    return waitForStoredAnalysis(acceptedId, signal);
+  }
+  // Without `accepted` the server never started on the photo, so sending it again is safe
+  const job = await startAnalysisJob(image);
+  handlers.onJobProgress?.(job);
+  return waitForAnalysisJob(job.id, handlers.onJobProgress, signal);
+};
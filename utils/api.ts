@@ -10,6 +10,7 @@
  * - Type-safe request/response handling
  * - Helper functions for common HTTP methods
  * - Automatic bearer token management for authenticated requests
+ * - Anonymous device id sent with every request to scope stored data
  *
  * Usage:
  * 1. Import BACKEND_URL or helper functions
@@ -22,6 +23,7 @@
 import Constants from "expo-constants";
 import { Platform } from "react-native";
 import * as SecureStore from "expo-secure-store";
+import * as Crypto from "expo-crypto";
 
 /**
  * Backend URL is configured in app.json under expo.extra.backendUrl
@@ -35,6 +37,14 @@ export const BACKEND_URL = Constants.expoConfig?.extra?.backendUrl || "";
  */
 const BEARER_TOKEN_KEY = "your-app_bearer_token";
 
+/**
+ * Device id storage key and the header the backend reads it from
+ */
+const DEVICE_ID_KEY = "outfit-ai_device_id";
+export const DEVICE_ID_HEADER = "X-Device-Id";
+
+let cachedDeviceId: string | null = null;
+
 /**
  * Check if backend is properly configured
  */
@@ -62,6 +72,52 @@ export const getBearerToken = async (): Promise<string | null> => {
   }
 };
 
+/**
+ * Generate a random RFC 4122 v4 identifier. The id is the only credential
+ * guarding the device's history, so it comes from a cryptographic source.
+ */
+const generateDeviceId = (): string => {
+  return Crypto.randomUUID();
+};
+
+/**
+ * Get the anonymous device id, creating and persisting it on first use.
+ * The backend uses it as the owner of analyses and other stored data.
+ * Web: localStorage
+ * Native: SecureStore
+ *
+ * @returns Stable device id for this install
+ */
+export const getDeviceId = async (): Promise<string> => {
+  if (cachedDeviceId) {
+    return cachedDeviceId;
+  }
+
+  try {
+    let deviceId =
+      Platform.OS === "web"
+        ? localStorage.getItem(DEVICE_ID_KEY)
+        : await SecureStore.getItemAsync(DEVICE_ID_KEY);
+
+    if (!deviceId) {
+      deviceId = generateDeviceId();
+      if (Platform.OS === "web") {
+        localStorage.setItem(DEVICE_ID_KEY, deviceId);
+      } else {
+        await SecureStore.setItemAsync(DEVICE_ID_KEY, deviceId);
+      }
+    }
+
+    cachedDeviceId = deviceId;
+    return deviceId;
+  } catch (error) {
+    console.error("[API] Error retrieving device id:", error);
+    // Fall back to a per-session id so requests still go through
+    cachedDeviceId = generateDeviceId();
+    return cachedDeviceId;
+  }
+};
+
 /**
  * Generic API call helper with error handling
  *
@@ -85,7 +141,9 @@ export const apiCall = async <T = any>(
     const response = await fetch(url, {
       ...options,
       headers: {
-        "Content-Type": "application/json",
+        // Only declare a JSON body when there is one; the backend rejects empty JSON bodies
+        ...(typeof options?.body === "string" ? { "Content-Type": "application/json" } : {}),
+        [DEVICE_ID_HEADER]: await getDeviceId(),
         ...options?.headers,
       },
     });
@@ -96,6 +154,11 @@ export const apiCall = async <T = any>(
       throw new Error(`API error: ${response.status} - ${text}`);
     }
 
+    if (response.status === 204) {
+      console.log("[API] Success: no content");
+      return undefined as T;
+    }
+
     const data = await response.json();
     console.log("[API] Success:", data);
     return data;
@@ -105,6 +168,101 @@ export const apiCall = async <T = any>(
   }
 };
 
+/**
+ * Server-Sent Events request helper
+ * Uses XMLHttpRequest because React Native's fetch cannot read a response
+ * body incrementally; new text is parsed on every progress event.
+ *
+ * @param endpoint - API endpoint path
+ * @param options - Method, body (e.g. FormData) and extra headers
+ * @param onEvent - Called with the event name and parsed JSON data of each event
+ * @param signal - Optional AbortSignal to cancel the stream
+ * @returns Promise that resolves when the server closes the stream
+ * @throws Error if backend is not configured or the request fails
+ */
+export const apiEventStream = async (
+  endpoint: string,
+  options: { method?: string; body?: any; headers?: Record<string, string> },
+  onEvent: (event: string, data: any) => void,
+  signal?: AbortSignal
+): Promise<void> => {
+  if (!isBackendConfigured()) {
+    throw new Error("Backend URL not configured. Please rebuild the app.");
+  }
+
+  const url = `${BACKEND_URL}${endpoint}`;
+  const deviceId = await getDeviceId();
+  console.log("[API] Streaming:", url, options.method || "GET");
+
+  return new Promise<void>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    let processedLength = 0;
+    let buffer = "";
+
+    // Events are separated by a blank line; keep any incomplete tail for later
+    const parseNewText = () => {
+      buffer += xhr.responseText.slice(processedLength);
+      processedLength = xhr.responseText.length;
+
+      const blocks = buffer.split("\n\n");
+      buffer = blocks.pop() ?? "";
+
+      for (const block of blocks) {
+        let event = "message";
+        const dataLines: string[] = [];
+        for (const line of block.split("\n")) {
+          if (line.startsWith("event:")) {
+            event = line.slice(6).trim();
+          } else if (line.startsWith("data:")) {
+            dataLines.push(line.slice(5).trim());
+          }
+        }
+        if (dataLines.length === 0) continue;
+
+        try {
+          onEvent(event, JSON.parse(dataLines.join("\n")));
+        } catch (error) {
+          console.error("[API] Failed to handle stream event:", event, error);
+        }
+      }
+    };
+
+    xhr.open(options.method || "GET", url);
+    xhr.setRequestHeader("Accept", "text/event-stream");
+    xhr.setRequestHeader(DEVICE_ID_HEADER, deviceId);
+    Object.entries(options.headers ?? {}).forEach(([name, value]) =>
+      xhr.setRequestHeader(name, value)
+    );
+
+    xhr.onprogress = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        parseNewText();
+      }
+    };
+
+    xhr.onload = () => {
+      if (xhr.status < 200 || xhr.status >= 300) {
+        console.error("[API] Error response:", xhr.status, xhr.responseText);
+        reject(new Error(`API error: ${xhr.status} - ${xhr.responseText}`));
+        return;
+      }
+      parseNewText();
+      resolve();
+    };
+
+    xhr.onerror = () => {
+      console.error("[API] Stream failed:", url);
+      reject(new Error("Network request failed"));
+    };
+
+    xhr.onabort = () => resolve();
+
+    signal?.addEventListener("abort", () => xhr.abort());
+
+    xhr.send(options.body ?? null);
+  });
+};
+
 /**
  * GET request helper
  */
@@ -0,0 +1,33 @@
+/**
+ * Outfit category catalogue API
+ *
+ * The backend owns the list of categories; the app only renders it.
+ */
+
+import MaterialIcons from "@expo/vector-icons/MaterialIcons";
+import { apiGet } from "@/utils/api";
+import {
+  CategoryIcon,
+  fallbackCategoryIcon,
+  OutfitCategoryInfo,
+} from "@/constants/OutfitCategories";
+
+interface CategoryResponse {
+  id: string;
+  label: string;
+  description: string;
+  colors: [string, string];
+  icon: string;
+}
+
+/**
+ * Fetch the category catalogue. Icons the installed icon font does not
+ * have are replaced with a generic one.
+ */
+export const fetchCategories = async (): Promise<OutfitCategoryInfo[]> => {
+  const { items } = await apiGet<{ items: CategoryResponse[] }>("/api/categories");
+  return items.map((item) => ({
+    ...item,
+    icon: item.icon in MaterialIcons.glyphMap ? (item.icon as CategoryIcon) : fallbackCategoryIcon,
+  }));
+};
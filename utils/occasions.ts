@@ -0,0 +1,30 @@
+/**
+ * Occasion catalogue API
+ *
+ * Occasions an outfit can be rated against; like categories, the backend owns the list.
+ */
+
+import MaterialIcons from "@expo/vector-icons/MaterialIcons";
+import { apiGet } from "@/utils/api";
+import { CategoryIcon, fallbackCategoryIcon } from "@/constants/OutfitCategories";
+
+export interface OccasionInfo {
+  id: string;
+  label: string;
+  dressCode: string;
+  icon: CategoryIcon;
+}
+
+/**
+ * Fetch the occasion catalogue. Icons the installed icon font does not
+ * have are replaced with a generic one.
+ */
+export const fetchOccasions = async (): Promise<OccasionInfo[]> => {
+  const { items } = await apiGet<{ items: (Omit<OccasionInfo, "icon"> & { icon: string })[] }>(
+    "/api/occasions"
+  );
+  return items.map((item) => ({
+    ...item,
+    icon: item.icon in MaterialIcons.glyphMap ? (item.icon as CategoryIcon) : fallbackCategoryIcon,
+  }));
+};
@@ -0,0 +1,121 @@
+/**
+ * Outfits API
+ *
+ * Typed wrappers around the backend outfit routes: looks saved from
+ * wardrobe items, and looks the backend proposes for a category or occasion.
+ */
+
+import { apiDelete, apiGet, apiPatch, apiPost } from "@/utils/api";
+import { WardrobeItem, WardrobeSeason } from "@/utils/wardrobe";
+
+export interface Outfit {
+  id: string;
+  name: string | null;
+  // Category or occasion id the look is for
+  category: string | null;
+  occasion: string | null;
+  // In the order they were arranged; deleted wardrobe items drop out
+  items: WardrobeItem[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface OutfitInput {
+  name?: string | null;
+  category?: string | null;
+  occasion?: string | null;
+  itemIds?: string[];
+}
+
+export interface OutfitPage {
+  items: Outfit[];
+  nextCursor: string | null;
+}
+
+// Kinds of garment a complete outfit is built from
+export type GarmentSlot = "onePiece" | "top" | "bottom" | "outerwear" | "shoes" | "accessory";
+
+export interface OutfitProposal {
+  items: WardrobeItem[];
+  // Rule-based compatibility, 0-1
+  score: number;
+  // What the rules liked or disliked
+  reasons: string[];
+  // The ranking model's reason, when the proposals were re-ranked
+  rankingReason: string | null;
+}
+
+export interface OutfitProposals {
+  proposals: OutfitProposal[];
+  // Kinds of garment the wardrobe lacks for a complete outfit
+  missing: GarmentSlot[];
+  // Model that re-ranked the proposals, null for the rule-based order
+  rankedBy: string | null;
+}
+
+export interface ProposalRequest {
+  // One of category or occasion
+  category?: string;
+  occasion?: string;
+  season?: WardrobeSeason;
+  count?: number;
+  // Let a model reorder the rule-based proposals
+  rerank?: boolean;
+}
+
+// Most items an outfit can hold
+export const MAX_OUTFIT_ITEMS = 12;
+
+/**
+ * Fetch a page of saved outfits, newest first
+ *
+ * @param cursor - nextCursor from the previous page, or null for the first page
+ * @param limit - Page size (max 50)
+ */
+export const fetchOutfits = async (
+  cursor: string | null = null,
+  limit = 20
+): Promise<OutfitPage> => {
+  const params = new URLSearchParams({ limit: String(limit) });
+  if (cursor) {
+    params.set("cursor", cursor);
+  }
+  return apiGet<OutfitPage>(`/api/outfits?${params.toString()}`);
+};
+
+/**
+ * Fetch a single saved outfit
+ */
+export const fetchOutfit = async (id: string): Promise<Outfit> => {
+  return apiGet<Outfit>(`/api/outfits/${id}`);
+};
+
+/**
+ * Save an outfit made of wardrobe items
+ */
+export const createOutfit = async (
+  input: OutfitInput & { itemIds: string[] }
+): Promise<Outfit> => {
+  return apiPost<Outfit>("/api/outfits", input);
+};
+
+/**
+ * Update an outfit; itemIds replaces all of its items
+ */
+export const updateOutfit = async (id: string, changes: OutfitInput): Promise<Outfit> => {
+  return apiPatch<Outfit>(`/api/outfits/${id}`, changes);
+};
+
+/**
+ * Delete a saved outfit; its wardrobe items are kept
+ */
+export const deleteOutfit = async (id: string): Promise<void> => {
+  await apiDelete<void>(`/api/outfits/${id}`);
+};
+
+/**
+ * Ask for complete outfits put together from the wardrobe. Nothing is saved.
+ */
+export const proposeOutfits = async (request: ProposalRequest): Promise<OutfitProposals> => {
+  return apiPost<OutfitProposals>("/api/outfits/proposals", request);
+};
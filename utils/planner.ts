@@ -0,0 +1,145 @@
+/**
+ * Planner API
+ *
+ * Typed wrappers around the backend planner routes: which saved outfit or
+ * past analysis the user plans to wear on each day.
+ */
+
+import { Platform } from "react-native";
+import * as SecureStore from "expo-secure-store";
+import { apiGet, apiPut } from "@/utils/api";
+import { Outfit } from "@/utils/outfits";
+
+export interface PlannedAnalysis {
+  id: string;
+  category: string;
+  originalImageUrl: string;
+  createdAt: string;
+}
+
+export interface PlannerEntry {
+  // YYYY-MM-DD
+  date: string;
+  // Exactly one of outfit and analysis is set
+  outfit: Outfit | null;
+  analysis: PlannedAnalysis | null;
+  worn: boolean;
+  wornAt: string | null;
+  // Earlier date within the repeat window that planned the same thing
+  repeatOf: string | null;
+}
+
+export interface Plan {
+  // Only days with something planned
+  entries: PlannerEntry[];
+  repeatDays: number;
+}
+
+// What a day is planned with, as sent to the backend
+export type PlanTarget = { outfitId: string } | { analysisId: string };
+
+export interface PlanEntryInput {
+  date: string;
+  outfitId?: string;
+  analysisId?: string;
+  worn?: boolean;
+}
+
+export const DEFAULT_REPEAT_DAYS = 7;
+export const MAX_REPEAT_DAYS = 90;
+
+const REPEAT_DAYS_KEY = "outfit-ai_planner_repeat_days";
+
+/**
+ * Local calendar date of a Date as YYYY-MM-DD
+ */
+export const toDateKey = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+/**
+ * Midnight local time of a YYYY-MM-DD date
+ */
+export const fromDateKey = (key: string): Date => {
+  const [year, month, day] = key.split("-").map(Number);
+  return new Date(year, month - 1, day);
+};
+
+const planQuery = (from: string, to: string, repeatDays: number) =>
+  new URLSearchParams({ from, to, repeatDays: String(repeatDays) }).toString();
+
+/**
+ * Fetch what is planned from..to (inclusive, at most 92 days)
+ *
+ * @param repeatDays - Flag outfits planned again within this many days
+ */
+export const fetchPlan = async (
+  from: string,
+  to: string,
+  repeatDays = DEFAULT_REPEAT_DAYS
+): Promise<Plan> => {
+  return apiGet<Plan>(`/api/planner?${planQuery(from, to, repeatDays)}`);
+};
+
+/**
+ * Replace the plan for from..to; days in the range missing from entries are cleared
+ */
+export const savePlan = async (
+  from: string,
+  to: string,
+  entries: PlanEntryInput[],
+  repeatDays = DEFAULT_REPEAT_DAYS
+): Promise<Plan> => {
+  return apiPut<Plan>(`/api/planner?${planQuery(from, to, repeatDays)}`, { entries });
+};
+
+/**
+ * Plan a single day, or clear it when target is null
+ *
+ * @returns The day as stored, or null when it was cleared
+ */
+export const planDay = async (
+  date: string,
+  target: PlanTarget | null,
+  worn = false,
+  repeatDays = DEFAULT_REPEAT_DAYS
+): Promise<PlannerEntry | null> => {
+  const { entries } = await savePlan(date, date, target ? [{ date, ...target, worn }] : [], repeatDays);
+  return entries[0] ?? null;
+};
+
+/**
+ * The repeat window the user chose, stored on the device
+ * Web: localStorage
+ * Native: SecureStore
+ */
+export const getRepeatDays = async (): Promise<number> => {
+  try {
+    const stored =
+      Platform.OS === "web"
+        ? localStorage.getItem(REPEAT_DAYS_KEY)
+        : await SecureStore.getItemAsync(REPEAT_DAYS_KEY);
+    const days = stored === null ? NaN : Number(stored);
+    return Number.isInteger(days) && days >= 0 && days <= MAX_REPEAT_DAYS ? days : DEFAULT_REPEAT_DAYS;
+  } catch (error) {
+    console.error("[Planner] Error reading the repeat window:", error);
+    return DEFAULT_REPEAT_DAYS;
+  }
+};
+
+/**
+ * Remember the repeat window on the device
+ */
+export const setRepeatDays = async (days: number): Promise<void> => {
+  try {
+    if (Platform.OS === "web") {
+      localStorage.setItem(REPEAT_DAYS_KEY, String(days));
+    } else {
+      await SecureStore.setItemAsync(REPEAT_DAYS_KEY, String(days));
+    }
+  } catch (error) {
+    console.error("[Planner] Error saving the repeat window:", error);
+  }
+};
@@ -0,0 +1,170 @@
+/**
+ * Wardrobe API
+ *
+ * Typed wrappers around the backend wardrobe routes: the user's own
+ * garments, added from a photo or from the garments detected in an analysis.
+ */
+
+import { apiCall, apiDelete, apiGet, apiPatch, apiPost } from "@/utils/api";
+import { GarmentPattern } from "@/utils/analyses";
+
+export type WardrobeSeason = "spring" | "summer" | "autumn" | "winter";
+
+export const WARDROBE_SEASONS: WardrobeSeason[] = ["spring", "summer", "autumn", "winter"];
+
+export interface WardrobeItem {
+  id: string;
+  // Empty when the item has no photo
+  imageUrl: string;
+  // Lowercase, e.g. "blazer"
+  type: string;
+  // Lowercase colour names, main colour first
+  colors: string[];
+  pattern: GarmentPattern | null;
+  material: string | null;
+  // Empty for items worn all year round
+  seasons: WardrobeSeason[];
+  brand: string | null;
+  tags: string[];
+  // YYYY-MM-DD
+  purchaseDate: string | null;
+  purchasePrice: number | null;
+  // Analysis the item was detected in, if it was added from one
+  sourceAnalysisId: string | null;
+  createdAt: string;
+}
+
+// Editable fields; send only what changes
+export type WardrobeItemInput = Partial<
+  Pick<
+    WardrobeItem,
+    | "type"
+    | "colors"
+    | "pattern"
+    | "material"
+    | "seasons"
+    | "brand"
+    | "tags"
+    | "purchaseDate"
+    | "purchasePrice"
+  >
+>;
+
+export interface WardrobeFilters {
+  type?: string;
+  color?: string;
+  season?: WardrobeSeason;
+  tag?: string;
+}
+
+export interface WardrobePage {
+  items: WardrobeItem[];
+  nextCursor: string | null;
+}
+
+// Values in use across the wardrobe, for filter pickers
+export interface WardrobeFacets {
+  types: string[];
+  colors: string[];
+  tags: string[];
+}
+
+/**
+ * Fetch a page of wardrobe items, newest first. Items without seasons
+ * match every season filter.
+ *
+ * @param cursor - nextCursor from the previous page, or null for the first page
+ * @param limit - Page size (max 100)
+ */
+export const fetchWardrobe = async (
+  filters: WardrobeFilters = {},
+  cursor: string | null = null,
+  limit = 30
+): Promise<WardrobePage> => {
+  const params = new URLSearchParams({ limit: String(limit) });
+  for (const [key, value] of Object.entries(filters)) {
+    if (value) {
+      params.set(key, value);
+    }
+  }
+  if (cursor) {
+    params.set("cursor", cursor);
+  }
+  return apiGet<WardrobePage>(`/api/wardrobe?${params.toString()}`);
+};
+
+/**
+ * Fetch the types, colours and tags used in the wardrobe
+ */
+export const fetchWardrobeFacets = async (): Promise<WardrobeFacets> => {
+  return apiGet<WardrobeFacets>("/api/wardrobe/facets");
+};
+
+/**
+ * Fetch a single wardrobe item
+ */
+export const fetchWardrobeItem = async (id: string): Promise<WardrobeItem> => {
+  return apiGet<WardrobeItem>(`/api/wardrobe/${id}`);
+};
+
+/**
+ * Add an item from a photo of it
+ *
+ * @param imageUri - Local photo URI, e.g. from the image picker
+ * @param input - Item fields; type is required
+ */
+export const addWardrobeItem = async (
+  imageUri: string,
+  input: WardrobeItemInput & { type: string }
+): Promise<WardrobeItem> => {
+  const formData = new FormData();
+
+  // The backend only reads fields sent before the file; lists are comma separated
+  for (const [key, value] of Object.entries(input)) {
+    if (value === null || value === undefined) continue;
+    formData.append(key, Array.isArray(value) ? value.join(",") : String(value));
+  }
+
+  const filename = imageUri.split("/").pop() || "item.jpg";
+  const match = /\.(\w+)$/.exec(filename);
+  formData.append("image", {
+    uri: imageUri,
+    name: filename,
+    type: match ? `image/${match[1]}` : "image/jpeg",
+  } as any);
+
+  return apiCall<WardrobeItem>("/api/wardrobe", { method: "POST", body: formData });
+};
+
+/**
+ * Add garments detected in an analysis, each with a photo cropped from it
+ *
+ * @param garments - Indexes into the analysis' garments; all of them when omitted
+ */
+export const addGarmentsToWardrobe = async (
+  analysisId: string,
+  garments?: number[]
+): Promise<WardrobeItem[]> => {
+  const { items } = await apiPost<{ items: WardrobeItem[] }>("/api/wardrobe/from-analysis", {
+    analysisId,
+    garments,
+  });
+  return items;
+};
+
+/**
+ * Update the fields of a wardrobe item
+ */
+export const updateWardrobeItem = async (
+  id: string,
+  changes: WardrobeItemInput
+): Promise<WardrobeItem> => {
+  return apiPatch<WardrobeItem>(`/api/wardrobe/${id}`, changes);
+};
+
+/**
+ * Delete a wardrobe item and its photo
+ */
+export const deleteWardrobeItem = async (id: string): Promise<void> => {
+  await apiDelete<void>(`/api/wardrobe/${id}`);
+};
@@ -0,0 +1,37 @@
+/**
+ * Weather inputs for an analysis
+ *
+ * Sent as multipart text fields; the backend looks up `location` with its
+ * weather provider and lets typed-in values override the looked-up ones.
+ */
+
+import { Precipitation } from "@/utils/analyses";
+
+export interface WeatherInput {
+  location: string;
+  // Kept as typed so the fields can be edited freely; parsed by the backend
+  temperature: string;
+  wind: string;
+  precipitation: Precipitation | null;
+}
+
+export const emptyWeatherInput: WeatherInput = {
+  location: "",
+  temperature: "",
+  wind: "",
+  precipitation: null,
+};
+
+export const hasWeatherInput = (input: WeatherInput): boolean =>
+  !!(input.location.trim() || input.temperature.trim() || input.wind.trim() || input.precipitation);
+
+/**
+ * Add the filled-in weather fields to an analysis form.
+ * Call before appending the image; the backend ignores fields after it.
+ */
+export const appendWeatherFields = (formData: FormData, input: WeatherInput) => {
+  if (input.location.trim()) formData.append("location", input.location.trim());
+  if (input.temperature.trim()) formData.append("temperature", input.temperature.trim());
+  if (input.wind.trim()) formData.append("wind", input.wind.trim());
+  if (input.precipitation) formData.append("precipitation", input.precipitation);
+};